@@ -0,0 +1,175 @@
+/** Format name written in backup headers */
+export const BACKUP_FORMAT = "kvstore-ndjson";
+
+/**
+ * First line of a backup, describing where and when it was taken
+ */
+export interface BackupHeader {
+  type: "header";
+  /** Always {@link BACKUP_FORMAT} */
+  format: typeof BACKUP_FORMAT;
+  /** Database the entries were exported from */
+  dbName: string;
+  /** Store the entries were exported from */
+  storeName: string;
+  /** Export start time, as an ISO 8601 string */
+  timestamp: string;
+  /** Version of the tagged value envelopes the values may contain */
+  codecVersion: number;
+}
+
+/**
+ * Line of a backup holding one entry, with the value as stored on the server
+ */
+export interface BackupEntry {
+  key: string;
+  value: any;
+}
+
+/**
+ * Destination of an export: a Node.js writable stream, a WHATWG stream
+ * writer, or anything with a `write` method
+ */
+export interface BackupWritable {
+  /** Writes a chunk; may return a promise, or false to ask for a drain */
+  write(chunk: string): unknown;
+  /** Registers a drain listener, for Node.js streams applying backpressure */
+  once?(event: "drain", listener: () => void): unknown;
+}
+
+/**
+ * Source of an import: a Node.js readable stream, a WHATWG readable stream,
+ * or any (async) iterable of text or bytes
+ */
+export type BackupReadable =
+  | AsyncIterable<string | Uint8Array>
+  | Iterable<string | Uint8Array>;
+
+/**
+ * Export settings
+ */
+export interface ExportOptions {
+  /** Only export keys starting with this prefix */
+  prefix?: string;
+  /** Number of keys read per `getMany` call (default 100) */
+  chunkSize?: number;
+  /**
+   * Resume an interrupted export after this key; the header is not written
+   * again, so the output can be appended to the partial backup
+   */
+  afterKey?: string;
+  /** Called after each chunk is written */
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Progress of an export
+ */
+export interface ExportProgress {
+  /** Number of entries written so far */
+  entries: number;
+  /** Last key written, to pass as `afterKey` when resuming */
+  lastKey: string | null;
+}
+
+/**
+ * How an import treats keys that already exist in the store
+ * - `overwrite`: replace their values
+ * - `skip-existing`: keep their current values
+ * - `fail-on-conflict`: stop with a `KVStoreConflictError`
+ */
+export type ImportMode = "overwrite" | "skip-existing" | "fail-on-conflict";
+
+/**
+ * Import settings
+ */
+export interface ImportOptions {
+  /** Treatment of existing keys (default "overwrite") */
+  mode?: ImportMode;
+  /** Number of entries written per `setMany` call (default 100) */
+  chunkSize?: number;
+  /**
+   * Resume an interrupted import after this line number, as reported by
+   * `onProgress`; the header line is still read and checked
+   */
+  fromLine?: number;
+  /** Called after each chunk is committed */
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+/**
+ * Progress of an import
+ */
+export interface ImportProgress {
+  /** Number of entries written so far */
+  imported: number;
+  /** Number of existing entries left untouched so far */
+  skipped: number;
+  /** Last line committed to the store, to pass as `fromLine` when resuming */
+  line: number;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult extends ImportProgress {
+  /** Header of the imported backup */
+  header: BackupHeader;
+}
+
+/**
+ * Writes one NDJSON record, waiting when the destination asks for it
+ *
+ * @param writable - Destination
+ * @param record - Record to serialize on its own line
+ */
+export async function writeRecord(
+  writable: BackupWritable,
+  record: BackupHeader | BackupEntry,
+): Promise<void> {
+  const result = writable.write(`${JSON.stringify(record)}\n`);
+  if (result && typeof (result as Promise<unknown>).then === "function") {
+    await result;
+    return;
+  }
+  const once = writable.once;
+  if (result === false && once) {
+    await new Promise<void>((resolve) => {
+      once.call(writable, "drain", resolve);
+    });
+  }
+}
+
+/**
+ * Splits a text or byte stream into numbered, non-empty lines
+ *
+ * @param readable - Source of text or UTF-8 bytes
+ * @returns Async iterator of lines and their 1-based line numbers
+ */
+export async function* readLines(
+  readable: BackupReadable,
+): AsyncIterableIterator<{ line: number; text: string }> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let line = 0;
+
+  for await (const chunk of readable) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const text = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      line++;
+      if (text.trim()) yield { line, text };
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  buffer += decoder.decode();
+  line++;
+  if (buffer.trim()) yield { line, text: buffer };
+}
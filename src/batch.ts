@@ -0,0 +1,122 @@
+/**
+ * Settings of the `get` batcher
+ */
+export interface BatchOptions {
+  /**
+   * Time to wait for more calls before sending a batch, in milliseconds
+   * (default 0: calls made in the same tick)
+   */
+  windowMs?: number;
+  /** Maximum number of keys per `getMany` request (default 100) */
+  maxBatchSize?: number;
+}
+
+/** Caller waiting for the value of a queued key */
+interface QueuedLoad<V> {
+  key: string;
+  resolve(value: V): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Merges individual key loads into batched requests, DataLoader style
+ *
+ * Loads queued within the window are sent together once the window elapses
+ * or the batch is full. Loads of a key that is already queued or in flight
+ * share its promise, and a failed batch rejects only the loads it carried.
+ *
+ * @example
+ * ```typescript
+ * const loader = new KVBatchLoader((keys) => fetchMany(keys));
+ * const [a, b] = await Promise.all([loader.load('a'), loader.load('b')]);
+ * ```
+ */
+export class KVBatchLoader<V = any> {
+  /** Loads several keys at once, returning values in key order */
+  private readonly loadMany: (keys: string[]) => Promise<V[]>;
+  /** Time to wait for more loads, in milliseconds */
+  private readonly windowMs: number;
+  /** Maximum number of keys per batch */
+  private readonly maxBatchSize: number;
+  /** Loads waiting for the next batch, one per key */
+  private queue: QueuedLoad<V>[] = [];
+  /** Promises of queued and in-flight keys, used for deduplication */
+  private readonly promises = new Map<string, Promise<V>>();
+  /** Timer sending the queued batch */
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a batch loader
+   *
+   * @param loadMany - Loads several keys at once, returning values in key order
+   * @param options - Window and batch size settings
+   */
+  constructor(
+    loadMany: (keys: string[]) => Promise<V[]>,
+    options: BatchOptions = {},
+  ) {
+    this.loadMany = loadMany;
+    this.windowMs = options.windowMs ?? 0;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 100);
+  }
+
+  /**
+   * Queues a key for the next batch
+   *
+   * @param key - The key to load
+   * @returns Promise resolving to the value returned for the key
+   */
+  load(key: string): Promise<V> {
+    const existing = this.promises.get(key);
+    if (existing) return existing;
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+    });
+    this.promises.set(key, promise);
+    const settle = () => {
+      if (this.promises.get(key) === promise) this.promises.delete(key);
+    };
+    promise.then(settle, settle);
+
+    if (this.queue.length >= this.maxBatchSize) {
+      this.dispatch();
+    } else if (this.timer === undefined) {
+      this.timer = setTimeout(() => this.dispatch(), this.windowMs);
+    }
+    return promise;
+  }
+
+  /**
+   * Stops sharing the pending promise of a key, so the next load fetches it
+   * again; call it after writing the key
+   *
+   * @param key - The key to forget, or undefined to forget every key
+   */
+  forget(key?: string): void {
+    if (key === undefined) this.promises.clear();
+    else this.promises.delete(key);
+  }
+
+  /**
+   * Sends the queued loads as one batch
+   */
+  private dispatch(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const batch = this.queue;
+    this.queue = [];
+    if (batch.length === 0) return;
+
+    this.loadMany(batch.map((load) => load.key)).then(
+      (values) => {
+        batch.forEach((load, index) => {
+          load.resolve(values[index]);
+        });
+      },
+      (error) => {
+        for (const load of batch) load.reject(error);
+      },
+    );
+  }
+}
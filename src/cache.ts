@@ -0,0 +1,216 @@
+/**
+ * Value kept in a cache storage
+ */
+export interface KVCacheEntry {
+  /** JSON text of the value as sent to or received from the server */
+  json: string;
+  /** Time after which the entry is stale, in epoch milliseconds */
+  expiresAt?: number;
+}
+
+/**
+ * Backend holding cached entries; implement it to share a cache between
+ * clients or processes. Methods may return promises.
+ */
+export interface KVCacheStorage {
+  /** Returns the entry stored under a key, marking it as recently used */
+  get(
+    key: string,
+  ): KVCacheEntry | undefined | Promise<KVCacheEntry | undefined>;
+  /** Stores an entry */
+  set(key: string, entry: KVCacheEntry): void | Promise<void>;
+  /** Removes an entry */
+  delete(key: string): void | Promise<void>;
+  /** Removes every entry whose key starts with the prefix */
+  deletePrefix(prefix: string): void | Promise<void>;
+  /** Number of entries evicted to make room, when the storage tracks it */
+  readonly evictions?: number;
+  /** Number of stored entries, when the storage tracks it */
+  readonly size?: number;
+}
+
+/**
+ * Cache settings
+ */
+export interface CacheOptions {
+  /** Maximum number of entries of the default storage (default 1000) */
+  maxSize?: number;
+  /** Time to live of an entry in milliseconds (default: no expiry) */
+  ttlMs?: number;
+  /** Custom storage, replacing the default in-memory LRU */
+  storage?: KVCacheStorage;
+}
+
+/**
+ * Cache effectiveness counters
+ */
+export interface KVCacheStats {
+  /** Reads answered from the cache */
+  hits: number;
+  /** Reads that had to reach the server */
+  misses: number;
+  /** Entries dropped to respect the maximum size */
+  evictions: number;
+  /** Entries dropped because their TTL elapsed */
+  expirations: number;
+  /** Entries currently stored, when the storage reports it */
+  size?: number;
+}
+
+/**
+ * In-memory storage evicting the least recently used entries
+ */
+export class LRUCacheStorage implements KVCacheStorage {
+  /** Entries in least to most recently used order */
+  private readonly entries = new Map<string, KVCacheEntry>();
+  /** Maximum number of entries */
+  private readonly maxSize: number;
+  /** Number of entries evicted so far */
+  evictions = 0;
+
+  /**
+   * Creates a new LRU storage
+   *
+   * @param maxSize - Maximum number of entries to keep
+   */
+  constructor(maxSize = 1000) {
+    this.maxSize = maxSize;
+  }
+
+  /** Number of stored entries */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): KVCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to move the entry to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: KVCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  deletePrefix(prefix: string): void {
+    const keys: string[] = [];
+    this.entries.forEach((_entry, key) => {
+      if (key.indexOf(prefix) === 0) keys.push(key);
+    });
+    for (const key of keys) this.entries.delete(key);
+  }
+}
+
+/**
+ * Read-through cache layer applying TTLs and counting hits and misses
+ */
+export class KVCache {
+  /** Backend holding the entries */
+  private readonly storage: KVCacheStorage;
+  /** Time to live of new entries, undefined for no expiry */
+  private readonly ttlMs?: number;
+  /** Counters reported by {@link stats} */
+  private counters = { hits: 0, misses: 0, expirations: 0 };
+
+  /**
+   * Creates a cache layer
+   *
+   * @param options - Size, TTL and storage settings
+   */
+  constructor(options: CacheOptions = {}) {
+    this.storage = options.storage ?? new LRUCacheStorage(options.maxSize);
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Looks a key up, counting the hit or miss
+   *
+   * @param key - Cache key
+   * @returns A fresh copy of the cached value, or undefined on a miss
+   */
+  async get(key: string): Promise<{ value: any } | undefined> {
+    const entry = await this.storage.get(key);
+
+    if (
+      entry &&
+      entry.expiresAt !== undefined &&
+      entry.expiresAt <= Date.now()
+    ) {
+      this.counters.expirations++;
+      this.counters.misses++;
+      await this.storage.delete(key);
+      return undefined;
+    }
+
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+    this.counters.hits++;
+    return { value: JSON.parse(entry.json) };
+  }
+
+  /**
+   * Stores a value with the configured TTL; values are kept as JSON so
+   * callers never share or mutate cached objects
+   *
+   * @param key - Cache key
+   * @param value - Value to cache
+   */
+  async set(key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      await this.storage.delete(key);
+      return;
+    }
+    await this.storage.set(key, {
+      json: JSON.stringify(value),
+      ...(this.ttlMs !== undefined && { expiresAt: Date.now() + this.ttlMs }),
+    });
+  }
+
+  /**
+   * Invalidates a key
+   *
+   * @param key - Cache key
+   */
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  /**
+   * Invalidates every key starting with a prefix
+   *
+   * @param prefix - Cache key prefix
+   */
+  async deletePrefix(prefix: string): Promise<void> {
+    await this.storage.deletePrefix(prefix);
+  }
+
+  /**
+   * Returns the current counters
+   *
+   * @returns Hits, misses, evictions, expirations and size
+   */
+  stats(): KVCacheStats {
+    return {
+      ...this.counters,
+      evictions: this.storage.evictions ?? 0,
+      ...(this.storage.size !== undefined && { size: this.storage.size }),
+    };
+  }
+}
@@ -0,0 +1,169 @@
+/** Property holding the chunk count of a manifest */
+const MANIFEST_PROP = "$kvChunks";
+
+/** Property holding the text of a chunk */
+const CHUNK_PROP = "$kvChunk";
+
+/** Prefix of the keys holding chunks */
+export const CHUNK_KEY_PREFIX = "$kvchunk:";
+
+/**
+ * Chunking settings
+ */
+export interface ChunkingOptions {
+  /**
+   * Largest value sent in one request, in characters of JSON; larger values
+   * are split into chunks that stay within it (default 262144)
+   */
+  maxValueSize?: number;
+  /**
+   * Let overwrites read the replaced value only for keys this client has
+   * seen holding a chunked value, saving a request per write; overwriting a
+   * value chunked by another client or process then leaves its chunks
+   * behind. Deletions always read it (default false)
+   */
+  trackChunkedKeys?: boolean;
+}
+
+/**
+ * Value stored under the key of a chunked value, naming its chunks
+ */
+export interface KVChunkManifest {
+  /** Number of chunks */
+  $kvChunks: number;
+  /** Identifier shared by the chunk keys of this write */
+  id: string;
+}
+
+/**
+ * Tells whether a key holds a chunk
+ *
+ * @param key - A stored key
+ * @returns True for chunk keys
+ */
+export function isChunkKey(key: string): boolean {
+  return key.indexOf(CHUNK_KEY_PREFIX) === 0;
+}
+
+/**
+ * Tells whether a stored value is a chunk
+ *
+ * @param stored - Data returned by the server
+ * @returns True for chunks
+ */
+export function isChunk(stored: any): boolean {
+  return (
+    stored !== null &&
+    typeof stored === "object" &&
+    typeof stored[CHUNK_PROP] === "string"
+  );
+}
+
+/**
+ * Tells whether a stored value is the manifest of a chunked value
+ *
+ * @param stored - Data returned by the server
+ * @returns True for manifests
+ */
+export function isManifest(stored: any): stored is KVChunkManifest {
+  return (
+    stored !== null &&
+    typeof stored === "object" &&
+    typeof stored[MANIFEST_PROP] === "number" &&
+    typeof stored.id === "string"
+  );
+}
+
+/**
+ * Lists the keys holding the chunks of a value
+ *
+ * @param manifest - The manifest
+ * @returns Chunk keys, in order
+ */
+export function chunkKeysOf(manifest: KVChunkManifest): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < manifest[MANIFEST_PROP]; i++) {
+    keys.push(`${CHUNK_KEY_PREFIX}${manifest.id}:${i}`);
+  }
+  return keys;
+}
+
+/**
+ * Splits a value whose JSON exceeds the maximum size into chunks
+ *
+ * @param value - Value to store
+ * @param maxValueSize - Largest chunk, in characters of JSON
+ * @returns The manifest to store in place of the value and the chunks to
+ * store first, or null when the value fits
+ */
+export function splitValue(
+  value: any,
+  maxValueSize: number,
+): { manifest: KVChunkManifest; chunks: { key: string; value: any }[] } | null {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= maxValueSize) return null;
+
+  // Chunk text is escaped once more inside the request, so each chunk is
+  // cut where its escaped form would exceed the limit
+  const budget = Math.max(
+    1,
+    maxValueSize - JSON.stringify({ [CHUNK_PROP]: "" }).length,
+  );
+  const pieces: string[] = [];
+  let start = 0;
+  let size = 0;
+  for (let i = 0; i < json.length; i++) {
+    const cost = escapedLength(json.charCodeAt(i));
+    if (size + cost > budget && i > start) {
+      pieces.push(json.slice(start, i));
+      start = i;
+      size = 0;
+    }
+    size += cost;
+  }
+  pieces.push(json.slice(start));
+
+  const manifest: KVChunkManifest = {
+    [MANIFEST_PROP]: pieces.length,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+  };
+  const chunks = chunkKeysOf(manifest).map((key, index) => ({
+    key,
+    value: { [CHUNK_PROP]: pieces[index] },
+  }));
+  return { manifest, chunks };
+}
+
+/**
+ * Measures a character once escaped in a JSON string; lone surrogates are
+ * counted as escaped, so halves of a pair are never undercounted
+ *
+ * @param code - UTF-16 code unit
+ * @returns Number of characters it takes in JSON
+ */
+function escapedLength(code: number): number {
+  if (code === 0x22 || code === 0x5c) return 2;
+  if (code < 0x20) {
+    // \b, \t, \n, \f and \r have short escapes
+    return code === 8 || code === 9 || code === 10 || code === 12 || code === 13
+      ? 2
+      : 6;
+  }
+  if (code >= 0xd800 && code <= 0xdfff) return 6;
+  return 1;
+}
+
+/**
+ * Rebuilds a value from its chunks
+ *
+ * @param parts - Stored chunks in order, null for missing ones
+ * @returns The value, or undefined when a chunk is missing
+ */
+export function joinChunks(parts: any[]): any {
+  let json = "";
+  for (const part of parts) {
+    if (!isChunk(part)) return undefined;
+    json += part[CHUNK_PROP];
+  }
+  return JSON.parse(json);
+}
@@ -0,0 +1,228 @@
+import { base64ToBytes, bytesToBase64 } from "./encoding";
+import { KVStoreCodecError } from "./errors";
+
+/**
+ * Version of the tagged envelope format written by {@link KVValueCodec}
+ */
+export const CODEC_VERSION = 1;
+
+/** Property marking a tagged envelope */
+const TAG = "$kv";
+
+/** Tag wrapping plain objects that use the marker property themselves */
+const ESCAPE_TAG = "object";
+
+/**
+ * Converts values of one type to and from JSON-compatible data
+ *
+ * @example
+ * ```typescript
+ * const money: KVCodec<Money> = {
+ *   tag: 'money',
+ *   test: (value) => value instanceof Money,
+ *   encode: (value) => ({ amount: value.amount, currency: value.currency }),
+ *   decode: (data) => new Money(data.amount, data.currency),
+ * };
+ * ```
+ */
+export interface KVCodec<T = any> {
+  /** Unique name written into the envelope */
+  tag: string;
+  /** Returns true for values handled by this codec */
+  test(value: unknown): boolean;
+  /** Converts the value to data; nested values in the result are encoded too */
+  encode(value: T): any;
+  /** Rebuilds the value from data whose nested values are already decoded */
+  decode(data: any): T;
+}
+
+/**
+ * Codecs for the built-in types JSON cannot represent
+ */
+export const BUILTIN_CODECS: KVCodec[] = [
+  {
+    tag: "date",
+    test: (value) => value instanceof Date,
+    encode: (value: Date) =>
+      Number.isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: (data: string | null) => new Date(data === null ? NaN : data),
+  },
+  {
+    tag: "bigint",
+    test: (value) => typeof value === "bigint",
+    encode: (value: bigint) => value.toString(),
+    decode: (data: string) => BigInt(data),
+  },
+  {
+    tag: "map",
+    test: (value) => value instanceof Map,
+    encode: (value: Map<unknown, unknown>) => {
+      const pairs: unknown[][] = [];
+      value.forEach((v, k) => {
+        pairs.push([k, v]);
+      });
+      return pairs;
+    },
+    decode: (data: [unknown, unknown][]) => {
+      const map = new Map<unknown, unknown>();
+      for (const [k, v] of data) map.set(k, v);
+      return map;
+    },
+  },
+  {
+    tag: "set",
+    test: (value) => value instanceof Set,
+    encode: (value: Set<unknown>) => {
+      const items: unknown[] = [];
+      value.forEach((item) => {
+        items.push(item);
+      });
+      return items;
+    },
+    decode: (data: unknown[]) => {
+      const set = new Set<unknown>();
+      for (const item of data) set.add(item);
+      return set;
+    },
+  },
+  {
+    tag: "bytes",
+    test: (value) => value instanceof Uint8Array,
+    encode: (value: Uint8Array) => bytesToBase64(value),
+    decode: (data: string) => base64ToBytes(data),
+  },
+];
+
+/**
+ * Serializes values into JSON-compatible data using tagged envelopes
+ * (`{ "$kv": tag, "v": data }`), and back
+ *
+ * @example
+ * ```typescript
+ * const codec = new KVValueCodec();
+ * const data = codec.encode({ at: new Date(0) });
+ * // { at: { $kv: 'date', v: '1970-01-01T00:00:00.000Z' } }
+ * codec.decode(data); // { at: Date }
+ * ```
+ */
+export class KVValueCodec {
+  /** Registered codecs, checked in order */
+  private readonly codecs: KVCodec[];
+
+  /**
+   * Creates a codec layer
+   *
+   * @param codecs - Custom codecs, checked before the built-in ones
+   */
+  constructor(codecs: KVCodec[] = []) {
+    this.codecs = codecs.concat(BUILTIN_CODECS);
+  }
+
+  /**
+   * Registers a custom codec, taking precedence over existing ones
+   *
+   * @param codec - The codec to add
+   * @returns This instance, for chaining
+   * @throws KVStoreCodecError when the tag is reserved or already registered
+   */
+  register(codec: KVCodec): this {
+    if (codec.tag === ESCAPE_TAG || this.find(codec.tag)) {
+      throw new KVStoreCodecError(
+        `Codec tag "${codec.tag}" is already registered`,
+        { action: "registerCodec", tag: codec.tag },
+      );
+    }
+    this.codecs.unshift(codec);
+    return this;
+  }
+
+  /**
+   * Converts a value into JSON-compatible data
+   *
+   * @param value - Any value, possibly containing registered types
+   * @returns Data that survives `JSON.stringify`
+   */
+  encode(value: unknown): any {
+    if (value === null || typeof value !== "object") {
+      const codec = this.match(value);
+      return codec ? this.wrap(codec, value) : value;
+    }
+
+    const codec = this.match(value);
+    if (codec) return this.wrap(codec, value);
+
+    if (Array.isArray(value)) return value.map((item) => this.encode(item));
+
+    const source =
+      typeof (value as { toJSON?: unknown }).toJSON === "function"
+        ? (value as { toJSON(): unknown }).toJSON()
+        : value;
+    if (source !== value) return this.encode(source);
+
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      result[key] = this.encode((value as Record<string, unknown>)[key]);
+    }
+    return TAG in result ? { [TAG]: ESCAPE_TAG, v: result } : result;
+  }
+
+  /**
+   * Rebuilds a value from data produced by {@link encode}
+   *
+   * @param data - Decoded JSON data
+   * @returns The original value
+   * @throws KVStoreCodecError when an envelope uses an unknown tag
+   */
+  decode(data: unknown): any {
+    if (data === null || typeof data !== "object") return data;
+    if (Array.isArray(data)) return data.map((item) => this.decode(item));
+
+    const record = data as Record<string, unknown>;
+    if (typeof record[TAG] === "string" && "v" in record) {
+      if (record[TAG] === ESCAPE_TAG) {
+        return this.decodeObject(record.v as Record<string, unknown>);
+      }
+
+      const tag = record[TAG] as string;
+      const codec = this.find(tag);
+      if (!codec) {
+        throw new KVStoreCodecError(`Unknown codec tag "${tag}"`, {
+          action: "decode",
+          tag,
+        });
+      }
+      return codec.decode(this.decode(record.v));
+    }
+    return this.decodeObject(record);
+  }
+
+  /** Decodes every property of a plain object */
+  private decodeObject(record: Record<string, unknown>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(record)) {
+      result[key] = this.decode(record[key]);
+    }
+    return result;
+  }
+
+  /** Builds the envelope for a value handled by a codec */
+  private wrap(codec: KVCodec, value: unknown): Record<string, any> {
+    return { [TAG]: codec.tag, v: this.encode(codec.encode(value)) };
+  }
+
+  /** Finds the first codec handling a value */
+  private match(value: unknown): KVCodec | undefined {
+    for (const codec of this.codecs) {
+      if (codec.test(value)) return codec;
+    }
+    return undefined;
+  }
+
+  /** Finds a codec by tag */
+  private find(tag: string): KVCodec | undefined {
+    for (const codec of this.codecs) {
+      if (codec.tag === tag) return codec;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,94 @@
+import { base64ToBytes, bytesToBase64 } from "./encoding";
+
+/** Property holding the format of a compressed envelope */
+const COMPRESSED_PROP = "$kvCompressed";
+
+/**
+ * Compression settings
+ */
+export interface CompressionOptions {
+  /** Compression format (default "gzip") */
+  format?: "gzip" | "deflate";
+  /** Values whose JSON is at least this many characters long are compressed (default 1024) */
+  threshold?: number;
+}
+
+/**
+ * Runs bytes through a compression or decompression stream
+ *
+ * @param bytes - Input bytes
+ * @param stream - The transform stream
+ * @returns Output bytes
+ */
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(bytes).then(() => writer.close());
+  const reader = stream.readable.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    length += value.length;
+  }
+  await writing;
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Compresses JSON data into an envelope when its JSON reaches the threshold
+ *
+ * @param data - Data to store
+ * @param options - Format and threshold
+ * @returns The envelope, or the data itself when it is below the threshold
+ */
+export async function compressValue(
+  data: any,
+  options: CompressionOptions,
+): Promise<any> {
+  const json = JSON.stringify(data);
+  if (json === undefined || json.length < (options.threshold ?? 1024)) {
+    return data;
+  }
+  const format = options.format ?? "gzip";
+  const compressed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream(format),
+  );
+  return { [COMPRESSED_PROP]: format, data: bytesToBase64(compressed) };
+}
+
+/**
+ * Restores data from a compressed envelope; other values are returned as
+ * they are
+ *
+ * @param stored - Data returned by the server
+ * @returns The decompressed data
+ */
+export async function decompressValue(stored: any): Promise<any> {
+  if (
+    stored === null ||
+    typeof stored !== "object" ||
+    (stored[COMPRESSED_PROP] !== "gzip" &&
+      stored[COMPRESSED_PROP] !== "deflate") ||
+    typeof stored.data !== "string"
+  ) {
+    return stored;
+  }
+  const json = await pipe(
+    base64ToBytes(stored.data).slice(),
+    new DecompressionStream(stored[COMPRESSED_PROP]),
+  );
+  return JSON.parse(new TextDecoder().decode(json));
+}
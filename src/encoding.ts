@@ -0,0 +1,56 @@
+/** Base64 alphabet (RFC 4648) */
+const ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Reverse lookup of {@link ALPHABET} */
+const LOOKUP: Record<string, number> = {};
+for (let i = 0; i < ALPHABET.length; i++) LOOKUP[ALPHABET[i]] = i;
+
+/**
+ * Encodes bytes as base64, without relying on `btoa` or `Buffer`
+ *
+ * @param bytes - Bytes to encode
+ * @returns Padded base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    result += ALPHABET[(triple >> 18) & 63] + ALPHABET[(triple >> 12) & 63];
+    result += i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 63] : "=";
+    result += i + 2 < bytes.length ? ALPHABET[triple & 63] : "=";
+  }
+  return result;
+}
+
+/**
+ * Decodes a base64 string into bytes
+ *
+ * @param base64 - Padded or unpadded base64 string
+ * @returns Decoded bytes
+ * @throws Error when the string contains characters outside the alphabet
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/=+$/, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < clean.length; i++) {
+    const value = LOOKUP[clean[i]];
+    if (value === undefined) throw new Error("Invalid base64 string");
+
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 255;
+    }
+  }
+  return bytes;
+}
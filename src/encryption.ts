@@ -0,0 +1,317 @@
+import { base64ToBytes, bytesToBase64 } from "./encoding";
+import { KVStoreEncryptionError } from "./errors";
+
+/** Property holding the key id of an encrypted envelope */
+const ENCRYPTED_PROP = "$kvEncrypted";
+
+/** Marker starting encrypted keys, followed by the key id and the ciphertext */
+const KEY_PREFIX = "$kve:";
+
+/** Length of AES-GCM initialization vectors, in bytes */
+const IV_LENGTH = 12;
+
+/**
+ * Encryption settings
+ *
+ * @example
+ * ```typescript
+ * const encryption: EncryptionOptions = {
+ *   keys: { '2024': process.env.KV_KEY_2024, '2025': process.env.KV_KEY_2025 },
+ *   primaryKeyId: '2025',
+ *   deterministicKeys: true,
+ * };
+ * ```
+ */
+export interface EncryptionOptions {
+  /**
+   * Keyring: secret key material by key id, as raw bytes or base64; at least
+   * 32 random bytes are recommended
+   */
+  keys: Record<string, Uint8Array | string>;
+  /** Id of the key encrypting new writes; the others only decrypt */
+  primaryKeyId: string;
+  /**
+   * Encrypt keys too, deterministically, so a key always maps to the same
+   * stored name and can still be looked up
+   */
+  deterministicKeys?: boolean;
+}
+
+/** AES and HMAC keys derived from the material of one key id */
+interface DerivedKeys {
+  /** Encrypts values, with random IVs */
+  value: CryptoKey;
+  /** Encrypts keys, with IVs derived from the key */
+  key: CryptoKey;
+  /** Derives the IVs of keys */
+  iv: CryptoKey;
+}
+
+/**
+ * Tells whether stored data is an encrypted envelope
+ *
+ * @param stored - Data returned by the server
+ * @returns True for envelopes written by {@link KVCipher}
+ */
+function isEnvelope(stored: any): boolean {
+  return (
+    stored !== null &&
+    typeof stored === "object" &&
+    typeof stored[ENCRYPTED_PROP] === "string" &&
+    typeof stored.iv === "string" &&
+    typeof stored.data === "string"
+  );
+}
+
+/**
+ * Encrypts values and keys with AES-GCM through WebCrypto
+ *
+ * Each key id gets its own AES-256 keys, derived from its material with
+ * HKDF. Values are encrypted with a random IV into an envelope naming the
+ * key id, so values written with older keys stay readable. Keys are
+ * encrypted with an IV computed from the key with HMAC-SHA-256, so the same
+ * key always gives the same stored name under a given key id.
+ */
+export class KVCipher {
+  /** Id of the key encrypting new writes */
+  readonly primaryKeyId: string;
+  /** Whether keys are encrypted too */
+  readonly encryptsKeys: boolean;
+  /**
+   * Whether the keyring holds keys besides the primary one, so encrypted
+   * keys may still be stored under names from before a rotation
+   */
+  readonly rotating: boolean;
+  /** Key material by key id */
+  private readonly material: Record<string, Uint8Array | string>;
+  /** Derived keys by key id, imported on first use */
+  private readonly derived = new Map<string, Promise<DerivedKeys>>();
+
+  /**
+   * Creates a cipher
+   *
+   * @param options - Keyring, primary key id and key mode
+   */
+  constructor(options: EncryptionOptions) {
+    this.primaryKeyId = options.primaryKeyId;
+    this.encryptsKeys = options.deterministicKeys ?? false;
+    this.material = options.keys;
+    this.rotating = Object.keys(options.keys).some(
+      (keyId) => keyId !== options.primaryKeyId,
+    );
+  }
+
+  /**
+   * Reads the key id of an encrypted value
+   *
+   * @param stored - Data returned by the server
+   * @returns The key id, null when the data is not encrypted
+   */
+  keyIdOf(stored: any): string | null {
+    return isEnvelope(stored) ? stored[ENCRYPTED_PROP] : null;
+  }
+
+  /**
+   * Encrypts JSON data with the primary key
+   *
+   * @param data - Data to encrypt
+   * @returns The encrypted envelope
+   */
+  async encryptValue(data: any): Promise<Record<string, any>> {
+    const keys = await this.keys(this.primaryKeyId, "encrypt");
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const plaintext = new TextEncoder().encode(JSON.stringify(data) ?? "null");
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      keys.value,
+      plaintext,
+    );
+    return {
+      [ENCRYPTED_PROP]: this.primaryKeyId,
+      iv: bytesToBase64(iv),
+      data: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Decrypts an envelope with the key it names; other values are returned
+   * as they are, so data written before encryption stays readable
+   *
+   * @param stored - Data returned by the server
+   * @returns The decrypted data
+   * @throws KVStoreEncryptionError when the key id is unknown or the data was altered
+   */
+  async decryptValue(stored: any): Promise<any> {
+    if (!isEnvelope(stored)) return stored;
+    const keyId: string = stored[ENCRYPTED_PROP];
+    const keys = await this.keys(keyId, "decrypt");
+    const plaintext = await this.decrypt(
+      keys.value,
+      keyId,
+      base64ToBytes(stored.iv).slice(),
+      base64ToBytes(stored.data).slice(),
+    );
+    return JSON.parse(plaintext);
+  }
+
+  /**
+   * Encrypts a key; the same key and key id always give the same result
+   *
+   * @param key - The key
+   * @param keyId - Key id to encrypt with (default: the primary key id)
+   * @returns The stored name of the key
+   */
+  async encryptKey(key: string, keyId = this.primaryKeyId): Promise<string> {
+    const keys = await this.keys(keyId, "encrypt");
+    const plaintext = new TextEncoder().encode(key);
+    const mac = await crypto.subtle.sign("HMAC", keys.iv, plaintext);
+    const iv = new Uint8Array(mac).slice(0, IV_LENGTH);
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt({ name: "AES-GCM", iv }, keys.key, plaintext),
+    );
+    const payload = new Uint8Array(IV_LENGTH + ciphertext.length);
+    payload.set(iv);
+    payload.set(ciphertext, IV_LENGTH);
+    return `${KEY_PREFIX}${keyId}:${bytesToBase64(payload)}`;
+  }
+
+  /**
+   * Lists the names a key may still be stored under from before a rotation:
+   * the key encrypted with each key id of the keyring but the primary one
+   *
+   * @param name - Stored name of the key under the primary key
+   * @returns Names under the other key ids, empty for a single-key keyring
+   */
+  async olderNames(name: string): Promise<string[]> {
+    const keyIds = Object.keys(this.material).filter(
+      (keyId) => keyId !== this.primaryKeyId,
+    );
+    if (keyIds.length === 0) return [];
+    const key = await this.decryptKey(name);
+    return await Promise.all(
+      keyIds.map((keyId) => this.encryptKey(key, keyId)),
+    );
+  }
+
+  /**
+   * Decrypts a stored key name; names that are not encrypted are returned
+   * as they are
+   *
+   * @param name - Key name returned by the server
+   * @returns The key
+   * @throws KVStoreEncryptionError when the key id is unknown or the name was altered
+   */
+  async decryptKey(name: string): Promise<string> {
+    if (name.indexOf(KEY_PREFIX) !== 0) return name;
+    const separator = name.indexOf(":", KEY_PREFIX.length);
+    const keyId = name.slice(KEY_PREFIX.length, separator);
+    const keys = await this.keys(keyId, "decrypt");
+    const payload = base64ToBytes(name.slice(separator + 1));
+    return await this.decrypt(
+      keys.key,
+      keyId,
+      payload.slice(0, IV_LENGTH),
+      payload.slice(IV_LENGTH),
+    );
+  }
+
+  /**
+   * Decrypts AES-GCM ciphertext into text
+   *
+   * @private
+   * @param key - AES key
+   * @param keyId - Id of the key, for error reporting
+   * @param iv - Initialization vector
+   * @param ciphertext - Ciphertext followed by its tag
+   * @returns The plaintext
+   * @throws KVStoreEncryptionError when authentication fails
+   */
+  private async decrypt(
+    key: CryptoKey,
+    keyId: string,
+    iv: Uint8Array<ArrayBuffer>,
+    ciphertext: Uint8Array<ArrayBuffer>,
+  ): Promise<string> {
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv },
+        key,
+        ciphertext,
+      );
+    } catch (error) {
+      throw new KVStoreEncryptionError(
+        `Cannot decrypt data encrypted with key "${keyId}"`,
+        { action: "decrypt", keyId, cause: error },
+      );
+    }
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * Derives the keys of a key id once
+   *
+   * @private
+   * @param keyId - The key id
+   * @param action - Operation needing the keys, for error reporting
+   * @returns The derived keys
+   * @throws KVStoreEncryptionError when the key id is not in the keyring
+   */
+  private keys(keyId: string, action: string): Promise<DerivedKeys> {
+    let derived = this.derived.get(keyId);
+    if (!derived) {
+      const material = this.material[keyId];
+      if (material === undefined) {
+        return Promise.reject(
+          new KVStoreEncryptionError(`Unknown encryption key "${keyId}"`, {
+            action,
+            keyId,
+          }),
+        );
+      }
+      derived = deriveKeys(
+        typeof material === "string" ? base64ToBytes(material) : material,
+      );
+      this.derived.set(keyId, derived);
+    }
+    return derived;
+  }
+}
+
+/**
+ * Derives the AES and HMAC keys of one key id with HKDF-SHA-256
+ *
+ * @param material - Secret key material
+ * @returns The derived keys
+ */
+async function deriveKeys(material: Uint8Array): Promise<DerivedKeys> {
+  const base = await crypto.subtle.importKey(
+    "raw",
+    material.slice(),
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  const derive = (
+    info: string,
+    algorithm: AesKeyGenParams | HmacKeyGenParams,
+  ) =>
+    crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(info),
+      },
+      base,
+      algorithm,
+      false,
+      algorithm.name === "HMAC" ? ["sign"] : ["encrypt", "decrypt"],
+    );
+  const [value, key, iv] = await Promise.all([
+    derive("kvstore:value", { name: "AES-GCM", length: 256 }),
+    derive("kvstore:key", { name: "AES-GCM", length: 256 }),
+    derive("kvstore:key-iv", { name: "HMAC", hash: "SHA-256", length: 256 }),
+  ]);
+  return { value, key, iv };
+}
@@ -0,0 +1,358 @@
+import type { KVValidationIssue } from "./validation";
+
+/**
+ * Details about the request that produced a {@link KVStoreError}
+ */
+export interface KVStoreErrorContext {
+  /** Action that was sent to the API */
+  action: string;
+  /** Database the request targeted */
+  dbName?: string;
+  /** Store the request targeted */
+  storeName?: string;
+  /** HTTP status code, when a response was received */
+  status?: number;
+  /** Raw response body returned by the server */
+  body?: unknown;
+  /** Delay in milliseconds requested by the server through `Retry-After` */
+  retryAfterMs?: number;
+  /** Underlying error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the client
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await store.get('missing');
+ * } catch (error) {
+ *   if (error instanceof KVStoreNotFoundError) {
+ *     console.log(`${error.action} failed with ${error.status}`);
+ *   }
+ * }
+ * ```
+ */
+export class KVStoreError extends Error {
+  /** Action that was sent to the API */
+  readonly action: string;
+  /** Database the request targeted */
+  readonly dbName?: string;
+  /** Store the request targeted */
+  readonly storeName?: string;
+  /** HTTP status code, when a response was received */
+  readonly status?: number;
+  /** Raw response body returned by the server */
+  readonly body?: unknown;
+  /** Delay in milliseconds requested by the server through `Retry-After` */
+  readonly retryAfterMs?: number;
+  /** Underlying error that caused this one */
+  readonly cause?: unknown;
+
+  /**
+   * Creates a new KVStoreError
+   *
+   * @param message - Human readable error message
+   * @param context - Details about the failed request
+   */
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message);
+    // Restore the prototype chain, which is lost when targeting ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "KVStoreError";
+    this.action = context.action;
+    this.dbName = context.dbName;
+    this.storeName = context.storeName;
+    this.status = context.status;
+    this.body = context.body;
+    this.retryAfterMs = context.retryAfterMs;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * Thrown when the server rejects the credentials (HTTP 401 or 403)
+ */
+export class KVStoreAuthError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreAuthError";
+  }
+}
+
+/**
+ * Thrown when the requested key, store or database does not exist (HTTP 404)
+ */
+export class KVStoreNotFoundError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreNotFoundError";
+  }
+}
+
+/**
+ * Thrown when the request conflicts with existing data (HTTP 409)
+ */
+export class KVStoreConflictError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreConflictError";
+  }
+}
+
+/**
+ * Thrown by `compareAndSet` when the stored version differs from the
+ * expected one
+ */
+export class KVStoreVersionConflictError extends KVStoreConflictError {
+  /** Key whose version did not match */
+  readonly key: string;
+  /** Version the caller expected, null for a missing key */
+  readonly expectedVersion: string | null;
+  /** Version found in the store, null when the key is missing or unversioned */
+  readonly actualVersion: string | null;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & {
+      key: string;
+      expectedVersion: string | null;
+      actualVersion: string | null;
+    },
+  ) {
+    super(message, context);
+    this.name = "KVStoreVersionConflictError";
+    this.key = context.key;
+    this.expectedVersion = context.expectedVersion;
+    this.actualVersion = context.actualVersion;
+  }
+}
+
+/**
+ * Thrown when the server is throttling the client (HTTP 429)
+ */
+export class KVStoreRateLimitError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreRateLimitError";
+  }
+}
+
+/**
+ * Thrown when no response could be obtained from the server
+ */
+export class KVStoreNetworkError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreNetworkError";
+  }
+}
+
+/**
+ * Thrown when an attempt takes longer than the configured timeout
+ */
+export class KVStoreTimeoutError extends KVStoreNetworkError {
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & { timeoutMs: number },
+  ) {
+    super(message, context);
+    this.name = "KVStoreTimeoutError";
+    this.timeoutMs = context.timeoutMs;
+  }
+}
+
+/**
+ * Thrown when the caller aborts a request through its `AbortSignal`
+ */
+export class KVStoreAbortError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreAbortError";
+  }
+}
+
+/**
+ * Thrown when a value is rejected by the validator registered for its key
+ */
+export class KVStoreValidationError extends KVStoreError {
+  /** Key whose value failed validation */
+  readonly key: string;
+  /** Problems reported by the validator */
+  readonly issues: KVValidationIssue[];
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & { key: string; issues: KVValidationIssue[] },
+  ) {
+    super(message, context);
+    this.name = "KVStoreValidationError";
+    this.key = context.key;
+    this.issues = context.issues;
+  }
+}
+
+/**
+ * Thrown when a value helper cannot be applied to the stored value: a JSON
+ * Patch operation failed, or the value is not a number for `increment` or
+ * not an array for `push`
+ */
+export class KVStorePatchError extends KVStoreError {
+  /** Key whose value could not be changed */
+  readonly key: string;
+  /** Index of the failed JSON Patch operation, when one failed */
+  readonly operation?: number;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & { key: string; operation?: number },
+  ) {
+    super(message, context);
+    this.name = "KVStorePatchError";
+    this.key = context.key;
+    this.operation = context.operation;
+  }
+}
+
+/**
+ * Thrown when a codec cannot be registered because its tag is taken, or
+ * when stored data names a codec tag that is not registered
+ */
+export class KVStoreCodecError extends KVStoreError {
+  /** The codec tag involved */
+  readonly tag: string;
+  /** Key whose value could not be decoded, when known */
+  readonly key?: string;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & { tag: string; key?: string },
+  ) {
+    super(message, context);
+    this.name = "KVStoreCodecError";
+    this.tag = context.tag;
+    this.key = context.key;
+  }
+}
+
+/**
+ * Thrown when a value or key cannot be encrypted or decrypted: its key id is
+ * not in the keyring, or the ciphertext was altered
+ */
+export class KVStoreEncryptionError extends KVStoreError {
+  /** Id of the encryption key involved, when known */
+  readonly keyId?: string;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & { keyId?: string },
+  ) {
+    super(message, context);
+    this.name = "KVStoreEncryptionError";
+    this.keyId = context.keyId;
+  }
+}
+
+/**
+ * Thrown when a transaction commit fails, after trying to restore the
+ * values the commit may have overwritten
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await store.transaction((tx) => { tx.set('a', 1); tx.delete('b'); });
+ * } catch (error) {
+ *   if (error instanceof KVStoreTransactionError && !error.rolledBack) {
+ *     console.error('Inconsistent keys:', error.unrestoredKeys);
+ *   }
+ * }
+ * ```
+ */
+export class KVStoreTransactionError extends KVStoreError {
+  /** Whether every key touched by the commit was restored */
+  readonly rolledBack: boolean;
+  /** Keys whose previous value could not be restored */
+  readonly unrestoredKeys: string[];
+  /** First error raised while restoring, when the rollback failed */
+  readonly rollbackError?: unknown;
+
+  constructor(
+    message: string,
+    context: KVStoreErrorContext & {
+      unrestoredKeys: string[];
+      rollbackError?: unknown;
+    },
+  ) {
+    super(message, context);
+    this.name = "KVStoreTransactionError";
+    this.rolledBack = context.unrestoredKeys.length === 0;
+    this.unrestoredKeys = context.unrestoredKeys;
+    this.rollbackError = context.rollbackError;
+  }
+}
+
+/**
+ * Thrown when the server fails to process the request (HTTP 5xx)
+ */
+export class KVStoreServerError extends KVStoreError {
+  constructor(message: string, context: KVStoreErrorContext) {
+    super(message, context);
+    this.name = "KVStoreServerError";
+  }
+}
+
+/**
+ * Creates the error matching the HTTP status of a failed response
+ *
+ * @param message - Error message, usually taken from the response body
+ * @param context - Details about the failed request, including its status
+ * @returns The most specific error class for the status
+ */
+export function createResponseError(
+  message: string,
+  context: KVStoreErrorContext,
+): KVStoreError {
+  const status = context.status;
+
+  if (status === 401 || status === 403) {
+    return new KVStoreAuthError(message, context);
+  }
+  if (status === 404) {
+    return new KVStoreNotFoundError(message, context);
+  }
+  if (status === 409) {
+    return new KVStoreConflictError(message, context);
+  }
+  if (status === 429) {
+    return new KVStoreRateLimitError(message, context);
+  }
+  if (status !== undefined && status >= 500) {
+    return new KVStoreServerError(message, context);
+  }
+  return new KVStoreError(message, context);
+}
+
+/**
+ * Parses a `Retry-After` header value into milliseconds
+ *
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined when the value is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
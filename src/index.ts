@@ -1,13 +1,372 @@
+import {
+  BACKUP_FORMAT,
+  type BackupEntry,
+  type BackupHeader,
+  type BackupReadable,
+  type BackupWritable,
+  type ExportOptions,
+  type ExportProgress,
+  type ImportOptions,
+  type ImportResult,
+  readLines,
+  writeRecord,
+} from "./backup";
+import { type BatchOptions, KVBatchLoader } from "./batch";
+import { type CacheOptions, KVCache, type KVCacheStats } from "./cache";
+import {
+  type ChunkingOptions,
+  chunkKeysOf,
+  isChunk,
+  isChunkKey,
+  isManifest,
+  joinChunks,
+  type KVChunkManifest,
+  splitValue,
+} from "./chunking";
+import { CODEC_VERSION, type KVCodec, KVValueCodec } from "./codec";
+import {
+  type CompressionOptions,
+  compressValue,
+  decompressValue,
+} from "./compression";
+import { type EncryptionOptions, KVCipher } from "./encryption";
+import {
+  createResponseError,
+  KVStoreAbortError,
+  KVStoreAuthError,
+  KVStoreCodecError,
+  KVStoreConflictError,
+  KVStoreError,
+  KVStoreNetworkError,
+  KVStoreNotFoundError,
+  KVStorePatchError,
+  KVStoreTimeoutError,
+  KVStoreTransactionError,
+  KVStoreValidationError,
+  KVStoreVersionConflictError,
+  parseRetryAfter,
+} from "./errors";
+import {
+  applyPostingChange,
+  diffIndexes,
+  findIndexes,
+  INDEX_KEY_PREFIX,
+  indexedValues,
+  indexKey,
+  isIndexKey,
+  type KVIndexDefinition,
+} from "./indexing";
+import { MemoryServer } from "./memory";
+import { KVNamespace } from "./namespace";
+import {
+  isOfflineError,
+  type KVQueueItem,
+  type KVReplayReport,
+  KVWriteQueue,
+  type OfflineOptions,
+} from "./offline";
+import {
+  applyValueOperation,
+  type JSONPatchOperation,
+  type KVValueOperation,
+} from "./patch";
+import { KVQuery, type KVQuerySpec } from "./query";
+import {
+  abortable,
+  getRetryDelay,
+  isRetryableAction,
+  isRetryableError,
+  type ResolvedRetryOptions,
+  type RetryOptions,
+  resolveRetryOptions,
+  sleep,
+} from "./retry";
+import {
+  createKeyFilter,
+  DEFAULT_PAGE_SIZE,
+  type IterateOptions,
+  type ScanOptions,
+  type ScanPage,
+  scanKeys,
+} from "./scan";
+import {
+  KVSession,
+  type KVTokenListener,
+  type KVTokenProvider,
+} from "./session";
+import { isDeepEqual } from "./sync";
+import { KVTransaction, type KVTransactionResult } from "./transaction";
+import {
+  composeMiddleware,
+  createFetchTransport,
+  type FetchLike,
+  type KVMiddleware,
+  type KVNext,
+  type KVRequestEnvelope,
+} from "./transport";
+import { isExpired, unwrapExpiry, wrapExpiry } from "./ttl";
+import {
+  findValidator,
+  runValidator,
+  type ValidationOptions,
+} from "./validation";
+import {
+  createVersion,
+  type KVVersioned,
+  type ModifyOptions,
+  unwrapVersion,
+  wrapVersion,
+} from "./version";
+
+export {
+  BACKUP_FORMAT,
+  type BackupEntry,
+  type BackupHeader,
+  type BackupReadable,
+  type BackupWritable,
+  type ExportOptions,
+  type ExportProgress,
+  type ImportMode,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportResult,
+} from "./backup";
+export { type BatchOptions, KVBatchLoader } from "./batch";
+export {
+  type CacheOptions,
+  KVCache,
+  type KVCacheEntry,
+  type KVCacheStats,
+  type KVCacheStorage,
+  LRUCacheStorage,
+} from "./cache";
+export type { ChunkingOptions, KVChunkManifest } from "./chunking";
+export {
+  BUILTIN_CODECS,
+  CODEC_VERSION,
+  type KVCodec,
+  KVValueCodec,
+} from "./codec";
+export type { CompressionOptions } from "./compression";
+export { type EncryptionOptions, KVCipher } from "./encryption";
+export * from "./errors";
+export type { KVIndexDefinition } from "./indexing";
+export { type MemoryProvisionOptions, MemoryServer } from "./memory";
+export { KVNamespace } from "./namespace";
+export {
+  FileQueueStorage,
+  type KVConflictResolution,
+  type KVQueueItem,
+  type KVQueueStorage,
+  type KVReplayReport,
+  MemoryQueueStorage,
+  type OfflineOptions,
+} from "./offline";
+export {
+  applyJsonPatch,
+  applyMergePatch,
+  type JSONPatchOperation,
+  type KVPatchResult,
+  type KVValueOperation,
+} from "./patch";
+export {
+  KVQuery,
+  type KVQueryCondition,
+  type KVQueryField,
+  type KVQueryOperator,
+  type KVQueryOrder,
+  type KVQueryResult,
+  type KVQueryRunner,
+  type KVQuerySpec,
+  runQuery,
+} from "./query";
+export { DEFAULT_RETRY_STATUSES, type RetryOptions } from "./retry";
+export {
+  globToRegExp,
+  type IterateOptions,
+  type ScanOptions,
+  type ScanPage,
+} from "./scan";
+export type {
+  KVTokenChangeEvent,
+  KVTokenChangeReason,
+  KVTokenListener,
+  KVTokenProvider,
+} from "./session";
+export {
+  type DiffOptions,
+  type DiffReport,
+  diff,
+  type SyncOptions,
+  type SyncReport,
+  sync,
+} from "./sync";
+export {
+  KVTransaction,
+  type KVTransactionOperation,
+  type KVTransactionResult,
+} from "./transaction";
+export type {
+  FetchLike,
+  FetchResponseLike,
+  KVMiddleware,
+  KVNext,
+  KVRequest,
+  KVRequestEnvelope,
+  KVResponse,
+} from "./transport";
+export type {
+  KVValidationIssue,
+  KVValidator,
+  ParseSchemaLike,
+  StandardSchemaLike,
+  StandardSchemaResult,
+  ValidationOptions,
+} from "./validation";
+export type { KVVersioned, ModifyOptions } from "./version";
+
+/** Actions authenticating with credentials rather than the access token */
+const PUBLIC_ACTIONS = ["register", "login"];
+
+/** Actions checking a password, whose 401 means a wrong password, not a stale token */
+const PASSWORD_ACTIONS = ["change-password", "delete-account"];
+
 /**
  * Configuration options for KVStore initialization
  */
 export interface KVStoreOptions {
-  /** Access token for API authentication */
-  accessToken: string;
+  /**
+   * Access token for API authentication, or a provider returning one; may be
+   * omitted when the token is obtained through `login`
+   */
+  accessToken?: string | KVTokenProvider;
+  /**
+   * Obtain a new token and replay the request once when the server answers
+   * 401, through the token provider or `generateToken` (default: true with a
+   * token provider, false with a static token)
+   */
+  refreshOnAuthError?: boolean;
   /** Name of the store to operate on */
   storeName: string;
   /** Name of the database to operate on */
   dbName: string;
+  /** Retry policy for transient failures; `true` enables the defaults */
+  retry?: RetryOptions | boolean;
+  /** Default timeout for each request attempt, in milliseconds */
+  timeoutMs?: number;
+  /** Custom fetch implementation; defaults to the global `fetch` */
+  fetch?: FetchLike;
+  /** Middleware applied to every request, outermost first */
+  middleware?: KVMiddleware[];
+  /** Runtime value validators by key prefix */
+  validation?: ValidationOptions;
+  /**
+   * Serialize Dates, BigInts, Maps, Sets and Uint8Arrays through tagged
+   * envelopes; `true` enables the built-in codecs, an array adds custom ones
+   */
+  codecs?: boolean | KVCodec[];
+  /**
+   * Store values in an envelope carrying a version, written anew on every
+   * write, for `getWithVersion`, `compareAndSet` and `modify`
+   */
+  versioning?: boolean;
+  /**
+   * Honor the time to live given to `set` and `setMany`: expired values read
+   * as missing, and `keys()` lists entries to skip them
+   */
+  ttl?: boolean;
+  /**
+   * Encrypt values, and optionally keys, with AES-GCM before they are sent;
+   * the server only sees ciphertext
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Compress large values with `CompressionStream`; `true` enables gzip
+   * above 1024 characters of JSON
+   */
+  compression?: CompressionOptions | boolean;
+  /**
+   * Split values too large for one request into chunk keys and a manifest;
+   * `true` enables the default maximum size. Overwrites and deletes first
+   * read the replaced values, one `getMany` per write, to delete their chunks
+   */
+  chunking?: ChunkingOptions | boolean;
+  /**
+   * Secondary indexes by name, kept in index keys updated on every write,
+   * for `findBy`
+   */
+  indexes?: Record<string, KVIndexDefinition>;
+  /** Read-through cache for `get` and `getMany`; `true` enables the defaults */
+  cache?: CacheOptions | boolean;
+  /** Merge concurrent `get` calls into `getMany` requests; `true` enables the defaults */
+  batch?: BatchOptions | boolean;
+  /** Optional actions implemented by the server, all assumed missing by default */
+  capabilities?: KVServerCapabilities;
+  /**
+   * Queue writes that fail because the server is unreachable and replay them
+   * later; `true` keeps the queue in memory
+   */
+  offline?: OfflineOptions | boolean;
+}
+
+/**
+ * Optional server actions the client may rely on; without them, the client
+ * emulates the feature with the standard actions
+ */
+export interface KVServerCapabilities {
+  /** The server pages through keys with the `scan` action */
+  scan?: boolean;
+  /**
+   * The server applies the `increment`, `push`, `mergePatch` and
+   * `applyPatch` actions to stored values atomically
+   */
+  patch?: boolean;
+  /** The server filters, sorts and projects entries with the `query` action */
+  query?: boolean;
+}
+
+/**
+ * Per-call options accepted by every KVStore method
+ */
+export interface RequestOptions {
+  /** Signal that cancels the call, including pending retries */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds, overriding `KVStoreOptions.timeoutMs` */
+  timeoutMs?: number;
+}
+
+/**
+ * Database and store a derived client operates on; omitted names are kept
+ */
+export interface KVStoreTarget {
+  /** Database name */
+  dbName?: string;
+  /** Store name */
+  storeName?: string;
+}
+
+/**
+ * Per-call options accepted by `login` and `generateToken`
+ */
+export interface TokenRequestOptions extends RequestOptions {
+  /** Use the returned token for the following requests (default false) */
+  adoptToken?: boolean;
+}
+
+/**
+ * Per-call options accepted by the cached read methods
+ */
+export interface ReadOptions extends RequestOptions {
+  /** Skip the cache lookup; the fetched value still refreshes the cache */
+  bypassCache?: boolean;
+}
+
+/**
+ * Per-call options accepted by `set` and `setMany`
+ */
+export interface WriteOptions extends RequestOptions {
+  /** Time to live in milliseconds; requires the `ttl` option */
+  ttlMs?: number;
 }
 
 /**
@@ -30,12 +389,55 @@ export interface LoginFormData {
 }
 
 /**
- * Key-value entry structure
+ * Maps key patterns to the type of the values stored under them; template
+ * literal index signatures describe whole key families
+ *
+ * @example
+ * ```typescript
+ * interface AppSchema {
+ *   [key: `user:${string}`]: User;
+ *   [key: `session:${string}`]: Session;
+ *   config: AppConfig;
+ * }
+ *
+ * const store = new KVStore<AppSchema>(apiUrl, options);
+ * const user = await store.get('user:123'); // User
+ * ```
  */
-export interface KVEntry {
-  key: string;
-  value: any;
-}
+export type KVSchema = Record<string, any>;
+
+/**
+ * Keys accepted by a schema
+ */
+export type KVKey<Schema extends object = KVSchema> = keyof Schema & string;
+
+/**
+ * Type of the value stored under a key of a schema
+ */
+export type KVValue<
+  Schema extends object = KVSchema,
+  K extends KVKey<Schema> = KVKey<Schema>,
+> = Schema[K];
+
+/**
+ * Key-value entry structure; with a schema, the value type follows the key
+ */
+export type KVEntry<Schema extends object = KVSchema> = {
+  [K in KVKey<Schema>]: { key: K; value: Schema[K] };
+}[KVKey<Schema>];
+
+/**
+ * Entry written by `setMany`, optionally with its own time to live
+ */
+export type KVWriteEntry<Schema extends object = KVSchema> = KVEntry<Schema> & {
+  /** Time to live in milliseconds, overriding `WriteOptions.ttlMs` */
+  ttlMs?: number;
+};
+
+/**
+ * Type of the items of an array value, accepted by `push`
+ */
+export type KVArrayItem<T> = T extends readonly (infer U)[] ? U : any;
 
 /**
  * API response structure for requests
@@ -47,6 +449,168 @@ export interface APIResponse<T = any> {
   [key: string]: any;
 }
 
+/**
+ * Operations shared by every KVStore implementation, to type application
+ * code against either the remote or the in-memory store
+ */
+export interface KVStoreClient<Schema extends object = KVSchema> {
+  register(
+    formData: RegisterFormData,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  login(
+    formData: LoginFormData,
+    options?: TokenRequestOptions,
+  ): Promise<APIResponse>;
+  generateToken(options?: TokenRequestOptions): Promise<APIResponse>;
+  getUserInfo(options?: RequestOptions): Promise<APIResponse>;
+  getDatabases(options?: RequestOptions): Promise<APIResponse>;
+  createDatabase(name: string, options?: RequestOptions): Promise<APIResponse>;
+  createStore(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  set<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: WriteOptions,
+  ): Promise<APIResponse>;
+  get<K extends KVKey<Schema>>(
+    key: K,
+    options?: ReadOptions,
+  ): Promise<Schema[K]>;
+  getStores(dbName?: string, options?: RequestOptions): Promise<string[]>;
+  setMany(
+    entries: KVWriteEntry<Schema>[],
+    options?: WriteOptions,
+  ): Promise<APIResponse>;
+  getMany<K extends KVKey<Schema>>(
+    keys: K[],
+    options?: ReadOptions,
+  ): Promise<(Schema[K] | null)[]>;
+  update<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  getWithVersion<K extends KVKey<Schema>>(
+    key: K,
+    options?: ReadOptions,
+  ): Promise<KVVersioned<Schema[K]>>;
+  compareAndSet<K extends KVKey<Schema>>(
+    key: K,
+    expectedVersion: string | null,
+    value: Schema[K],
+    options?: RequestOptions,
+  ): Promise<string>;
+  modify<K extends KVKey<Schema>>(
+    key: K,
+    fn: (current: Schema[K] | undefined) => Schema[K] | Promise<Schema[K]>,
+    options?: ModifyOptions,
+  ): Promise<KVVersioned<Schema[K]>>;
+  increment<K extends KVKey<Schema>>(
+    key: K,
+    by?: number,
+    options?: ModifyOptions,
+  ): Promise<number>;
+  push<K extends KVKey<Schema>>(
+    key: K,
+    ...items: KVArrayItem<Schema[K]>[]
+  ): Promise<Schema[K]>;
+  mergePatch<K extends KVKey<Schema>>(
+    key: K,
+    patch: any,
+    options?: ModifyOptions,
+  ): Promise<Schema[K]>;
+  applyPatch<K extends KVKey<Schema>>(
+    key: K,
+    operations: JSONPatchOperation[],
+    options?: ModifyOptions,
+  ): Promise<Schema[K]>;
+  delete(key: KVKey<Schema>, options?: RequestOptions): Promise<APIResponse>;
+  deleteMany(
+    keys: KVKey<Schema>[],
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  getPendingWrites(): Promise<KVQueueItem[]>;
+  flushQueue(): Promise<KVReplayReport>;
+  transaction<T>(
+    fn: (tx: KVTransaction<Schema>) => T | Promise<T>,
+    options?: RequestOptions,
+  ): Promise<KVTransactionResult<T>>;
+  entries(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<KVEntry<Schema>[]>;
+  keys(options?: RequestOptions): Promise<KVKey<Schema>[]>;
+  values(options?: RequestOptions): Promise<KVValue<Schema>[]>;
+  purgeExpired(options?: RequestOptions): Promise<number>;
+  findBy(
+    indexName: string,
+    value: unknown,
+    options?: ReadOptions,
+  ): Promise<KVEntry<Schema>[]>;
+  rebuildIndex(indexName?: string, options?: RequestOptions): Promise<number>;
+  query<T = KVValue<Schema>>(): KVQuery<Schema, T>;
+  reencrypt(options?: RequestOptions): Promise<number>;
+  scan(
+    query?: ScanOptions,
+    options?: RequestOptions,
+  ): Promise<ScanPage<KVKey<Schema>>>;
+  iterateKeys(
+    query?: IterateOptions,
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVKey<Schema>>;
+  iterateEntries(
+    query?: IterateOptions,
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVEntry<Schema>>;
+  exportStore(
+    writable: BackupWritable,
+    query?: ExportOptions,
+    options?: RequestOptions,
+  ): Promise<ExportProgress>;
+  importStore(
+    readable: BackupReadable,
+    query?: ImportOptions,
+    options?: RequestOptions,
+  ): Promise<ImportResult>;
+  clear(options?: RequestOptions): Promise<APIResponse>;
+  deleteStore(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  deleteDatabase(
+    dbName: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  changePassword(
+    currentPassword: string,
+    newPassword: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  deleteAccount(
+    password: string,
+    confirmation: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse>;
+  namespace<NamespaceSchema extends object = KVSchema>(
+    prefix: string,
+  ): KVNamespace<NamespaceSchema>;
+  withDatabase<TargetSchema extends object = Schema>(
+    dbName: string,
+  ): KVStoreClient<TargetSchema>;
+  withStore<TargetSchema extends object = Schema>(
+    storeName: string,
+  ): KVStoreClient<TargetSchema>;
+  withTarget<TargetSchema extends object = Schema>(
+    target: KVStoreTarget,
+  ): KVStoreClient<TargetSchema>;
+}
+
 /**
  * KVStore class for managing key-value operations with a remote API
  *
@@ -62,15 +626,57 @@ export interface APIResponse<T = any> {
  * const value = await store.get('key1');
  * ```
  */
-export class KVStore {
+export class KVStore<Schema extends object = KVSchema>
+  implements KVStoreClient<Schema>
+{
   /** API endpoint URL */
   private readonly apiUrl: string;
-  /** Access token for authentication */
-  private readonly accessToken: string;
+  /** Access token state, shared with derived views */
+  private readonly session: KVSession;
+  /** Whether a 401 response triggers a token refresh and a replay */
+  private readonly refreshOnAuthError: boolean;
   /** Store name for operations */
   private readonly storeName: string;
   /** Database name for operations */
   private readonly dbName: string;
+  /** Retry policy, undefined when retries are disabled */
+  private readonly retryPolicy?: ResolvedRetryOptions;
+  /** Default timeout per attempt, undefined for none */
+  private readonly timeoutMs?: number;
+  /** Registered middleware, outermost first */
+  private readonly middleware: KVMiddleware[];
+  /** Transport sending requests once the middleware ran */
+  private readonly transport: KVNext;
+  /** Middleware chain ending in the fetch transport */
+  private readonly handler: KVNext;
+  /** Value validators, undefined when validation is disabled */
+  private readonly validation?: ValidationOptions;
+  /** Value codec layer, undefined when values are sent as plain JSON */
+  private codec?: KVValueCodec;
+  /** Whether values are wrapped in versioned envelopes */
+  private readonly versioning: boolean;
+  /** Whether expiring envelopes are written and honored */
+  private readonly ttl: boolean;
+  /** Encryption of values and keys, undefined when disabled */
+  private readonly cipher?: KVCipher;
+  /** Compression settings, undefined when compression is disabled */
+  private readonly compression?: CompressionOptions;
+  /** Chunking settings with defaults applied, undefined when disabled */
+  private readonly chunking?: Required<ChunkingOptions>;
+  /** Cache keys of the keys seen holding a chunked value, undefined when chunking is disabled */
+  private readonly chunkedKeys?: Set<string>;
+  /** Secondary indexes by name, undefined when none is defined */
+  private readonly indexes?: Record<string, KVIndexDefinition>;
+  /** Read-through cache, undefined when caching is disabled */
+  private readonly cache?: KVCache;
+  /** Optional actions implemented by the server */
+  private readonly capabilities: KVServerCapabilities;
+  /** Batching settings, undefined when batching is disabled */
+  private readonly batchOptions?: BatchOptions;
+  /** Batcher merging `get` calls, undefined when batching is disabled */
+  private readonly batcher?: KVBatchLoader;
+  /** Queue of writes waiting for the server, undefined when offline mode is disabled */
+  private readonly queue?: KVWriteQueue;
 
   /**
    * Creates a new KVStore instance
@@ -80,310 +686,3523 @@ export class KVStore {
    */
   constructor(apiUrl: string, options: KVStoreOptions) {
     this.apiUrl = apiUrl;
-    this.accessToken = options.accessToken;
+    this.session = new KVSession(options.accessToken);
+    this.refreshOnAuthError =
+      options.refreshOnAuthError ?? this.session.hasProvider;
     this.storeName = options.storeName;
     this.dbName = options.dbName;
-  }
-
-  /**
-   * Makes an authenticated request to the API
-   *
-   * @private
-   * @param action - The action to perform
-   * @param params - Additional parameters for the request
-   * @returns Promise resolving to the API response
-   * @throws Error when the request fails
-   */
-  private async _request<T = any>(
-    action: string,
-    params: Record<string, any> = {},
-  ): Promise<T> {
-    const response = await fetch(this.apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.accessToken}`,
-      },
-      body: JSON.stringify({
-        action,
-        dbName: this.dbName,
-        storeName: this.storeName,
-        ...params,
-      }),
-    });
-
-    const data: APIResponse<T> = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || "Request failed");
+    this.retryPolicy = resolveRetryOptions(options.retry);
+    this.timeoutMs = options.timeoutMs;
+    this.middleware = options.middleware ? options.middleware.slice() : [];
+    this.validation = options.validation;
+    this.capabilities = options.capabilities ?? {};
+    this.versioning = options.versioning ?? false;
+    this.ttl = options.ttl ?? false;
+    if (options.encryption) {
+      this.cipher = new KVCipher(options.encryption);
+      // The server cannot filter encrypted keys by prefix or glob
+      if (this.cipher.encryptsKeys) {
+        this.capabilities = { ...this.capabilities, scan: false };
+      }
+    }
+    if (options.codecs) {
+      this.codec = new KVValueCodec(
+        Array.isArray(options.codecs) ? options.codecs : [],
+      );
+    }
+    if (options.compression) {
+      this.compression =
+        options.compression === true ? {} : options.compression;
+    }
+    if (options.chunking) {
+      const chunking = options.chunking === true ? {} : options.chunking;
+      this.chunking = {
+        maxValueSize: chunking.maxValueSize ?? 262144,
+        trackChunkedKeys: chunking.trackChunkedKeys ?? false,
+      };
+      this.chunkedKeys = new Set();
+    }
+    if (options.indexes && Object.keys(options.indexes).length > 0) {
+      this.indexes = options.indexes;
+    }
+    if (options.cache) {
+      this.cache = new KVCache(options.cache === true ? {} : options.cache);
+    }
+    if (options.batch) {
+      this.batchOptions = options.batch === true ? {} : options.batch;
+      this.batcher = this._createBatcher(this.batchOptions);
+    }
+    if (options.offline) {
+      this.queue = new KVWriteQueue(
+        options.offline === true ? {} : options.offline,
+      );
     }
 
-    return data as T;
+    const customFetch = options.fetch;
+    this.transport = createFetchTransport(() => customFetch ?? fetch);
+    this.handler = composeMiddleware(this.middleware, this.transport);
   }
 
   /**
-   * Registers a new user
+   * Returns a client for another database, keeping the same store name
    *
-   * @param formData - Registration form data containing user details
-   * @returns Promise resolving to registration response
+   * @param dbName - Database the client operates on
+   * @returns Client sharing this instance's transport, session and cache
    *
    * @example
    * ```typescript
-   * const result = await store.register({
-   *   username: 'john_doe',
-   *   email: 'john@example.com',
-   *   password: 'secure123'
-   * });
+   * const archive = store.withDatabase('archive');
+   * await archive.set('user:123', user);
    * ```
    */
-  async register(formData: RegisterFormData): Promise<APIResponse> {
-    return await this._request("register", formData);
+  withDatabase<TargetSchema extends object = Schema>(
+    dbName: string,
+  ): KVStore<TargetSchema> {
+    return this.withTarget<TargetSchema>({ dbName });
   }
 
   /**
-   * Logs in an existing user
+   * Returns a client for another store of the same database
    *
-   * @param formData - Login credentials
-   * @returns Promise resolving to login response
+   * @param storeName - Store the client operates on
+   * @returns Client sharing this instance's transport, session and cache
    */
-  async login(formData: LoginFormData): Promise<APIResponse> {
-    return await this._request("login", formData);
+  withStore<TargetSchema extends object = Schema>(
+    storeName: string,
+  ): KVStore<TargetSchema> {
+    return this.withTarget<TargetSchema>({ storeName });
   }
 
   /**
-   * Generates a new authentication token
+   * Returns a client for another database and store pair. The client is
+   * lightweight: it shares this instance's transport, session (so token
+   * changes apply to both), cache, validators and codecs, and starts with a
+   * copy of its middleware
    *
-   * @returns Promise resolving to token generation response
+   * @param target - Database and store to operate on; omitted names are kept
+   * @returns The derived client
    *
    * @example
    * ```typescript
-   * const result = await store.generateToken();
-   * console.log(result.token);
+   * const events = store.withTarget({ dbName: 'analytics', storeName: 'events' });
+   * await events.set('event:1', { type: 'signup' });
    * ```
    */
-  async generateToken(): Promise<APIResponse> {
-    return await this._request("generate-token");
+  withTarget<TargetSchema extends object = Schema>(
+    target: KVStoreTarget,
+  ): KVStore<TargetSchema> {
+    const derived: KVStore<TargetSchema> = Object.create(
+      Object.getPrototypeOf(this),
+    );
+    // Each client owns its pipeline, so `use` on one leaves the others alone
+    const middleware = this.middleware.slice();
+    Object.assign(derived, this, {
+      dbName: target.dbName ?? this.dbName,
+      storeName: target.storeName ?? this.storeName,
+      middleware,
+      handler: composeMiddleware(middleware, this.transport),
+    });
+    // Batches are sent to a single store, so each client needs its own batcher
+    if (this.batchOptions) {
+      Object.assign(derived, {
+        batcher: derived._createBatcher(this.batchOptions),
+      });
+    }
+    return derived;
   }
 
   /**
-   * Retrieves current user information
+   * Appends a middleware to the request pipeline
    *
-   * @returns Promise resolving to user info response
-   */
-  async getUserInfo(): Promise<APIResponse> {
-    return await this._request("get-user-info");
-  }
-
-  /**
-   * Gets list of available databases
+   * @param middleware - Middleware to run after those already registered
+   * @returns This instance, for chaining
    *
-   * @returns Promise resolving to databases list response
+   * @example
+   * ```typescript
+   * store.use(async (request, next) => {
+   *   request.headers['X-Tenant-Id'] = 'acme';
+   *   return await next(request);
+   * });
+   * ```
    */
-  async getDatabases(): Promise<APIResponse> {
-    return await this._request("get-databases");
+  use(middleware: KVMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
-   * Creates a new database
+   * Returns a view of the keys starting with a prefix; keys passed to and
+   * returned by the view are relative to the prefix
    *
-   * @param name - Name of the database to create
-   * @returns Promise resolving to creation response
-   */
-  async createDatabase(name: string): Promise<APIResponse> {
-    return await this._request("create-database", { name });
-  }
-
-  /**
-   * Creates a new store within a database
+   * @param prefix - Prefix of every key of the namespace
+   * @returns The namespace view
    *
-   * @param dbName - Database name
-   * @param storeName - Store name to create
-   * @returns Promise resolving to creation response
+   * @example
+   * ```typescript
+   * const users = store.namespace('user:');
+   * await users.set('123', { name: 'Alice' }); // stored as "user:123"
+   * await users.clear(); // deletes "user:*" keys only
+   * ```
    */
-  async createStore(dbName: string, storeName: string): Promise<APIResponse> {
-    return await this._request("create-store", { dbName, storeName });
+  namespace<NamespaceSchema extends object = KVSchema>(
+    prefix: string,
+  ): KVNamespace<NamespaceSchema> {
+    return new KVNamespace<NamespaceSchema>(this as KVStoreClient<any>, prefix);
   }
 
   /**
-   * Sets a key-value pair in the store
+   * Registers a custom value codec, enabling the codec layer if needed
    *
-   * @param key - The key to set
-   * @param value - The value to associate with the key
-   * @returns Promise resolving to set operation response
+   * @param codec - Codec for one of your own types
+   * @returns This instance, for chaining
    *
    * @example
    * ```typescript
-   * await store.set('user:123', { name: 'John', age: 30 });
+   * store.registerCodec({
+   *   tag: 'money',
+   *   test: (value) => value instanceof Money,
+   *   encode: (value) => [value.amount, value.currency],
+   *   decode: ([amount, currency]) => new Money(amount, currency),
+   * });
    * ```
    */
-  async set(key: string, value: any): Promise<APIResponse> {
-    return await this._request("set", { key, value });
+  registerCodec(codec: KVCodec): this {
+    if (!this.codec) this.codec = new KVValueCodec();
+    this.codec.register(codec);
+    return this;
   }
 
   /**
-   * Retrieves a value by its key
-   *
-   * @param key - The key to retrieve
-   * @returns Promise resolving to the stored value
+   * Returns the cache counters
    *
-   * @example
-   * ```typescript
-   * const user = await store.get('user:123');
-   * console.log(user.name);
-   * ```
+   * @returns Hits, misses, evictions and expirations, or undefined when
+   * caching is disabled
    */
-  async get(key: string): Promise<any> {
-    const result = await this._request<{ value: any }>("get", { key });
-    return result.value;
+  getCacheStats(): KVCacheStats | undefined {
+    return this.cache?.stats();
   }
 
   /**
-   * Gets list of stores in a database
+   * Lists the writes waiting in the offline queue
    *
-   * @param dbName - Database name to query
-   * @returns Promise resolving to array of store names
+   * @returns Queued writes, oldest first; empty when offline mode is disabled
    */
-  async getStores(dbName: string): Promise<string[]> {
-    const result = await this._request<{ stores: string[] }>("get-stores", {
-      dbName,
-    });
-    return result.stores;
+  async getPendingWrites(): Promise<KVQueueItem[]> {
+    return this.queue ? await this.queue.list() : [];
   }
 
   /**
-   * Sets multiple key-value pairs at once
+   * Replays the offline queue in order, stopping at the first write that
+   * fails because the server is still unreachable or temporarily failing
    *
-   * @param entries - Array of key-value entries to set
-   * @returns Promise resolving to batch set response
+   * @returns Counts of replayed, dropped and remaining writes
    *
    * @example
    * ```typescript
-   * await store.setMany([
-   *   { key: 'user:1', value: { name: 'Alice' } },
-   *   { key: 'user:2', value: { name: 'Bob' } }
-   * ]);
+   * window.addEventListener('online', () => store.flushQueue());
    * ```
    */
-  async setMany(entries: KVEntry[]): Promise<APIResponse> {
-    return await this._request("setMany", { entries });
+  async flushQueue(): Promise<KVReplayReport> {
+    if (!this.queue) return { replayed: 0, dropped: 0, remaining: 0 };
+    return await this._replayQueue(this.queue);
   }
 
   /**
-   * Retrieves multiple values by their keys
+   * Current access token, undefined until obtained from the provider
    *
-   * @param keys - Array of keys to retrieve
-   * @returns Promise resolving to array of corresponding values
-   *
-   * @example
-   * ```typescript
-   * const users = await store.getMany(['user:1', 'user:2']);
-   * ```
+   * @private
    */
-  async getMany(keys: string[]): Promise<any[]> {
-    const result = await this._request<{ values: any[] }>("getMany", { keys });
-    return result.values;
+  private get accessToken(): string | undefined {
+    return this.session.current;
   }
 
   /**
-   * Updates an existing key with a new value
+   * Returns the access token used for the next request
    *
-   * @param key - The key to update
-   * @param value - The new value
-   * @returns Promise resolving to update response
+   * @returns The token, or undefined when none is configured
+   * @throws KVStoreAuthError when the token provider fails
    */
-  async update(key: string, value: any): Promise<APIResponse> {
-    return await this._request("update", { key, value });
+  async getAccessToken(): Promise<string | undefined> {
+    return await this._token("get-access-token", {});
   }
 
   /**
-   * Deletes a key-value pair from the store
+   * Replaces the access token used for the following requests
    *
-   * @param key - The key to delete
-   * @returns Promise resolving to deletion response
+   * @param token - The new token
+   * @returns This instance, for chaining
    */
-  async delete(key: string): Promise<APIResponse> {
-    return await this._request("delete", { key });
+  setAccessToken(token: string | undefined): this {
+    this.session.setToken(token, "manual");
+    return this;
   }
 
   /**
-   * Deletes multiple keys at once
+   * Obtains a new access token through the token provider, or through
+   * `generateToken` with a static token
    *
-   * @param keys - Array of keys to delete
-   * @returns Promise resolving to batch deletion response
+   * @param options - Per-call signal and timeout
+   * @returns The new token
+   * @throws KVStoreAuthError when no new token could be obtained
    */
-  async deleteMany(keys: string[]): Promise<APIResponse> {
-    return await this._request("deleteMany", { keys });
+  async refreshToken(options?: RequestOptions): Promise<string> {
+    return await this._refreshToken(await this.getAccessToken(), options);
   }
 
   /**
-   * Retrieves all entries from a specific store
+   * Registers a listener called whenever the access token changes
    *
-   * @param dbName - Database name
-   * @param storeName - Store name
-   * @returns Promise resolving to array of all entries
+   * @param listener - Receives the new and previous tokens and the reason
+   * @returns Function removing the listener
+   *
+   * @example
+   * ```typescript
+   * store.onTokenChange(({ token }) => localStorage.setItem('token', token ?? ''));
+   * ```
    */
-  async entries(dbName: string, storeName: string): Promise<KVEntry[]> {
-    if (!dbName) dbName = this.dbName;
-    if (!storeName) storeName = this.storeName;
-
-    const result = await this._request<{ entries: KVEntry[] }>("entries", {
-      dbName,
-      storeName,
-    });
-    return result.entries;
+  onTokenChange(listener: KVTokenListener): () => void {
+    return this.session.onTokenChange(listener);
   }
 
   /**
-   * Retrieves all keys from the current store
+   * Makes a request to the API, encrypting the keys it names and decrypting
+   * the keys it returns when key encryption is enabled
    *
-   * @returns Promise resolving to array of all keys
+   * @private
+   * @param action - The action to perform
+   * @param params - Additional parameters for the request
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
    */
-  async keys(): Promise<string[]> {
-    const result = await this._request<{ keys: string[] }>("keys");
-    return result.keys;
+  private async _request<T = any>(
+    action: string,
+    params: Record<string, any> = {},
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const cipher = this.cipher;
+    if (!cipher?.encryptsKeys) {
+      return await this._transfer<T>(action, params, options);
+    }
+
+    const encrypted = await this._encryptParams(params);
+    const result = await this._transferStored<any>(action, encrypted, options);
+    if (Array.isArray(result.keys)) {
+      result.keys = await Promise.all(
+        result.keys.map((key: string) => cipher.decryptKey(key)),
+      );
+    }
+    if (Array.isArray(result.entries)) {
+      result.entries = await Promise.all(
+        result.entries.map(async (entry: KVEntry) => ({
+          ...entry,
+          key: await cipher.decryptKey(entry.key),
+        })),
+      );
+    }
+    return result;
   }
 
   /**
-   * Retrieves all values from the current store
+   * Encrypts the keys named by request parameters when key encryption is
+   * enabled
    *
-   * @returns Promise resolving to array of all values
+   * @private
+   * @param params - Request parameters
+   * @returns Parameters naming the stored keys
    */
-  async values(): Promise<any[]> {
-    const result = await this._request<{ values: any[] }>("values");
-    return result.values;
+  private async _encryptParams(
+    params: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    const cipher = this.cipher;
+    if (!cipher?.encryptsKeys) return params;
+
+    const encrypted = { ...params };
+    if (typeof params.key === "string") {
+      encrypted.key = await cipher.encryptKey(params.key);
+    }
+    if (Array.isArray(params.keys)) {
+      encrypted.keys = await this._storedKeys(params.keys);
+    }
+    if (Array.isArray(params.entries)) {
+      encrypted.entries = await Promise.all(
+        params.entries.map(async (entry: KVEntry) => ({
+          ...entry,
+          key: await cipher.encryptKey(entry.key),
+        })),
+      );
+    }
+    return encrypted;
   }
 
   /**
-   * Clears all data from the current store
+   * Sends a request naming stored keys; while the keyring holds older keys,
+   * keys may still be stored under the names those keys gave them, so reads
+   * fall back to these names and writes delete them, leaving a single
+   * stored name per key
    *
-   * @returns Promise resolving to clear operation response
-   * @warning This operation cannot be undone
+   * @private
+   * @param action - The action to perform
+   * @param params - Request parameters naming stored keys
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
    */
-  async clear(): Promise<APIResponse> {
-    return await this._request("clear");
+  private async _transferStored<T = any>(
+    action: string,
+    params: Record<string, any>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const cipher = this.cipher;
+    if (!cipher?.encryptsKeys || !cipher.rotating) {
+      return await this._transfer<T>(action, params, options);
+    }
+
+    // Replayed writes name their own database and store
+    const target: Record<string, any> = {};
+    if (params.dbName !== undefined) target.dbName = params.dbName;
+    if (params.storeName !== undefined) target.storeName = params.storeName;
+    const olderNames = async (names: string[]) =>
+      ([] as string[]).concat(
+        ...(await Promise.all(names.map((name) => cipher.olderNames(name)))),
+      );
+    const deleteOlderNames = async (names: string[]) =>
+      await this._transfer<{ count?: number }>(
+        "deleteMany",
+        { ...target, keys: await olderNames(names) },
+        options,
+      );
+
+    if (action === "get") {
+      try {
+        return await this._transfer<T>(action, params, options);
+      } catch (error) {
+        if (!(error instanceof KVStoreNotFoundError)) throw error;
+        for (const name of await cipher.olderNames(params.key)) {
+          try {
+            return await this._transfer<T>(
+              action,
+              { ...params, key: name },
+              options,
+            );
+          } catch (fallback) {
+            if (!(fallback instanceof KVStoreNotFoundError)) throw fallback;
+          }
+        }
+        throw error;
+      }
+    }
+
+    if (action === "getMany") {
+      const result = await this._transfer<any>(action, params, options);
+      const missing: number[] = [];
+      result.values.forEach((value: any, index: number) => {
+        if (value === null || value === undefined) missing.push(index);
+      });
+      if (missing.length === 0) return result;
+      const names = await Promise.all(
+        missing.map((index) => cipher.olderNames(params.keys[index])),
+      );
+      const previous = await this._transfer<{ values: any[] }>(
+        "getMany",
+        { ...target, keys: ([] as string[]).concat(...names) },
+        options,
+      );
+      let offset = 0;
+      missing.forEach((index, position) => {
+        const count = names[position].length;
+        for (const value of previous.values.slice(offset, offset + count)) {
+          if (value === null || value === undefined) continue;
+          result.values[index] = value;
+          break;
+        }
+        offset += count;
+      });
+      return result;
+    }
+
+    if (action === "delete") {
+      const removed = await deleteOlderNames([params.key]);
+      try {
+        return await this._transfer<T>(action, params, options);
+      } catch (error) {
+        // The key only existed under an older name
+        if (error instanceof KVStoreNotFoundError && (removed.count ?? 0) > 0) {
+          return { success: true } as T;
+        }
+        throw error;
+      }
+    }
+
+    if (action === "deleteMany") {
+      const keys = params.keys.concat(await olderNames(params.keys));
+      return await this._transfer<T>(action, { ...params, keys }, options);
+    }
+
+    if (action === "update") {
+      let result: T;
+      try {
+        result = await this._transfer<T>(action, params, options);
+      } catch (error) {
+        if (!(error instanceof KVStoreNotFoundError)) throw error;
+        // A key only stored under an older name is rewritten under its current one
+        const previous = await this._transfer<{ values: any[] }>(
+          "getMany",
+          { ...target, keys: await cipher.olderNames(params.key) },
+          options,
+        );
+        const exists = previous.values.some(
+          (value) => value !== null && value !== undefined,
+        );
+        if (!exists) throw error;
+        result = await this._transfer<T>("set", params, options);
+      }
+      await deleteOlderNames([params.key]);
+      return result;
+    }
+
+    if (action === "set" || action === "setMany") {
+      const result = await this._transfer<T>(action, params, options);
+      await deleteOlderNames(
+        action === "set"
+          ? [params.key]
+          : params.entries.map((entry: KVEntry) => entry.key),
+      );
+      return result;
+    }
+
+    return await this._transfer<T>(action, params, options);
   }
 
   /**
-   * Deletes a store from a database
+   * Gives the names keys are stored under on the server, encrypted when key
+   * encryption is enabled; the offline queue and the cache use these names
+   * so they never hold plaintext keys
    *
-   * @param dbName - Database name containing the store
-   * @param storeName - Name of store to delete
-   * @returns Promise resolving to deletion response
-   * @warning This operation cannot be undone
+   * @private
+   * @param keys - The keys
+   * @returns Stored names, in key order
    */
-  async deleteStore(dbName: string, storeName: string): Promise<APIResponse> {
-    return await this._request("delete-store", { dbName, storeName });
+  private async _storedKeys(keys: string[]): Promise<string[]> {
+    const cipher = this.cipher;
+    if (!cipher?.encryptsKeys) return keys;
+    return await Promise.all(keys.map((key) => cipher.encryptKey(key)));
   }
 
   /**
-   * Deletes an entire database
+   * Makes a request to the API, splitting large values into chunks on the
+   * way out and reassembling them on the way back when chunking is enabled
    *
-   * @param dbName - Name of database to delete
+   * Writes first read the values they replace, so the chunks of those
+   * values can be deleted once the write succeeded; with `trackChunkedKeys`,
+   * overwrites only read keys seen holding a chunked value.
+   *
+   * @private
+   * @param action - The action to perform
+   * @param params - Additional parameters for the request
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
+   */
+  private async _transfer<T = any>(
+    action: string,
+    params: Record<string, any>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const chunking = this.chunking;
+    const chunkedKeys = this.chunkedKeys;
+    if (!chunking || !chunkedKeys) {
+      return await this._authenticatedRequest<T>(action, params, options);
+    }
+    const { maxValueSize } = chunking;
+
+    // Replayed writes name their own database and store
+    const target: Record<string, any> = {};
+    if (params.dbName !== undefined) target.dbName = params.dbName;
+    if (params.storeName !== undefined) target.storeName = params.storeName;
+    const trackingKey = (key: string) =>
+      this._cacheKey(
+        target.dbName ?? this.dbName,
+        target.storeName ?? this.storeName,
+        key,
+      );
+
+    let replaced: string[] = [];
+    if (action === "set" || action === "update" || action === "delete") {
+      replaced = [params.key];
+    } else if (action === "setMany") {
+      replaced = params.entries.map((entry: KVEntry) => entry.key);
+    } else if (action === "deleteMany") {
+      replaced = params.keys;
+    }
+    // Deletions always read, so they remove every chunk
+    const deletes = action === "delete" || action === "deleteMany";
+    if (chunking.trackChunkedKeys && !deletes) {
+      replaced = replaced.filter((key) => chunkedKeys.has(trackingKey(key)));
+    }
+    let stale: string[] = [];
+    if (replaced.length > 0) {
+      const previous = await this._authenticatedRequest<{ values: any[] }>(
+        "getMany",
+        { ...target, keys: replaced },
+        options,
+      );
+      for (const value of previous.values) {
+        if (isManifest(value)) stale = stale.concat(chunkKeysOf(value));
+      }
+    }
+
+    const chunks: KVEntry[] = [];
+    const split = (value: any) => {
+      const result = splitValue(value, maxValueSize);
+      if (!result) return value;
+      chunks.push(...result.chunks);
+      return result.manifest;
+    };
+    let sent = params;
+    if (action === "set" || action === "update") {
+      sent = { ...params, value: split(params.value) };
+    } else if (action === "setMany") {
+      sent = {
+        ...params,
+        entries: params.entries.map((entry: KVEntry) => ({
+          ...entry,
+          value: split(entry.value),
+        })),
+      };
+    }
+
+    let result: any;
+    try {
+      // One chunk per request keeps every request within the size limit
+      for (const chunk of chunks) {
+        await this._authenticatedRequest(
+          "set",
+          { ...target, ...chunk },
+          options,
+        );
+      }
+      result = await this._authenticatedRequest<any>(action, sent, options);
+    } catch (error) {
+      if (chunks.length > 0) {
+        await this._authenticatedRequest(
+          "deleteMany",
+          { ...target, keys: chunks.map((chunk) => chunk.key) },
+          options,
+        ).then(undefined, () => {
+          // The chunks stay orphaned; the write error matters more
+        });
+      }
+      throw error;
+    }
+    if (stale.length > 0) {
+      await this._authenticatedRequest(
+        "deleteMany",
+        { ...target, keys: stale },
+        options,
+      );
+    }
+    this._trackChunkedKeys(action, sent, result, (key, value) => {
+      if (isManifest(value)) chunkedKeys.add(trackingKey(key));
+      else chunkedKeys.delete(trackingKey(key));
+    });
+    return await this._joinChunks(action, result, target, options);
+  }
+
+  /**
+   * Reports the stored value of each key a request wrote or read, so writes
+   * know which keys may hold a chunked value
+   *
+   * @private
+   * @param action - The action that was performed
+   * @param sent - Request parameters, with manifests in place of large values
+   * @param result - The API response, before chunks are joined
+   * @param note - Receives each key and its stored value, undefined once deleted
+   */
+  private _trackChunkedKeys(
+    action: string,
+    sent: Record<string, any>,
+    result: any,
+    note: (key: string, value: any) => void,
+  ): void {
+    if (action === "set" || action === "update" || action === "delete") {
+      note(sent.key, sent.value);
+    } else if (action === "setMany") {
+      for (const entry of sent.entries) note(entry.key, entry.value);
+    } else if (action === "deleteMany") {
+      for (const key of sent.keys) note(key, undefined);
+    } else if (action === "get") {
+      note(sent.key, result.value);
+    } else if (action === "getMany" && Array.isArray(result.values)) {
+      sent.keys.forEach((key: string, index: number) => {
+        note(key, result.values[index]);
+      });
+    }
+    if (Array.isArray(result.entries)) {
+      for (const entry of result.entries) note(entry.key, entry.value);
+    }
+  }
+
+  /**
+   * Hides chunks from a response and replaces the manifests it contains by
+   * the values they stand for
+   *
+   * @private
+   * @param action - The action that was performed
+   * @param result - The API response
+   * @param target - Database and store the request named, if any
+   * @param options - Per-call signal and timeout
+   * @returns The response with whole values; values whose chunks are
+   * missing read as null in `getMany` and are left out of listings
+   * @throws KVStoreNotFoundError when a chunk of the value read by `get` is missing
+   */
+  private async _joinChunks(
+    action: string,
+    result: any,
+    target: Record<string, any>,
+    options: RequestOptions,
+  ): Promise<any> {
+    if (Array.isArray(result.keys)) {
+      result.keys = result.keys.filter((key: string) => !isChunkKey(key));
+    }
+    if (Array.isArray(result.entries)) {
+      result.entries = result.entries.filter(
+        (entry: KVEntry) => !isChunkKey(entry.key),
+      );
+    }
+    if (action === "values" && Array.isArray(result.values)) {
+      result.values = result.values.filter((value: any) => !isChunk(value));
+    }
+
+    // Collect every manifest, so all chunks are read in one request
+    const slots: [any, string | number][] = [];
+    if (isManifest(result.value)) slots.push([result, "value"]);
+    if (Array.isArray(result.values)) {
+      result.values.forEach((value: any, index: number) => {
+        if (isManifest(value)) slots.push([result.values, index]);
+      });
+    }
+    if (Array.isArray(result.entries)) {
+      for (const entry of result.entries) {
+        if (isManifest(entry.value)) slots.push([entry, "value"]);
+      }
+    }
+    if (slots.length === 0) return result;
+
+    const manifests = slots.map(([holder, slot]) => holder[slot]);
+    let keys: string[] = [];
+    for (const manifest of manifests) keys = keys.concat(chunkKeysOf(manifest));
+    const chunks = await this._authenticatedRequest<{ values: any[] }>(
+      "getMany",
+      { ...target, keys },
+      options,
+    );
+    const broken: KVChunkManifest[] = [];
+    let offset = 0;
+    slots.forEach(([holder, slot], index) => {
+      const count = chunkKeysOf(manifests[index]).length;
+      const whole = joinChunks(chunks.values.slice(offset, offset + count));
+      if (whole === undefined) broken.push(manifests[index]);
+      else holder[slot] = whole;
+      offset += count;
+    });
+    if (broken.length === 0) return result;
+
+    // A value whose chunks are gone reads as missing
+    const isBroken = (value: any) => broken.indexOf(value) !== -1;
+    if (isBroken(result.value)) {
+      throw new KVStoreNotFoundError("Chunks of a value are missing", {
+        ...this._context(action, {}),
+        status: 404,
+      });
+    }
+    if (Array.isArray(result.values)) {
+      result.values =
+        action === "values"
+          ? result.values.filter((value: any) => !isBroken(value))
+          : result.values.map((value: any) => (isBroken(value) ? null : value));
+    }
+    if (Array.isArray(result.entries)) {
+      result.entries = result.entries.filter(
+        (entry: KVEntry) => !isBroken(entry.value),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Makes an authenticated request to the API, retrying transient failures
+   * of retryable actions according to the retry policy, and replaying it
+   * once with a fresh token after a 401 when token refresh is enabled
+   *
+   * @private
+   * @param action - The action to perform
+   * @param params - Additional parameters for the request
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
+   * @throws KVStoreNetworkError when no response is received
+   * @throws KVStoreTimeoutError when an attempt exceeds the timeout
+   * @throws KVStoreAbortError when the signal aborts the call
+   * @throws KVStoreError (or a subclass matching the status) when the request fails
+   */
+  private async _authenticatedRequest<T = any>(
+    action: string,
+    params: Record<string, any> = {},
+    options: RequestOptions = {},
+  ): Promise<T> {
+    if (
+      !this.refreshOnAuthError ||
+      PUBLIC_ACTIONS.indexOf(action) !== -1 ||
+      PASSWORD_ACTIONS.indexOf(action) !== -1
+    ) {
+      return await this._retry<T>(action, params, options);
+    }
+
+    const usedToken = this.accessToken ?? (await this._token(action, params));
+    try {
+      return await this._retry<T>(action, params, options);
+    } catch (error) {
+      if (!(error instanceof KVStoreAuthError) || error.status !== 401) {
+        throw error;
+      }
+    }
+    await this._refreshToken(usedToken, options);
+    return await this._retry<T>(action, params, options);
+  }
+
+  /**
+   * Sends a request, retrying transient failures of retryable actions
+   * according to the retry policy
+   *
+   * @private
+   * @param action - The action to perform
+   * @param params - Additional parameters for the request
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
+   */
+  private async _retry<T = any>(
+    action: string,
+    params: Record<string, any>,
+    options: RequestOptions,
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+    if (!policy || !isRetryableAction(action, policy)) {
+      return await this._send<T>(action, params, options);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this._send<T>(action, params, options);
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+          throw error;
+        }
+        try {
+          await sleep(getRetryDelay(attempt, policy, error), options.signal);
+        } catch (reason) {
+          throw new KVStoreAbortError("Request aborted", {
+            ...this._context(action, params),
+            cause: reason,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Sends a single request attempt to the API
+   *
+   * @private
+   * @param action - The action to perform
+   * @param params - Additional parameters for the request
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the API response
+   */
+  private async _send<T = any>(
+    action: string,
+    params: Record<string, any>,
+    options: RequestOptions,
+  ): Promise<T> {
+    const envelope: KVRequestEnvelope = {
+      action,
+      dbName: this.dbName,
+      storeName: this.storeName,
+      ...params,
+    };
+    const context = this._context(action, params);
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    // Static tokens are used synchronously, so the request starts right away
+    const token = this.accessToken ?? (await this._token(action, params));
+
+    if (signal?.aborted) {
+      throw new KVStoreAbortError("Request aborted", {
+        ...context,
+        cause: signal.reason,
+      });
+    }
+
+    // Only build a controller when needed, so plain calls stay signal-free
+    let controller: AbortController | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const onAbort = () => controller?.abort(signal?.reason);
+
+    if (signal || timeoutMs !== undefined) {
+      controller = new AbortController();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller?.abort();
+        }, timeoutMs);
+      }
+    }
+
+    try {
+      const response = await abortable(
+        this.handler({
+          url: this.apiUrl,
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token ?? ""}`,
+          },
+          envelope,
+          ...(controller && { signal: controller.signal }),
+        }),
+        controller?.signal,
+      );
+      const data: APIResponse<T> = response.body ?? {};
+
+      if (!response.ok) {
+        throw createResponseError(data.error || "Request failed", {
+          ...context,
+          status: response.status,
+          body: data,
+          retryAfterMs: parseRetryAfter(response.headers?.get("Retry-After")),
+        });
+      }
+
+      if (this.queue) this._resumeQueue();
+      return data as T;
+    } catch (error) {
+      if (timedOut) {
+        throw new KVStoreTimeoutError(
+          `Request timed out after ${timeoutMs}ms`,
+          { ...context, timeoutMs: timeoutMs as number, cause: error },
+        );
+      }
+      if (signal?.aborted) {
+        throw new KVStoreAbortError("Request aborted", {
+          ...context,
+          cause: signal.reason,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Returns the current access token, loading it from the provider if needed
+   *
+   * @private
+   * @param action - The action the token is needed for
+   * @param params - Request parameters, for error reporting
+   * @returns The token, or undefined when none is configured
+   * @throws KVStoreAuthError when the token provider fails
+   */
+  private async _token(
+    action: string,
+    params: Record<string, any>,
+  ): Promise<string | undefined> {
+    try {
+      return await this.session.getToken();
+    } catch (error) {
+      throw new KVStoreAuthError("Failed to obtain an access token", {
+        ...this._context(action, params),
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Replaces a rejected token through the provider or `generateToken`;
+   * concurrent callers share a single refresh
+   *
+   * @private
+   * @param staleToken - The token that was rejected
+   * @param options - Per-call signal and timeout
+   * @returns The new token
+   * @throws KVStoreAuthError when no new token could be obtained
+   */
+  private async _refreshToken(
+    staleToken: string | undefined,
+    options: RequestOptions = {},
+  ): Promise<string> {
+    const context = this._context("generate-token", {});
+    try {
+      return await this.session.refresh(staleToken, async () => {
+        const result = await this._retry<{ token?: unknown }>(
+          "generate-token",
+          {},
+          options,
+        );
+        if (typeof result.token !== "string") {
+          throw new KVStoreAuthError("Token refresh returned no token", {
+            ...context,
+            body: result,
+          });
+        }
+        return result.token;
+      });
+    } catch (error) {
+      if (error instanceof KVStoreError) throw error;
+      throw new KVStoreAuthError("Failed to refresh the access token", {
+        ...context,
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Switches to the token returned by `login` or `generateToken` when asked to
+   *
+   * @private
+   * @param result - Response carrying the token
+   * @param options - Per-call options of the token request
+   */
+  private _adoptToken(result: APIResponse, options: TokenRequestOptions): void {
+    if (options.adoptToken && typeof result.token === "string") {
+      this.session.setToken(result.token, "login");
+    }
+  }
+
+  /**
+   * Validates a value against the validator registered for its key
+   *
+   * @private
+   * @param action - The action the value is used for
+   * @param key - The key of the value
+   * @param value - The value to validate
+   * @param params - Request parameters, for error reporting
+   * @returns The value produced by the validator
+   * @throws KVStoreValidationError when the value is invalid
+   */
+  private async _validate(
+    action: string,
+    key: string,
+    value: any,
+    params: Record<string, any> = {},
+  ): Promise<any> {
+    const validators = this.validation?.validators;
+    const validator = validators && findValidator(validators, key);
+    if (!validator) return value;
+
+    const result = await runValidator(validator, value);
+    if (!result.valid) {
+      throw new KVStoreValidationError(
+        `Invalid value for key "${key}": ${result.issues.map((issue) => issue.message).join("; ")}`,
+        { ...this._context(action, params), key, issues: result.issues },
+      );
+    }
+    return result.value;
+  }
+
+  /**
+   * Validates a value read from the store, when read validation is enabled
+   *
+   * @private
+   * @param action - The action that returned the value
+   * @param key - The key of the value
+   * @param value - The value returned by the server
+   * @param params - Request parameters, for error reporting
+   * @returns The value produced by the validator
+   */
+  private async _validateRead(
+    action: string,
+    key: string,
+    value: any,
+    params: Record<string, any> = {},
+  ): Promise<any> {
+    if (!this.validation?.validateOnRead) return value;
+    return await this._validate(action, key, value, params);
+  }
+
+  /**
+   * Ensures versioned envelopes are enabled
+   *
+   * @private
+   * @param action - Method requiring versioning, for error reporting
+   * @throws KVStoreError when the `versioning` option is off
+   */
+  private _requireVersioning(action: string): void {
+    if (!this.versioning) {
+      throw new KVStoreError(
+        "Versioning is not enabled; set the versioning option",
+        this._context(action, {}),
+      );
+    }
+  }
+
+  /**
+   * Reads the version of a stored value
+   *
+   * @private
+   * @param stored - Value returned by the server
+   * @returns The version, null for an unversioned value
+   */
+  private _versionOf(stored: any): string | null {
+    return unwrapVersion(this.ttl ? unwrapExpiry(stored).data : stored).version;
+  }
+
+  /**
+   * Computes the expiry time of a write
+   *
+   * @private
+   * @param action - The write action, for error reporting
+   * @param ttlMs - Time to live in milliseconds, undefined for none
+   * @returns The expiry time, undefined when the value never expires
+   * @throws KVStoreError when a time to live is given without the `ttl` option
+   */
+  private _expiresAt(action: string, ttlMs?: number): number | undefined {
+    if (ttlMs === undefined) return undefined;
+    if (!this.ttl) {
+      throw new KVStoreError(
+        "TTL is not enabled; set the ttl option",
+        this._context(action, {}),
+      );
+    }
+    return Date.now() + ttlMs;
+  }
+
+  /**
+   * Converts a value into the representation sent to the server
+   *
+   * @private
+   * @param _key - The key the value is stored under
+   * @param value - The application value
+   * @param meta - Version to write with versioning enabled (new by default)
+   *   and expiry time
+   * @returns The value to send
+   */
+  private async _encodeValue(
+    _key: string,
+    value: any,
+    meta: { version?: string; expiresAt?: number } = {},
+  ): Promise<any> {
+    let data = this.codec ? this.codec.encode(value) : value;
+    if (this.compression) {
+      data = await compressValue(data, this.compression);
+    }
+    if (this.cipher) data = await this.cipher.encryptValue(data);
+    if (this.versioning)
+      data = wrapVersion(data, meta.version ?? createVersion());
+    return meta.expiresAt !== undefined
+      ? wrapExpiry(data, meta.expiresAt)
+      : data;
+  }
+
+  /**
+   * Converts a value returned by the server back into the application value
+   *
+   * @private
+   * @param key - The key the value is stored under, when known
+   * @param value - The value returned by the server
+   * @returns The application value
+   * @throws KVStoreCodecError when the value names a codec tag that is not registered
+   */
+  private async _decodeValue(
+    key: string | undefined,
+    value: any,
+  ): Promise<any> {
+    let data = this.ttl ? unwrapExpiry(value).data : value;
+    if (this.versioning) data = unwrapVersion(data).data;
+    if (this.cipher) data = await this.cipher.decryptValue(data);
+    if (this.compression) data = await decompressValue(data);
+    if (!this.codec) return data;
+    try {
+      return this.codec.decode(data);
+    } catch (error) {
+      if (!(error instanceof KVStoreCodecError)) throw error;
+      throw new KVStoreCodecError(error.message, {
+        ...this._context("decode", {}),
+        tag: error.tag,
+        key,
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Tells whether values are stored as written by the application, so the
+   * server can read and change them
+   *
+   * @private
+   * @returns False when values are encoded, wrapped or split on the client
+   */
+  private _storesPlainValues(): boolean {
+    return (
+      !this.codec &&
+      !this.cipher &&
+      !this.compression &&
+      !this.chunking &&
+      !this.versioning &&
+      !this.ttl
+    );
+  }
+
+  /**
+   * Builds the cache key of a stored key, or the prefix shared by a whole
+   * store or database when the trailing parts are omitted
+   *
+   * @private
+   * @param dbName - Database name
+   * @param storeName - Store name
+   * @param key - The stored key
+   * @returns Cache key or prefix, unique per API URL
+   */
+  private _cacheKey(dbName: string, storeName?: string, key?: string): string {
+    const parts = [this.apiUrl, dbName];
+    if (storeName !== undefined) parts.push(storeName);
+    if (key !== undefined) parts.push(key);
+    // NUL cannot appear in URLs and is unlikely in names, so prefixes never overlap
+    return `${parts.join("\u0000")}\u0000`;
+  }
+
+  /**
+   * Creates the batcher sending merged `get` calls as `getMany` requests
+   *
+   * @private
+   * @param options - Window and batch size settings
+   * @returns The batcher
+   */
+  private _createBatcher(options: BatchOptions): KVBatchLoader {
+    return new KVBatchLoader(
+      async (keys) =>
+        (await this._request<{ values: any[] }>("getMany", { keys })).values,
+      options,
+    );
+  }
+
+  /**
+   * Fetches the wire value of a key, treating expired values as missing
+   *
+   * @private
+   * @param key - The key to read
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns The value as returned by the server
+   * @throws KVStoreNotFoundError when the key is missing or expired
+   */
+  private async _fetchValue(key: string, options: ReadOptions): Promise<any> {
+    const value = await this._fetchStoredValue(key, options);
+    if (this.ttl && isExpired(value)) {
+      throw new KVStoreNotFoundError("Key not found", {
+        ...this._context("get", {}),
+        status: 404,
+      });
+    }
+    return value;
+  }
+
+  /**
+   * Fetches the wire value of a key, going through the offline queue and
+   * the cache when enabled
+   *
+   * @private
+   * @param key - The key to read
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns The value as returned by the server
+   */
+  private async _fetchStoredValue(
+    key: string,
+    options: ReadOptions,
+  ): Promise<any> {
+    const queue = this.queue;
+    const cache = this.cache;
+    // Only await with a queue or a cache, so plain reads start their request right away
+    const [name] = queue || cache ? await this._storedKeys([key]) : [key];
+    const pending = queue
+      ? await queue.lookup(this.dbName, this.storeName, name)
+      : undefined;
+    if (pending?.deleted) {
+      throw new KVStoreNotFoundError("Key not found", {
+        ...this._context("get", {}),
+        status: 404,
+      });
+    }
+    if (pending) return pending.value;
+
+    const cacheKey = this._cacheKey(this.dbName, this.storeName, name);
+    if (cache && !options.bypassCache) {
+      const hit = await cache.get(cacheKey);
+      if (hit) return hit.value;
+    }
+
+    let value: any;
+    try {
+      value = await this._loadValue(key, options);
+    } catch (error) {
+      if (cache && error instanceof KVStoreNotFoundError) {
+        await cache.delete(cacheKey);
+      }
+      throw error;
+    }
+    await cache?.set(cacheKey, value);
+    return value;
+  }
+
+  /**
+   * Requests the wire value of a key, through the batcher when enabled;
+   * calls with their own timeout are sent on their own, and so are keys the
+   * batch reports as null, which may be missing or hold null
+   *
+   * @private
+   * @param key - The key to read
+   * @param options - Per-call signal and timeout
+   * @returns The value as returned by the server
+   * @throws KVStoreNotFoundError when the key does not exist
+   */
+  private async _loadValue(key: string, options: RequestOptions): Promise<any> {
+    const batcher = this.batcher;
+    const load = async () => {
+      const result = await this._request<{ value: any }>(
+        "get",
+        { key },
+        options,
+      );
+      return result.value;
+    };
+    if (!batcher || options.timeoutMs !== undefined) return await load();
+
+    let value: any;
+    try {
+      value = await abortable(batcher.load(key), options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new KVStoreAbortError("Request aborted", {
+          ...this._context("get", {}),
+          cause: options.signal.reason,
+        });
+      }
+      throw error;
+    }
+    // getMany reports missing keys as null, where get answers 404
+    return value === null || value === undefined ? await load() : value;
+  }
+
+  /**
+   * Fetches the wire values of several keys, treating expired values as
+   * missing
+   *
+   * @private
+   * @param keys - The keys to read
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Values in key order, null for missing and expired keys
+   */
+  private async _fetchValues(
+    keys: string[],
+    options: ReadOptions,
+  ): Promise<any[]> {
+    const values = await this._fetchStoredValues(keys, options);
+    if (!this.ttl) return values;
+    const now = Date.now();
+    return values.map((value) => (isExpired(value, now) ? null : value));
+  }
+
+  /**
+   * Fetches the wire values of several keys, answering keys with queued
+   * writes from the offline queue
+   *
+   * @private
+   * @param keys - The keys to read
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Values in key order, null for missing keys
+   */
+  private async _fetchStoredValues(
+    keys: string[],
+    options: ReadOptions,
+  ): Promise<any[]> {
+    const queue = this.queue;
+    if (!queue) return await this._fetchCachedValues(keys, options);
+
+    const names = await this._storedKeys(keys);
+    const pending = await Promise.all(
+      names.map((name) => queue.lookup(this.dbName, this.storeName, name)),
+    );
+    const stored = keys.filter((_key, index) => !pending[index]);
+    const values =
+      stored.length > 0 ? await this._fetchCachedValues(stored, options) : [];
+    let next = 0;
+    return pending.map((entry) => {
+      if (!entry) return values[next++];
+      return entry.deleted ? null : entry.value;
+    });
+  }
+
+  /**
+   * Fetches the wire values of several keys, requesting only those missing
+   * from the cache
+   *
+   * @private
+   * @param keys - The keys to read
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Values in key order, null for missing keys
+   */
+  private async _fetchCachedValues(
+    keys: string[],
+    options: ReadOptions,
+  ): Promise<any[]> {
+    const cache = this.cache;
+    if (!cache) {
+      const result = await this._request<{ values: any[] }>(
+        "getMany",
+        { keys },
+        options,
+      );
+      return result.values;
+    }
+
+    const cacheKeys = (await this._storedKeys(keys)).map((name) =>
+      this._cacheKey(this.dbName, this.storeName, name),
+    );
+    const values: any[] = new Array(keys.length);
+    const missing: number[] = [];
+    for (let i = 0; i < keys.length; i++) {
+      const hit = options.bypassCache
+        ? undefined
+        : await cache.get(cacheKeys[i]);
+      if (hit) values[i] = hit.value;
+      else missing.push(i);
+    }
+    if (missing.length === 0) return values;
+
+    const result = await this._request<{ values: any[] }>(
+      "getMany",
+      { keys: missing.map((index) => keys[index]) },
+      options,
+    );
+    await Promise.all(
+      missing.map(async (index, position) => {
+        const value = result.values[position];
+        values[index] = value;
+        if (value === null || value === undefined) {
+          await cache.delete(cacheKeys[index]);
+        } else {
+          await cache.set(cacheKeys[index], value);
+        }
+      }),
+    );
+    return values;
+  }
+
+  /**
+   * Sends a write and mirrors it into the cache: written values are cached
+   * on success, and keys are invalidated when the outcome is unknown
+   *
+   * @private
+   * @param action - The write action
+   * @param params - Request parameters
+   * @param entries - Keys written and their wire values, undefined for deletions
+   * @param options - Per-call signal and timeout
+   * @param queueable - Whether the write may wait in the offline queue;
+   * otherwise it fails while the server cannot be reached
+   * @returns Promise resolving to the API response
+   * @throws KVStoreNetworkError when a write that may not be queued has to wait
+   */
+  private async _write(
+    action: string,
+    params: Record<string, any>,
+    entries: { key: string; value?: any }[],
+    options?: RequestOptions,
+    queueable = true,
+  ): Promise<APIResponse> {
+    for (const entry of entries) this.batcher?.forget(entry.key);
+    const queue = this.queue;
+    // Writes wait behind queued ones so they reach the server in order; a
+    // replay is tried first, so stores that only write recover too
+    if (queue && (await queue.size()) > 0) {
+      try {
+        await this._replayQueue(queue);
+      } catch {
+        // Failures stay queued and are reported by the next flushQueue()
+      }
+      if ((await queue.size()) > 0) {
+        if (!queueable) {
+          throw new KVStoreNetworkError(
+            "Queued writes must reach the server first",
+            this._context(action, params),
+          );
+        }
+        return await this._enqueueWrite(queue, action, params, entries);
+      }
+    }
+
+    return await this._sendWrite(
+      () => this._request(action, params, options),
+      entries,
+      options,
+      queue && queueable
+        ? () => this._enqueueWrite(queue, action, params, entries)
+        : undefined,
+    );
+  }
+
+  /**
+   * Sends a write and keeps the cache and the indexes up to date; fresh and
+   * replayed writes both go through it
+   *
+   * @private
+   * @param send - Sends the write
+   * @param entries - Keys written and their wire values, undefined for deletions
+   * @param options - Per-call signal and timeout
+   * @param onOffline - Handles a write that could not reach the server
+   * @returns Promise resolving to the API response
+   */
+  private async _sendWrite(
+    send: () => Promise<APIResponse>,
+    entries: { key: string; value?: any }[],
+    options?: RequestOptions,
+    onOffline?: () => Promise<APIResponse>,
+  ): Promise<APIResponse> {
+    const cache = this.cache;
+    const cacheKeys = async () =>
+      (await this._storedKeys(entries.map((entry) => entry.key))).map((name) =>
+        this._cacheKey(this.dbName, this.storeName, name),
+      );
+    const indexes = this.indexes;
+    const indexed = indexes ? this._indexedKeys(indexes, entries) : [];
+    let replaced: any[] = [];
+    let response: APIResponse;
+    try {
+      // The values being replaced tell which index entries to remove
+      if (indexed.length > 0) {
+        const result = await this._request<{ values: any[] }>(
+          "getMany",
+          { keys: indexed },
+          options,
+        );
+        replaced = result.values;
+      }
+      response = await send();
+    } catch (error) {
+      if (cache) {
+        await Promise.all((await cacheKeys()).map((key) => cache.delete(key)));
+      }
+      if (onOffline && isOfflineError(error)) return await onOffline();
+      throw error;
+    }
+    if (cache) {
+      const keys = await cacheKeys();
+      await Promise.all(
+        entries.map((entry, index) => cache.set(keys[index], entry.value)),
+      );
+    }
+    if (indexes && indexed.length > 0) {
+      await this._updateIndexes(indexes, indexed, replaced, entries, options);
+    }
+    return response;
+  }
+
+  /**
+   * Lists the distinct written keys covered by an index
+   *
+   * @private
+   * @param indexes - Index definitions by name
+   * @param entries - Keys written
+   * @returns Indexed keys, in write order
+   */
+  private _indexedKeys(
+    indexes: Record<string, KVIndexDefinition>,
+    entries: { key: string }[],
+  ): string[] {
+    const keys: string[] = [];
+    for (const { key } of entries) {
+      if (keys.indexOf(key) < 0 && findIndexes(indexes, key).length > 0) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Removes index keys from a listing of entries
+   *
+   * @private
+   * @param entries - Entries returned by the server
+   * @returns The entries holding application values
+   */
+  private _hideIndexKeys<E extends { key: string }>(entries: E[]): E[] {
+    return this.indexes
+      ? entries.filter((entry) => !isIndexKey(entry.key))
+      : entries;
+  }
+
+  /**
+   * Updates the index keys after a write. Wire values are decoded, so every
+   * write path, including imported backups, is indexed the same way
+   *
+   * @private
+   * @param indexes - Index definitions by name
+   * @param keys - Indexed keys that were written
+   * @param replaced - Wire values the write replaced, null for missing keys
+   * @param entries - Keys written and their wire values, undefined for deletions
+   * @param options - Per-call signal and timeout
+   */
+  private async _updateIndexes(
+    indexes: Record<string, KVIndexDefinition>,
+    keys: string[],
+    replaced: any[],
+    entries: { key: string; value?: any }[],
+    options?: RequestOptions,
+  ): Promise<void> {
+    const changes = await Promise.all(
+      keys.map(async (key, index) => {
+        // With several writes to a key, the last one is kept
+        let written: { key: string; value?: any } | undefined;
+        for (const entry of entries) if (entry.key === key) written = entry;
+        const before = replaced[index];
+        const after = written?.value;
+        return {
+          key,
+          before:
+            before === null || before === undefined
+              ? undefined
+              : await this._decodeValue(key, before),
+          after:
+            after === undefined
+              ? undefined
+              : await this._decodeValue(key, after),
+        };
+      }),
+    );
+    const postings = diffIndexes(indexes, changes);
+    if (postings.length === 0) return;
+
+    const names = postings.map((posting) => posting.key);
+    const result = await this._request<{ values: any[] }>(
+      "getMany",
+      { keys: names },
+      options,
+    );
+    const writes: KVEntry[] = [];
+    const emptied: string[] = [];
+    for (let i = 0; i < names.length; i++) {
+      const stored = result.values[i];
+      const current: string[] =
+        stored === null || stored === undefined
+          ? []
+          : await this._decodeValue(names[i], stored);
+      const next = applyPostingChange(current, postings[i]);
+      if (next.length > 0) {
+        writes.push({
+          key: names[i],
+          value: await this._encodeValue(names[i], next),
+        });
+      } else if (current.length > 0) {
+        emptied.push(names[i]);
+      }
+    }
+    if (writes.length > 0) {
+      await this._request("setMany", { entries: writes }, options);
+    }
+    if (emptied.length > 0) {
+      await this._request("deleteMany", { keys: emptied }, options);
+    }
+  }
+
+  /**
+   * Puts a write in the offline queue; reads see it until it is replayed
+   *
+   * @private
+   * @param queue - The offline queue
+   * @param action - The write action
+   * @param params - Request parameters
+   * @param entries - Keys written and their wire values, undefined for deletions
+   * @returns Response reporting the write as queued
+   */
+  private async _enqueueWrite(
+    queue: KVWriteQueue,
+    action: string,
+    params: Record<string, any>,
+    entries: { key: string; value?: any }[],
+  ): Promise<APIResponse> {
+    // Keys are queued under their stored names, so the queue storage never
+    // holds plaintext keys
+    const names = await this._storedKeys(entries.map((entry) => entry.key));
+    await queue.enqueue(
+      action,
+      {
+        dbName: this.dbName,
+        storeName: this.storeName,
+        ...(await this._encryptParams(params)),
+      },
+      entries.map((entry, index) => ({ ...entry, key: names[index] })),
+    );
+    const cache = this.cache;
+    if (cache) {
+      await Promise.all(
+        names.map((name) =>
+          cache.delete(this._cacheKey(this.dbName, this.storeName, name)),
+        ),
+      );
+    }
+    return { success: true, queued: true };
+  }
+
+  /**
+   * Starts replaying the offline queue in the background, once a request
+   * shows the server is reachable again
+   *
+   * @private
+   */
+  private _resumeQueue(): void {
+    if (!this.queue) return;
+    this._replayQueue(this.queue).then(undefined, () => {
+      // Failures stay queued and are reported by the next flushQueue()
+    });
+  }
+
+  /**
+   * Replays the offline queue; a replayed deletion of a key that is already
+   * gone succeeds, since an earlier attempt may have reached the server
+   *
+   * @private
+   * @param queue - The offline queue
+   * @returns Counts of replayed, dropped and remaining writes
+   */
+  private _replayQueue(queue: KVWriteQueue): Promise<KVReplayReport> {
+    return queue.replay(async (item) => {
+      const { dbName, storeName } = item.params;
+      // Derived clients share the queue, so items may target another store
+      const client =
+        dbName === this.dbName && storeName === this.storeName
+          ? this
+          : this.withTarget({ dbName, storeName });
+      return await client._replayWrite(item);
+    });
+  }
+
+  /**
+   * Sends a queued write, keeping the cache and the indexes up to date
+   *
+   * @private
+   * @param item - The queued write, naming the stored keys
+   * @returns Promise resolving to the API response
+   */
+  private async _replayWrite(item: KVQueueItem): Promise<APIResponse> {
+    const cipher = this.cipher;
+    const entries = await Promise.all(
+      item.entries.map(async (entry) => ({
+        ...entry,
+        key: cipher?.encryptsKeys
+          ? await cipher.decryptKey(entry.key)
+          : entry.key,
+      })),
+    );
+    return await this._sendWrite(async () => {
+      try {
+        return await this._transferStored(item.action, item.params, {});
+      } catch (error) {
+        if (item.action === "delete" && error instanceof KVStoreNotFoundError) {
+          return { success: true };
+        }
+        throw error;
+      }
+    }, entries);
+  }
+
+  /**
+   * Reads the queued writes of a store, so listings see pending values and
+   * deletions like `get` does. They are read before the listing, so a write
+   * replayed meanwhile shows up in one or the other
+   *
+   * @private
+   * @param dbName - Database listed
+   * @param storeName - Store listed
+   * @returns Latest queued wire value by key, undefined for deletions, or
+   * null when nothing is queued for the store
+   */
+  private async _pendingWrites(
+    dbName: string,
+    storeName: string,
+  ): Promise<Map<string, any> | null> {
+    const queue = this.queue;
+    if (!queue) return null;
+    const pending = await queue.pending(dbName, storeName);
+    if (pending.length === 0) return null;
+    const cipher = this.cipher;
+    const latest = new Map<string, any>();
+    for (const entry of pending) {
+      const key = cipher?.encryptsKeys
+        ? await cipher.decryptKey(entry.key)
+        : entry.key;
+      latest.set(key, entry.value);
+    }
+    return latest;
+  }
+
+  /**
+   * Applies queued writes to a listing
+   *
+   * @private
+   * @param entries - Entries returned by the server, with wire values
+   * @param pending - Queued writes from {@link _pendingWrites}
+   * @returns Entries with queued values, without queued deletions, and with
+   * queued keys the server does not have yet appended
+   */
+  private _withPendingWrites<T extends { key: string; value?: any }>(
+    entries: T[],
+    pending: Map<string, any> | null,
+  ): T[] {
+    if (!pending) return entries;
+    const merged: T[] = [];
+    const listed = new Set<string>();
+    for (const entry of entries) {
+      listed.add(entry.key);
+      if (!pending.has(entry.key)) merged.push(entry);
+      else if (pending.get(entry.key) !== undefined) {
+        merged.push({ ...entry, value: pending.get(entry.key) });
+      }
+    }
+    pending.forEach((value, key) => {
+      if (!listed.has(key) && value !== undefined) {
+        merged.push({ key, value } as T);
+      }
+    });
+    return merged;
+  }
+
+  /**
+   * Builds the error context for a request
+   *
+   * @private
+   * @param action - The action being performed
+   * @param params - Additional parameters for the request
+   * @returns Action and target names for error reporting
+   */
+  private _context(action: string, params: Record<string, any>) {
+    return {
+      action,
+      dbName: params.dbName ?? this.dbName,
+      storeName: params.storeName ?? this.storeName,
+    };
+  }
+
+  /**
+   * Registers a new user
+   *
+   * @param formData - Registration form data containing user details
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to registration response
+   *
+   * @example
+   * ```typescript
+   * const result = await store.register({
+   *   username: 'john_doe',
+   *   email: 'john@example.com',
+   *   password: 'secure123'
+   * });
+   * ```
+   */
+  async register(
+    formData: RegisterFormData,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this._request("register", formData, options);
+  }
+
+  /**
+   * Logs in an existing user
+   *
+   * @param formData - Login credentials
+   * @param options - Per-call signal, timeout and whether to adopt the token
+   * @returns Promise resolving to login response
+   *
+   * @example
+   * ```typescript
+   * await store.login({ username: 'john_doe', password: 'secure123' }, { adoptToken: true });
+   * await store.get('user:123'); // authenticated with the returned token
+   * ```
+   */
+  async login(
+    formData: LoginFormData,
+    options: TokenRequestOptions = {},
+  ): Promise<APIResponse> {
+    const result = await this._request("login", formData, options);
+    this._adoptToken(result, options);
+    return result;
+  }
+
+  /**
+   * Generates a new authentication token
+   *
+   * @param options - Per-call signal, timeout and whether to adopt the token
+   * @returns Promise resolving to token generation response
+   *
+   * @example
+   * ```typescript
+   * const result = await store.generateToken();
+   * console.log(result.token);
+   * ```
+   */
+  async generateToken(options: TokenRequestOptions = {}): Promise<APIResponse> {
+    const result = await this._request("generate-token", {}, options);
+    this._adoptToken(result, options);
+    return result;
+  }
+
+  /**
+   * Retrieves current user information
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to user info response
+   */
+  async getUserInfo(options?: RequestOptions): Promise<APIResponse> {
+    return await this._request("get-user-info", {}, options);
+  }
+
+  /**
+   * Gets list of available databases
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to databases list response
+   */
+  async getDatabases(options?: RequestOptions): Promise<APIResponse> {
+    return await this._request("get-databases", {}, options);
+  }
+
+  /**
+   * Creates a new database
+   *
+   * @param name - Name of the database to create
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to creation response
+   */
+  async createDatabase(
+    name: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this._request("create-database", { name }, options);
+  }
+
+  /**
+   * Creates a new store within a database
+   *
+   * @param dbName - Database name (defaults to the client's database)
+   * @param storeName - Store name to create (defaults to the client's store)
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to creation response
+   */
+  async createStore(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this._request(
+      "create-store",
+      { dbName: dbName || this.dbName, storeName: storeName || this.storeName },
+      options,
+    );
+  }
+
+  /**
+   * Sets a key-value pair in the store
+   *
+   * @param key - The key to set
+   * @param value - The value to associate with the key
+   * @param options - Per-call signal, timeout and time to live
+   * @returns Promise resolving to set operation response
+   *
+   * @example
+   * ```typescript
+   * await store.set('user:123', { name: 'John', age: 30 });
+   * await store.set('session:abc', session, { ttlMs: 30 * 60 * 1000 });
+   * ```
+   */
+  async set<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: WriteOptions,
+  ): Promise<APIResponse> {
+    const expiresAt = this._expiresAt("set", options?.ttlMs);
+    const valid = await this._validate("set", key, value);
+    const encoded = await this._encodeValue(key, valid, { expiresAt });
+    return await this._write(
+      "set",
+      { key, value: encoded },
+      [{ key, value: encoded }],
+      options,
+    );
+  }
+
+  /**
+   * Retrieves a value by its key
+   *
+   * @param key - The key to retrieve
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to the stored value
+   *
+   * @example
+   * ```typescript
+   * const user = await store.get('user:123', { timeoutMs: 1000 });
+   * console.log(user.name);
+   * ```
+   */
+  async get<K extends KVKey<Schema>>(
+    key: K,
+    options: ReadOptions = {},
+  ): Promise<Schema[K]> {
+    const raw = await this._fetchValue(key, options);
+    const value = await this._decodeValue(key, raw);
+    return await this._validateRead("get", key, value);
+  }
+
+  /**
+   * Gets list of stores in a database
+   *
+   * @param dbName - Database name to query (defaults to the client's database)
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to array of store names
+   */
+  async getStores(
+    dbName?: string,
+    options?: RequestOptions,
+  ): Promise<string[]> {
+    const result = await this._request<{ stores: string[] }>(
+      "get-stores",
+      { dbName: dbName || this.dbName },
+      options,
+    );
+    return result.stores;
+  }
+
+  /**
+   * Sets multiple key-value pairs at once
+   *
+   * @param entries - Array of key-value entries to set, each with an optional time to live
+   * @param options - Per-call signal, timeout and default time to live
+   * @returns Promise resolving to batch set response
+   *
+   * @example
+   * ```typescript
+   * await store.setMany([
+   *   { key: 'user:1', value: { name: 'Alice' } },
+   *   { key: 'user:2', value: { name: 'Bob' } }
+   * ]);
+   * ```
+   */
+  async setMany(
+    entries: KVWriteEntry<Schema>[],
+    options?: WriteOptions,
+  ): Promise<APIResponse> {
+    const encoded = await Promise.all(
+      entries.map(async (entry) => {
+        const expiresAt = this._expiresAt(
+          "setMany",
+          entry.ttlMs ?? options?.ttlMs,
+        );
+        const valid = await this._validate("setMany", entry.key, entry.value);
+        return {
+          key: entry.key,
+          value: await this._encodeValue(entry.key, valid, { expiresAt }),
+        };
+      }),
+    );
+    return await this._write("setMany", { entries: encoded }, encoded, options);
+  }
+
+  /**
+   * Retrieves multiple values by their keys
+   *
+   * @param keys - Array of keys to retrieve
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to array of corresponding values
+   *
+   * @example
+   * ```typescript
+   * const users = await store.getMany(['user:1', 'user:2']);
+   * ```
+   */
+  async getMany<K extends KVKey<Schema>>(
+    keys: K[],
+    options: ReadOptions = {},
+  ): Promise<(Schema[K] | null)[]> {
+    const values = await this._fetchValues(keys, options);
+    return await Promise.all(
+      values.map(async (value, index) => {
+        if (value === null || value === undefined) return value;
+        const decoded = await this._decodeValue(keys[index], value);
+        return await this._validateRead("getMany", keys[index], decoded);
+      }),
+    );
+  }
+
+  /**
+   * Updates an existing key with a new value
+   *
+   * @param key - The key to update
+   * @param value - The new value
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to update response
+   */
+  async update<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    const valid = await this._validate("update", key, value);
+    const encoded = await this._encodeValue(key, valid);
+    return await this._write(
+      "update",
+      { key, value: encoded },
+      [{ key, value: encoded }],
+      options,
+    );
+  }
+
+  /**
+   * Retrieves a value along with its version
+   *
+   * @param key - The key to retrieve
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to the value and its version, null for a
+   * value written before versioning was enabled
+   * @throws KVStoreError when versioning is not enabled
+   *
+   * @example
+   * ```typescript
+   * const { value, version } = await store.getWithVersion('counter');
+   * await store.compareAndSet('counter', version, value + 1);
+   * ```
+   */
+  async getWithVersion<K extends KVKey<Schema>>(
+    key: K,
+    options: ReadOptions = {},
+  ): Promise<KVVersioned<Schema[K]>> {
+    this._requireVersioning("getWithVersion");
+    const raw = await this._fetchValue(key, options);
+    const value = await this._decodeValue(key, raw);
+    return {
+      value: await this._validateRead("getWithVersion", key, value),
+      version: this._versionOf(raw),
+    };
+  }
+
+  /**
+   * Writes a value only if the stored version is the expected one. The
+   * version is checked with `get` and the value written with `update`, or
+   * `set` for a missing key; a write landing between both requests is not
+   * detected
+   *
+   * @param key - The key to write
+   * @param expectedVersion - Version read earlier, null for a missing or unversioned key
+   * @param value - The new value
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the version of the new value
+   * @throws KVStoreVersionConflictError when the stored version differs
+   * @throws KVStoreNetworkError when the server cannot be reached or queued
+   * writes are waiting; the write is never queued
+   * @throws KVStoreError when versioning is not enabled
+   */
+  async compareAndSet<K extends KVKey<Schema>>(
+    key: K,
+    expectedVersion: string | null,
+    value: Schema[K],
+    options?: RequestOptions,
+  ): Promise<string> {
+    this._requireVersioning("compareAndSet");
+    const valid = await this._validate("compareAndSet", key, value);
+
+    let actualVersion: string | null = null;
+    let exists = true;
+    try {
+      const raw = await this._fetchValue(key, {
+        ...options,
+        bypassCache: true,
+      });
+      actualVersion = this._versionOf(raw);
+    } catch (error) {
+      if (!(error instanceof KVStoreNotFoundError)) throw error;
+      exists = false;
+    }
+    const conflict = () =>
+      new KVStoreVersionConflictError(
+        `Version conflict on key "${key}": expected ${expectedVersion ?? "none"}, found ${actualVersion ?? "none"}`,
+        {
+          ...this._context("compareAndSet", {}),
+          status: 409,
+          key,
+          expectedVersion,
+          actualVersion,
+        },
+      );
+    if (actualVersion !== expectedVersion) throw conflict();
+
+    const version = createVersion();
+    const encoded = await this._encodeValue(key, valid, { version });
+    try {
+      // A queued write would report a version the server never checked
+      await this._write(
+        exists ? "update" : "set",
+        { key, value: encoded },
+        [{ key, value: encoded }],
+        options,
+        false,
+      );
+    } catch (error) {
+      // The key was deleted since its version was read
+      if (error instanceof KVStoreNotFoundError) throw conflict();
+      throw error;
+    }
+    return version;
+  }
+
+  /**
+   * Applies a function to the current value and writes the result with
+   * `compareAndSet`, starting over when another writer got there first
+   *
+   * @param key - The key to modify
+   * @param fn - Computes the new value from the current one, undefined when missing
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the written value and its version
+   * @throws KVStoreVersionConflictError when every attempt conflicted
+   * @throws KVStoreError when versioning is not enabled
+   *
+   * @example
+   * ```typescript
+   * await store.modify('stats', (stats) => ({ views: (stats?.views ?? 0) + 1 }), {
+   *   retries: 5
+   * });
+   * ```
+   */
+  async modify<K extends KVKey<Schema>>(
+    key: K,
+    fn: (current: Schema[K] | undefined) => Schema[K] | Promise<Schema[K]>,
+    options: ModifyOptions = {},
+  ): Promise<KVVersioned<Schema[K]>> {
+    this._requireVersioning("modify");
+    const retries = Math.max(0, options.retries ?? 3);
+
+    for (let attempt = 0; ; attempt++) {
+      let current: KVVersioned<Schema[K] | undefined>;
+      try {
+        current = await this.getWithVersion(key, {
+          ...options,
+          bypassCache: true,
+        });
+      } catch (error) {
+        if (!(error instanceof KVStoreNotFoundError)) throw error;
+        current = { value: undefined, version: null };
+      }
+
+      const value = await fn(current.value);
+      try {
+        const version = await this.compareAndSet(
+          key,
+          current.version,
+          value,
+          options,
+        );
+        return { value, version };
+      } catch (error) {
+        const conflicted = error instanceof KVStoreVersionConflictError;
+        if (!conflicted || attempt >= retries) throw error;
+      }
+    }
+  }
+
+  /**
+   * Adds a number to a numeric value; a missing key starts at 0
+   *
+   * @param key - The key of the counter
+   * @param by - Amount to add, negative to decrement (default 1)
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the new value
+   * @throws KVStorePatchError when the stored value is not a number
+   *
+   * @example
+   * ```typescript
+   * const views = await store.increment('views:home');
+   * ```
+   */
+  async increment<K extends KVKey<Schema>>(
+    key: K,
+    by = 1,
+    options: ModifyOptions = {},
+  ): Promise<number> {
+    return await this._applyOperation(
+      key,
+      { action: "increment", by },
+      options,
+    );
+  }
+
+  /**
+   * Appends items to an array value; a missing key starts as an empty array
+   *
+   * @param key - The key of the array
+   * @param items - Items to append
+   * @returns Promise resolving to the new array
+   * @throws KVStorePatchError when the stored value is not an array
+   *
+   * @example
+   * ```typescript
+   * await store.push('log:today', { at: Date.now(), event: 'login' });
+   * ```
+   */
+  async push<K extends KVKey<Schema>>(
+    key: K,
+    ...items: KVArrayItem<Schema[K]>[]
+  ): Promise<Schema[K]> {
+    return await this._applyOperation(key, { action: "push", items }, {});
+  }
+
+  /**
+   * Applies a JSON Merge Patch (RFC 7396) to a value: objects are merged
+   * recursively and null members are removed
+   *
+   * @param key - The key to patch, created when missing
+   * @param patch - The merge patch
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the patched value
+   *
+   * @example
+   * ```typescript
+   * await store.mergePatch('user:1', { address: { city: 'Paris' }, nickname: null });
+   * ```
+   */
+  async mergePatch<K extends KVKey<Schema>>(
+    key: K,
+    patch: any,
+    options: ModifyOptions = {},
+  ): Promise<Schema[K]> {
+    return await this._applyOperation(
+      key,
+      { action: "mergePatch", patch },
+      options,
+    );
+  }
+
+  /**
+   * Applies a JSON Patch (RFC 6902) to a value; nothing is written when one
+   * of the operations fails
+   *
+   * @param key - The key to patch
+   * @param operations - Operations applied in order
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the patched value
+   * @throws KVStoreNotFoundError when the key does not exist
+   * @throws KVStorePatchError when an operation fails, including `test`
+   *
+   * @example
+   * ```typescript
+   * await store.applyPatch('user:1', [
+   *   { op: 'test', path: '/version', value: 3 },
+   *   { op: 'replace', path: '/version', value: 4 },
+   *   { op: 'add', path: '/tags/-', value: 'admin' }
+   * ]);
+   * ```
+   */
+  async applyPatch<K extends KVKey<Schema>>(
+    key: K,
+    operations: JSONPatchOperation[],
+    options: ModifyOptions = {},
+  ): Promise<Schema[K]> {
+    return await this._applyOperation(
+      key,
+      { action: "applyPatch", operations },
+      options,
+    );
+  }
+
+  /**
+   * Applies a value operation with the matching server action when the
+   * server supports it and values are stored as plain JSON, and otherwise
+   * reads, changes and writes the value on the client
+   *
+   * @private
+   * @param key - The key to change
+   * @param operation - The operation
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the new value
+   */
+  private async _applyOperation(
+    key: string,
+    operation: KVValueOperation,
+    options: ModifyOptions,
+  ): Promise<any> {
+    const validators = this.validation?.validators;
+    const plain =
+      this.capabilities.patch &&
+      this._storesPlainValues() &&
+      !(validators && findValidator(validators, key)) &&
+      !(this.indexes && findIndexes(this.indexes, key).length > 0);
+    // Queued writes must reach the server first, so they go through the queue too
+    const queued = this.queue ? (await this.queue.size()) > 0 : false;
+    if (!plain || queued) {
+      return await this._readModifyWrite(key, operation, options);
+    }
+
+    const { action, ...params } = operation;
+    const cacheKey = this._cacheKey(this.dbName, this.storeName, key);
+    this.batcher?.forget(key);
+    try {
+      const result = await this._request<{ value: any }>(
+        action,
+        { key, ...params },
+        options,
+      );
+      await this.cache?.set(cacheKey, result.value);
+      return result.value;
+    } catch (error) {
+      await this.cache?.delete(cacheKey);
+      if (error instanceof KVStoreError && error.status === 422) {
+        const body = error.body as { operation?: number } | undefined;
+        throw new KVStorePatchError(error.message, {
+          ...this._context(action, {}),
+          status: error.status,
+          body: error.body,
+          key,
+          operation: body?.operation,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a value operation on the client. The value is read again before
+   * writing, and the operation starts over when it changed in between; a
+   * write landing after that check is not detected
+   *
+   * @private
+   * @param key - The key to change
+   * @param operation - The operation
+   * @param options - Retries after a conflict, per-call signal and timeout
+   * @returns Promise resolving to the new value
+   * @throws KVStoreConflictError when every attempt conflicted
+   */
+  private async _readModifyWrite(
+    key: string,
+    operation: KVValueOperation,
+    options: ModifyOptions,
+  ): Promise<any> {
+    const { action } = operation;
+    const retries = Math.max(0, options.retries ?? 3);
+    const read = async () => {
+      try {
+        return await this._fetchValue(key, { ...options, bypassCache: true });
+      } catch (error) {
+        if (!(error instanceof KVStoreNotFoundError)) throw error;
+        return undefined;
+      }
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const raw = await read();
+      if (raw === undefined && action === "applyPatch") {
+        throw new KVStoreNotFoundError("Key not found", {
+          ...this._context(action, {}),
+          status: 404,
+        });
+      }
+      const current =
+        raw === undefined ? undefined : await this._decodeValue(key, raw);
+      const result = applyValueOperation(current, operation);
+      if (!result.ok) {
+        throw new KVStorePatchError(result.message, {
+          ...this._context(action, {}),
+          key,
+          operation: result.operation,
+        });
+      }
+      const valid = await this._validate(action, key, result.value);
+      // The operation changes the value, not how long it lives
+      const expiresAt =
+        this.ttl && raw !== undefined
+          ? (unwrapExpiry(raw).expiresAt ?? undefined)
+          : undefined;
+      const encoded = await this._encodeValue(key, valid, { expiresAt });
+
+      if (isDeepEqual(await read(), raw)) {
+        try {
+          await this._write(
+            raw === undefined ? "set" : "update",
+            { key, value: encoded },
+            [{ key, value: encoded }],
+            options,
+          );
+          return valid;
+        } catch (error) {
+          // The key was deleted since it was read
+          if (!(error instanceof KVStoreNotFoundError)) throw error;
+        }
+      }
+      if (attempt >= retries) {
+        throw new KVStoreConflictError(
+          `Key "${key}" kept changing while applying ${action}`,
+          { ...this._context(action, {}), status: 409 },
+        );
+      }
+    }
+  }
+
+  /**
+   * Deletes a key-value pair from the store
+   *
+   * @param key - The key to delete
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to deletion response
+   */
+  async delete(
+    key: KVKey<Schema>,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this._write("delete", { key }, [{ key }], options);
+  }
+
+  /**
+   * Deletes multiple keys at once
+   *
+   * @param keys - Array of keys to delete
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to batch deletion response
+   */
+  async deleteMany(
+    keys: KVKey<Schema>[],
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this._write(
+      "deleteMany",
+      { keys },
+      keys.map((key) => ({ key })),
+      options,
+    );
+  }
+
+  /**
+   * Runs a callback whose writes are buffered, then commits them as one
+   * `setMany` plus one `deleteMany` call. The current values of the touched
+   * keys are read first; if the commit fails, they are written back and the
+   * thrown `KVStoreTransactionError` tells whether every key was restored.
+   * Nothing is written when the callback throws. Other clients may write
+   * the same keys meanwhile, so this is not isolation
+   *
+   * @param fn - Callback reading and writing through the transaction
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns The callback's result and the keys written and deleted
+   * @throws KVStoreNotFoundError when an updated key does not exist; nothing is written
+   * @throws KVStoreTransactionError when the commit fails
+   *
+   * @example
+   * ```typescript
+   * const { value } = await store.transaction(async (tx) => {
+   *   const order = await tx.get('order:1');
+   *   tx.update('order:1', { ...order, status: 'shipped' });
+   *   tx.delete('cart:1');
+   *   return order.total;
+   * });
+   * ```
+   */
+  async transaction<T>(
+    fn: (tx: KVTransaction<Schema>) => T | Promise<T>,
+    options?: RequestOptions,
+  ): Promise<KVTransactionResult<T>> {
+    const tx = new KVTransaction<Schema>(
+      (key) => this.get(key as KVKey<Schema>, options),
+      { dbName: this.dbName, storeName: this.storeName },
+    );
+    const value = await fn(tx);
+    const operations = tx.getOperations();
+    if (operations.length === 0) return { value, written: [], deleted: [] };
+
+    const writes: { key: string; value: any }[] = [];
+    const deletes: string[] = [];
+    for (const operation of operations) {
+      if (operation.type === "delete") {
+        deletes.push(operation.key);
+        continue;
+      }
+      const valid = await this._validate(
+        "transaction",
+        operation.key,
+        operation.value,
+      );
+      writes.push({
+        key: operation.key,
+        value: await this._encodeValue(operation.key, valid),
+      });
+    }
+
+    const keys = operations.map((operation) => operation.key);
+    const before = await this._fetchValues(keys, {
+      ...options,
+      bypassCache: true,
+    });
+    operations.forEach((operation, index) => {
+      const missing = before[index] === null || before[index] === undefined;
+      if (operation.type === "update" && missing) {
+        throw new KVStoreNotFoundError(`Key "${operation.key}" not found`, {
+          ...this._context("transaction", {}),
+          status: 404,
+        });
+      }
+    });
+
+    const attempted: string[] = [];
+    try {
+      if (writes.length > 0) {
+        attempted.push(...writes.map((entry) => entry.key));
+        await this._write("setMany", { entries: writes }, writes, options);
+      }
+      if (deletes.length > 0) {
+        attempted.push(...deletes);
+        await this._write(
+          "deleteMany",
+          { keys: deletes },
+          deletes.map((key) => ({ key })),
+          options,
+        );
+      }
+    } catch (error) {
+      const previous = new Map<string, any>();
+      keys.forEach((key, index) => {
+        // Missing keys are stored as undefined, so they are deleted back
+        previous.set(key, before[index] ?? undefined);
+      });
+      throw await this._rollback(error, attempted, previous, options);
+    }
+    return {
+      value,
+      written: writes.map((entry) => entry.key),
+      deleted: deletes,
+    };
+  }
+
+  /**
+   * Restores the values a failed commit may have overwritten
+   *
+   * @private
+   * @param error - Error that failed the commit
+   * @param keys - Keys the commit tried to write or delete
+   * @param previous - Wire values of the keys before the commit, undefined when missing
+   * @param options - Per-call timeout; the signal is not applied so an aborted
+   *   commit is still rolled back
+   * @returns The error describing the commit failure and the rollback outcome
+   */
+  private async _rollback(
+    error: unknown,
+    keys: string[],
+    previous: Map<string, any>,
+    options?: RequestOptions,
+  ): Promise<KVStoreTransactionError> {
+    const rollbackOptions = { timeoutMs: options?.timeoutMs };
+    const restore = keys
+      .filter((key) => previous.get(key) !== undefined)
+      .map((key) => ({ key, value: previous.get(key) }));
+    const remove = keys.filter((key) => previous.get(key) === undefined);
+    const unrestoredKeys: string[] = [];
+    let rollbackError: unknown;
+
+    if (restore.length > 0) {
+      try {
+        await this._write(
+          "setMany",
+          { entries: restore },
+          restore,
+          rollbackOptions,
+        );
+      } catch (failure) {
+        unrestoredKeys.push(...restore.map((entry) => entry.key));
+        rollbackError = failure;
+      }
+    }
+    if (remove.length > 0) {
+      try {
+        await this._write(
+          "deleteMany",
+          { keys: remove },
+          remove.map((key) => ({ key })),
+          rollbackOptions,
+        );
+      } catch (failure) {
+        unrestoredKeys.push(...remove);
+        rollbackError = rollbackError ?? failure;
+      }
+    }
+
+    const message =
+      unrestoredKeys.length === 0
+        ? "Transaction commit failed; previous values were restored"
+        : `Transaction commit failed; ${unrestoredKeys.length} of ${keys.length} keys could not be restored`;
+    return new KVStoreTransactionError(message, {
+      ...this._context("transaction", {}),
+      status: error instanceof KVStoreError ? error.status : undefined,
+      cause: error,
+      unrestoredKeys,
+      rollbackError,
+    });
+  }
+
+  /**
+   * Retrieves all entries from a specific store
+   *
+   * @param dbName - Database name (defaults to the client's database)
+   * @param storeName - Store name (defaults to the client's store)
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to array of all entries
+   */
+  async entries(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<KVEntry<Schema>[]> {
+    if (!dbName) dbName = this.dbName;
+    if (!storeName) storeName = this.storeName;
+
+    const params = { dbName, storeName };
+    const pending = await this._pendingWrites(dbName, storeName);
+    const result = await this._request<{ entries: KVEntry<Schema>[] }>(
+      "entries",
+      params,
+      options,
+    );
+    const listed = this._withPendingWrites(result.entries, pending);
+    const now = Date.now();
+    const live = this._hideIndexKeys(listed).filter(
+      (entry) => !this.ttl || !isExpired(entry.value, now),
+    );
+    return await Promise.all(
+      live.map(
+        async (entry) =>
+          ({
+            key: entry.key,
+            value: await this._validateRead(
+              "entries",
+              entry.key,
+              await this._decodeValue(entry.key, entry.value),
+              params,
+            ),
+          }) as KVEntry<Schema>,
+      ),
+    );
+  }
+
+  /**
+   * Retrieves all keys from the current store
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to array of all keys
+   */
+  async keys(options?: RequestOptions): Promise<KVKey<Schema>[]> {
+    const pending = await this._pendingWrites(this.dbName, this.storeName);
+    if (this.ttl) {
+      // Expiry is stored with the values, so they are needed to skip keys
+      const result = await this._request<{ entries: KVEntry<Schema>[] }>(
+        "entries",
+        {},
+        options,
+      );
+      const now = Date.now();
+      return this._hideIndexKeys(
+        this._withPendingWrites(result.entries, pending),
+      )
+        .filter((entry) => !isExpired(entry.value, now))
+        .map((entry) => entry.key);
+    }
+    const result = await this._request<{ keys: KVKey<Schema>[] }>(
+      "keys",
+      {},
+      options,
+    );
+    const keys = pending
+      ? this._withPendingWrites(
+          result.keys.map((key) => ({ key })),
+          pending,
+        ).map((entry) => entry.key as KVKey<Schema>)
+      : result.keys;
+    return this.indexes ? keys.filter((key) => !isIndexKey(key)) : keys;
+  }
+
+  /**
+   * Retrieves all values from the current store
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to array of all values
+   */
+  async values(options?: RequestOptions): Promise<KVValue<Schema>[]> {
+    let values: KVValue<Schema>[];
+    const pending = await this._pendingWrites(this.dbName, this.storeName);
+    if (this.indexes || pending) {
+      // Index keys and queued writes are matched by key, so keys are needed too
+      const result = await this._request<{ entries: KVEntry<Schema>[] }>(
+        "entries",
+        {},
+        options,
+      );
+      values = this._hideIndexKeys(
+        this._withPendingWrites(result.entries, pending),
+      ).map((entry) => entry.value);
+    } else {
+      const result = await this._request<{ values: KVValue<Schema>[] }>(
+        "values",
+        {},
+        options,
+      );
+      values = result.values;
+    }
+    const now = Date.now();
+    const live = this.ttl
+      ? values.filter((value) => !isExpired(value, now))
+      : values;
+    return await Promise.all(
+      live.map((value) => this._decodeValue(undefined, value)),
+    );
+  }
+  /**
+   * Deletes the expired keys of the store with `deleteMany`, in chunks. A
+   * key written again between the scan and the deletion is deleted too
+   *
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Promise resolving to the number of deleted keys
+   * @throws KVStoreError when the `ttl` option is not enabled
+   *
+   * @example
+   * ```typescript
+   * setInterval(() => store.purgeExpired(), 60 * 1000);
+   * ```
+   */
+  async purgeExpired(options?: RequestOptions): Promise<number> {
+    if (!this.ttl) {
+      throw new KVStoreError(
+        "TTL is not enabled; set the ttl option",
+        this._context("purgeExpired", {}),
+      );
+    }
+    const result = await this._request<{ entries: KVEntry<Schema>[] }>(
+      "entries",
+      {},
+      options,
+    );
+    const now = Date.now();
+    const expired = result.entries
+      .filter((entry) => isExpired(entry.value, now))
+      .map((entry) => entry.key);
+    for (let i = 0; i < expired.length; i += DEFAULT_PAGE_SIZE) {
+      await this.deleteMany(expired.slice(i, i + DEFAULT_PAGE_SIZE), options);
+    }
+    return expired.length;
+  }
+  /**
+   * Rewrites every entry not encrypted with the primary key, so older keys
+   * can be removed from the keyring afterwards. Values keep their version
+   * and expiry time; with `deterministicKeys` toggled, keys are renamed to
+   * match, and keys encrypted with older keys are renamed as well
+   *
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Promise resolving to the number of rewritten entries
+   * @throws KVStoreError when the `encryption` option is not set
+   *
+   * @example
+   * ```typescript
+   * const rotated = new KVStore(apiUrl, {
+   *   ...options,
+   *   encryption: { keys: { old: oldKey, new: newKey }, primaryKeyId: 'new' },
+   * });
+   * await rotated.reencrypt();
+   * ```
+   */
+  async reencrypt(options?: RequestOptions): Promise<number> {
+    const cipher = this.cipher;
+    if (!cipher) {
+      throw new KVStoreError(
+        "Encryption is not enabled; set the encryption option",
+        this._context("reencrypt", {}),
+      );
+    }
+    // Stored names are needed to tell which keys were encrypted with older keys
+    const result = await this._transfer<{ entries: KVEntry[] }>(
+      "entries",
+      {},
+      options,
+    );
+
+    const resolved = await Promise.all(
+      result.entries.map(async (entry) => {
+        const key = await cipher.decryptKey(entry.key);
+        const name = cipher.encryptsKeys ? await cipher.encryptKey(key) : key;
+        return { entry, name };
+      }),
+    );
+    // A key written since the rotation already has its current name, so
+    // entries left under its older names are stale and only deleted
+    const taken = new Set<string>();
+    for (const { entry, name } of resolved) {
+      if (name === entry.key) taken.add(name);
+    }
+
+    const writes: KVEntry[] = [];
+    const renamed: string[] = [];
+    for (const { entry, name } of resolved) {
+      if (name !== entry.key) {
+        renamed.push(entry.key);
+        if (taken.has(name)) continue;
+        taken.add(name);
+      }
+      const value = await this._reencryptValue(cipher, entry.value);
+      if (name === entry.key && value === entry.value) continue;
+      writes.push({ key: name, value });
+    }
+
+    for (let i = 0; i < writes.length; i += DEFAULT_PAGE_SIZE) {
+      await this._transfer(
+        "setMany",
+        { entries: writes.slice(i, i + DEFAULT_PAGE_SIZE) },
+        options,
+      );
+    }
+    for (let i = 0; i < renamed.length; i += DEFAULT_PAGE_SIZE) {
+      await this._transfer(
+        "deleteMany",
+        { keys: renamed.slice(i, i + DEFAULT_PAGE_SIZE) },
+        options,
+      );
+    }
+    await this.cache?.deletePrefix(this._cacheKey(this.dbName, this.storeName));
+    return writes.length;
+  }
+
+  /**
+   * Encrypts a stored value with the primary key, keeping its version and
+   * expiry envelopes
+   *
+   * @private
+   * @param cipher - The cipher
+   * @param stored - Value returned by the server
+   * @returns The rewritten value, or the same value when already up to date
+   */
+  private async _reencryptValue(cipher: KVCipher, stored: any): Promise<any> {
+    const { data: versioned, expiresAt } = this.ttl
+      ? unwrapExpiry(stored)
+      : { data: stored, expiresAt: null };
+    const { data, version } = this.versioning
+      ? unwrapVersion(versioned)
+      : { data: versioned, version: null };
+    if (cipher.keyIdOf(data) === cipher.primaryKeyId) return stored;
+
+    let result = await cipher.encryptValue(await cipher.decryptValue(data));
+    if (version !== null) result = wrapVersion(result, version);
+    return expiresAt !== null ? wrapExpiry(result, expiresAt) : result;
+  }
+
+  /**
+   * Finds the entries whose indexed field has a value, with one read of the
+   * index key and one `getMany`. Keys whose value no longer matches, after
+   * a write the index missed, are left out
+   *
+   * @param indexName - Name of the index
+   * @param value - Value of the indexed field
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to the matching entries, in key order
+   * @throws KVStoreError when the index is not defined
+   *
+   * @example
+   * ```typescript
+   * const store = new KVStore(apiUrl, {
+   *   ...options,
+   *   indexes: { usersByEmail: { prefix: 'user:', field: 'email' } },
+   * });
+   * const [user] = await store.findBy('usersByEmail', 'ann@example.com');
+   * ```
+   */
+  async findBy(
+    indexName: string,
+    value: unknown,
+    options: ReadOptions = {},
+  ): Promise<KVEntry<Schema>[]> {
+    const definition = this._indexDefinition("findBy", indexName);
+    const name = indexKey(indexName, value);
+    let keys: KVKey<Schema>[];
+    try {
+      const result = await this._request<{ value: any }>(
+        "get",
+        { key: name },
+        options,
+      );
+      keys = await this._decodeValue(name, result.value);
+    } catch (error) {
+      if (error instanceof KVStoreNotFoundError) return [];
+      throw error;
+    }
+
+    const values = await this.getMany(keys, options);
+    const wanted = JSON.stringify(value);
+    const entries: KVEntry<Schema>[] = [];
+    keys.forEach((key, index) => {
+      const current = values[index];
+      if (current === null || current === undefined) return;
+      const matches = indexedValues(definition, current).some(
+        (indexed) => JSON.stringify(indexed) === wanted,
+      );
+      if (matches) entries.push({ key, value: current } as KVEntry<Schema>);
+    });
+    return entries;
+  }
+
+  /**
+   * Rewrites index keys from the current entries, repairing writes the
+   * index missed, such as writes queued offline or made by other clients
+   * without the index, and deletes index keys no value maps to anymore
+   *
+   * @param indexName - Index to rebuild; every index by default
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Promise resolving to the number of index keys written
+   * @throws KVStoreError when the index is not defined
+   *
+   * @example
+   * ```typescript
+   * await store.rebuildIndex('usersByEmail');
+   * ```
+   */
+  async rebuildIndex(
+    indexName?: string,
+    options?: RequestOptions,
+  ): Promise<number> {
+    const selected: Record<string, KVIndexDefinition> = {};
+    if (indexName === undefined) {
+      if (!this.indexes) {
+        throw new KVStoreError(
+          "No index is defined; set the indexes option",
+          this._context("rebuildIndex", {}),
+        );
+      }
+      Object.assign(selected, this.indexes);
+    } else {
+      selected[indexName] = this._indexDefinition("rebuildIndex", indexName);
+    }
+    const prefixes = Object.keys(selected).map(
+      (name) => `${INDEX_KEY_PREFIX}${name}:`,
+    );
+
+    const result = await this._request<{ entries: KVEntry[] }>(
+      "entries",
+      {},
+      options,
+    );
+    const now = Date.now();
+    const existing: string[] = [];
+    const changes: { key: string; after: any }[] = [];
+    for (const entry of result.entries) {
+      if (isIndexKey(entry.key)) {
+        if (prefixes.some((prefix) => entry.key.indexOf(prefix) === 0)) {
+          existing.push(entry.key);
+        }
+      } else if (
+        findIndexes(selected, entry.key).length > 0 &&
+        !(this.ttl && isExpired(entry.value, now))
+      ) {
+        changes.push({
+          key: entry.key,
+          after: await this._decodeValue(entry.key, entry.value),
+        });
+      }
+    }
+
+    const postings = diffIndexes(selected, changes);
+    const writes: KVEntry[] = await Promise.all(
+      postings.map(async (posting) => ({
+        key: posting.key,
+        value: await this._encodeValue(
+          posting.key,
+          applyPostingChange([], posting),
+        ),
+      })),
+    );
+    const written = postings.map((posting) => posting.key);
+    const stale = existing.filter((name) => written.indexOf(name) < 0);
+
+    for (let i = 0; i < writes.length; i += DEFAULT_PAGE_SIZE) {
+      await this._request(
+        "setMany",
+        { entries: writes.slice(i, i + DEFAULT_PAGE_SIZE) },
+        options,
+      );
+    }
+    for (let i = 0; i < stale.length; i += DEFAULT_PAGE_SIZE) {
+      await this._request(
+        "deleteMany",
+        { keys: stale.slice(i, i + DEFAULT_PAGE_SIZE) },
+        options,
+      );
+    }
+    return writes.length;
+  }
+
+  /**
+   * Looks up an index definition
+   *
+   * @private
+   * @param action - The operation needing the index, for error reporting
+   * @param indexName - Name of the index
+   * @returns The definition
+   * @throws KVStoreError when the index is not defined
+   */
+  private _indexDefinition(
+    action: string,
+    indexName: string,
+  ): KVIndexDefinition {
+    const definition = this.indexes?.[indexName];
+    if (!definition) {
+      throw new KVStoreError(
+        `Index "${indexName}" is not defined`,
+        this._context(action, {}),
+      );
+    }
+    return definition;
+  }
+
+  /**
+   * Retrieves one page of keys, in key order
+   *
+   * Uses the server's `scan` action when `capabilities.scan` is set, and
+   * otherwise pages through the result of `keys()`.
+   *
+   * @param query - Prefix and glob filters, page size and cursor
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the page and the cursor of the next one
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | null = null;
+   * do {
+   *   const page = await store.scan({ prefix: 'user:', limit: 500, cursor });
+   *   console.log(page.keys);
+   *   cursor = page.cursor;
+   * } while (cursor !== null);
+   * ```
+   */
+  async scan(
+    query: ScanOptions = {},
+    options?: RequestOptions,
+  ): Promise<ScanPage<KVKey<Schema>>> {
+    if (!this.capabilities.scan) {
+      return scanKeys(await this.keys(options), query);
+    }
+    const result = await this._request<ScanPage<KVKey<Schema>>>(
+      "scan",
+      {
+        prefix: query.prefix,
+        match: query.match,
+        limit: query.limit ?? DEFAULT_PAGE_SIZE,
+        cursor: query.cursor ?? null,
+      },
+      options,
+    );
+    const cursor = result.cursor ?? null;
+    // Pages may come out shorter than the limit once hidden keys are removed
+    const keys = this.indexes
+      ? result.keys.filter((key) => !isIndexKey(key))
+      : result.keys;
+    if (!this.ttl || keys.length === 0) {
+      return { keys, cursor };
+    }
+    const values = await this._fetchValues(keys, options ?? {});
+    return {
+      keys: keys.filter((_key, index) => values[index] !== null),
+      cursor,
+    };
+  }
+
+  /**
+   * Iterates over the keys of the store in key order, one page at a time
+   * with `scan` support, or from a single `keys()` call otherwise
+   *
+   * @param query - Prefix and glob filters and page size
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Async iterator of keys
+   *
+   * @example
+   * ```typescript
+   * for await (const key of store.iterateKeys({ match: 'session:*' })) {
+   *   console.log(key);
+   * }
+   * ```
+   */
+  async *iterateKeys(
+    query: IterateOptions = {},
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVKey<Schema>> {
+    if (!this.capabilities.scan) {
+      const keys = (await this.keys(options)).filter(createKeyFilter(query));
+      for (const key of keys.sort()) yield key;
+      return;
+    }
+
+    let cursor: string | null = null;
+    do {
+      const page: ScanPage<KVKey<Schema>> = await this.scan(
+        { ...query, limit: query.pageSize, cursor },
+        options,
+      );
+      for (const key of page.keys) yield key;
+      cursor = page.cursor;
+    } while (cursor !== null);
+  }
+
+  /**
+   * Iterates over the entries of the store, reading values with one
+   * `getMany` call per `pageSize` keys so memory stays bounded
+   *
+   * @param query - Prefix and glob filters and page size
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Async iterator of entries
+   *
+   * @example
+   * ```typescript
+   * for await (const { key, value } of store.iterateEntries({ prefix: 'user:' })) {
+   *   console.log(key, value);
+   * }
+   * ```
+   */
+  async *iterateEntries(
+    query: IterateOptions = {},
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVEntry<Schema>> {
+    const pageSize = Math.max(1, query.pageSize ?? DEFAULT_PAGE_SIZE);
+    let chunk: KVKey<Schema>[] = [];
+
+    for await (const key of this.iterateKeys(query, options)) {
+      chunk.push(key);
+      if (chunk.length >= pageSize) {
+        yield* this._readEntries(chunk, options);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) yield* this._readEntries(chunk, options);
+  }
+
+  /**
+   * Starts a query over the entries of the store. It runs on the server
+   * with `capabilities.query` when values are stored as plain JSON and read
+   * without validation, and through `iterateEntries` otherwise
+   *
+   * @returns An empty query, to refine and run
+   *
+   * @example
+   * ```typescript
+   * const results = await store
+   *   .query<User>()
+   *   .prefix('user:')
+   *   .where('age', '>', 30)
+   *   .orderBy('name')
+   *   .select(['name'])
+   *   .limit(10)
+   *   .run();
+   * // [{ key: 'user:7', value: { name: 'Ann' } }, ...]
+   * ```
+   */
+  query<T = KVValue<Schema>>(): KVQuery<Schema, T> {
+    const onServer =
+      this.capabilities.query &&
+      this._storesPlainValues() &&
+      !this.validation?.validateOnRead;
+    return new KVQuery<Schema, T>({
+      server: onServer
+        ? (spec, options) => this._queryServer(spec, options)
+        : undefined,
+      entries: (query, options) => this.iterateEntries(query, options),
+    });
+  }
+
+  /**
+   * Runs a query with the `query` action
+   *
+   * @private
+   * @param spec - The query
+   * @param options - Per-call signal and timeout
+   * @returns The entries returned by the server
+   */
+  private async _queryServer(
+    spec: KVQuerySpec,
+    options?: RequestOptions,
+  ): Promise<KVEntry[]> {
+    const result = await this._request<{ entries: KVEntry[] }>(
+      "query",
+      { ...spec },
+      options,
+    );
+    // Results may come out shorter than the limit once index keys are removed
+    return this._hideIndexKeys(result.entries);
+  }
+
+  /**
+   * Reads the entries of a chunk of keys, skipping keys deleted meanwhile
+   *
+   * @private
+   * @param keys - Keys to read
+   * @param options - Per-call signal and timeout
+   * @returns Async iterator of the existing entries
+   */
+  private async *_readEntries(
+    keys: KVKey<Schema>[],
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVEntry<Schema>> {
+    const values = await this.getMany(keys, options);
+    for (let i = 0; i < keys.length; i++) {
+      if (values[i] === null) continue;
+      yield { key: keys[i], value: values[i] } as KVEntry<Schema>;
+    }
+  }
+
+  /**
+   * Streams the entries of the store to a line-delimited JSON backup: a
+   * header line naming the database, store, export time and codec version,
+   * then one `{ key, value }` line per entry in key order. Values are written
+   * as stored on the server, so codec envelopes survive the round trip
+   *
+   * @param writable - Destination, such as `fs.createWriteStream(path)`
+   * @param query - Prefix filter, chunk size, resume key and progress callback
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Number of entries written and the last key
+   *
+   * @example
+   * ```typescript
+   * await store.exportStore(fs.createWriteStream('users.ndjson'), {
+   *   onProgress: ({ entries }) => console.log(`${entries} entries`)
+   * });
+   * ```
+   */
+  async exportStore(
+    writable: BackupWritable,
+    query: ExportOptions = {},
+    options?: RequestOptions,
+  ): Promise<ExportProgress> {
+    const chunkSize = Math.max(1, query.chunkSize ?? DEFAULT_PAGE_SIZE);
+    const { afterKey, onProgress } = query;
+    const progress: ExportProgress = { entries: 0, lastKey: afterKey ?? null };
+
+    if (afterKey === undefined) {
+      const header: BackupHeader = {
+        type: "header",
+        format: BACKUP_FORMAT,
+        dbName: this.dbName,
+        storeName: this.storeName,
+        timestamp: new Date().toISOString(),
+        codecVersion: CODEC_VERSION,
+      };
+      await writeRecord(writable, header);
+    }
+
+    const flush = async (keys: string[]) => {
+      const values = await this._fetchValues(keys, {
+        ...options,
+        bypassCache: true,
+      });
+      for (let i = 0; i < keys.length; i++) {
+        if (values[i] === null || values[i] === undefined) continue;
+        const entry: BackupEntry = { key: keys[i], value: values[i] };
+        await writeRecord(writable, entry);
+        progress.entries++;
+      }
+      progress.lastKey = keys[keys.length - 1];
+      onProgress?.({ ...progress });
+    };
+
+    let chunk: string[] = [];
+    for await (const key of this.iterateKeys(
+      { prefix: query.prefix, pageSize: chunkSize },
+      options,
+    )) {
+      if (afterKey !== undefined && key <= afterKey) continue;
+      chunk.push(key);
+      if (chunk.length >= chunkSize) {
+        await flush(chunk);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) await flush(chunk);
+    return progress;
+  }
+
+  /**
+   * Restores a backup written by {@link exportStore} into this store, one
+   * `setMany` call per chunk. Values are written as they appear in the
+   * backup, without validation or encoding. Chunks committed before a
+   * failure stay written; pass the last reported `line` as `fromLine` to
+   * resume
+   *
+   * @param readable - Source, such as `fs.createReadStream(path)`
+   * @param query - Conflict mode, chunk size, resume line and progress callback
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Counts of written and skipped entries, the last committed line and the backup header
+   * @throws KVStoreError when the backup is malformed or uses a newer codec version
+   * @throws KVStoreConflictError in "fail-on-conflict" mode when a key already exists
+   *
+   * @example
+   * ```typescript
+   * const result = await store.importStore(fs.createReadStream('users.ndjson'), {
+   *   mode: 'skip-existing'
+   * });
+   * console.log(`${result.imported} imported, ${result.skipped} skipped`);
+   * ```
+   */
+  async importStore(
+    readable: BackupReadable,
+    query: ImportOptions = {},
+    options?: RequestOptions,
+  ): Promise<ImportResult> {
+    const chunkSize = Math.max(1, query.chunkSize ?? DEFAULT_PAGE_SIZE);
+    const mode = query.mode ?? "overwrite";
+    const fromLine = query.fromLine ?? 0;
+    const context = this._context("importStore", {});
+    const progress = { imported: 0, skipped: 0, line: fromLine };
+    let header: BackupHeader | undefined;
+
+    const commit = async (entries: BackupEntry[], line: number) => {
+      let pending = entries;
+      if (mode !== "overwrite") {
+        const existing = await this._fetchValues(
+          entries.map((entry) => entry.key),
+          { ...options, bypassCache: true },
+        );
+        pending = entries.filter(
+          (_entry, i) => existing[i] === null || existing[i] === undefined,
+        );
+        if (mode === "fail-on-conflict" && pending.length < entries.length) {
+          const key = entries[existing.findIndex((value) => value != null)].key;
+          throw new KVStoreConflictError(`Key "${key}" already exists`, {
+            ...context,
+            status: 409,
+          });
+        }
+      }
+      if (pending.length > 0) {
+        await this._write("setMany", { entries: pending }, pending, options);
+      }
+      progress.imported += pending.length;
+      progress.skipped += entries.length - pending.length;
+      progress.line = line;
+      query.onProgress?.({ ...progress });
+    };
+
+    let chunk: BackupEntry[] = [];
+    let lastLine = fromLine;
+    for await (const { line, text } of readLines(readable)) {
+      let record: any;
+      try {
+        record = JSON.parse(text);
+      } catch (error) {
+        throw new KVStoreError(`Invalid JSON on line ${line} of the backup`, {
+          ...context,
+          cause: error,
+        });
+      }
+
+      if (!header) {
+        if (record?.type !== "header" || record.format !== BACKUP_FORMAT) {
+          throw new KVStoreError(
+            "Backup does not start with a header",
+            context,
+          );
+        }
+        if (record.codecVersion > CODEC_VERSION) {
+          throw new KVStoreError(
+            `Unsupported codec version ${record.codecVersion} in the backup`,
+            context,
+          );
+        }
+        header = record as BackupHeader;
+        continue;
+      }
+      if (line <= fromLine) continue;
+      if (typeof record?.key !== "string" || !("value" in record)) {
+        throw new KVStoreError(
+          `Invalid entry on line ${line} of the backup`,
+          context,
+        );
+      }
+
+      chunk.push({ key: record.key, value: record.value });
+      lastLine = line;
+      if (chunk.length >= chunkSize) {
+        await commit(chunk, lastLine);
+        chunk = [];
+      }
+    }
+
+    if (!header) {
+      throw new KVStoreError("Backup does not start with a header", context);
+    }
+    if (chunk.length > 0) await commit(chunk, lastLine);
+    return { ...progress, header };
+  }
+
+  /**
+   * Clears all data from the current store
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to clear operation response
+   * @warning This operation cannot be undone
+   */
+  async clear(options?: RequestOptions): Promise<APIResponse> {
+    try {
+      return await this._request("clear", {}, options);
+    } finally {
+      this.batcher?.forget();
+      await this.cache?.deletePrefix(
+        this._cacheKey(this.dbName, this.storeName),
+      );
+    }
+  }
+
+  /**
+   * Deletes a store from a database
+   *
+   * @param dbName - Database name containing the store (defaults to the client's database)
+   * @param storeName - Name of store to delete (defaults to the client's store)
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to deletion response
+   * @warning This operation cannot be undone
+   */
+  async deleteStore(
+    dbName?: string,
+    storeName?: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    if (!dbName) dbName = this.dbName;
+    if (!storeName) storeName = this.storeName;
+
+    try {
+      return await this._request(
+        "delete-store",
+        { dbName, storeName },
+        options,
+      );
+    } finally {
+      this.batcher?.forget();
+      await this.cache?.deletePrefix(this._cacheKey(dbName, storeName));
+    }
+  }
+
+  /**
+   * Deletes an entire database
+   *
+   * @param dbName - Name of database to delete
+   * @param options - Per-call signal and timeout
    * @returns Promise resolving to deletion response
    * @warning This operation cannot be undone and will delete all stores within the database
    */
-  async deleteDatabase(dbName: string): Promise<APIResponse> {
-    return await this._request("delete-database", { dbName });
+  async deleteDatabase(
+    dbName: string,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    try {
+      return await this._request("delete-database", { dbName }, options);
+    } finally {
+      this.batcher?.forget();
+      await this.cache?.deletePrefix(this._cacheKey(dbName));
+    }
   }
 
   /**
@@ -391,16 +4210,19 @@ export class KVStore {
    *
    * @param currentPassword - The current password of the user
    * @param newPassword - The new password to set
+   * @param options - Per-call signal and timeout
    * @returns Promise resolving to password change response
    */
   async changePassword(
     currentPassword: string,
     newPassword: string,
+    options?: RequestOptions,
   ): Promise<APIResponse> {
-    return await this._request("change-password", {
-      currentPassword,
-      newPassword,
-    });
+    return await this._request(
+      "change-password",
+      { currentPassword, newPassword },
+      options,
+    );
   }
 
   /**
@@ -408,14 +4230,74 @@ export class KVStore {
    *
    * @param password - The user's password for confirmation
    * @param confirmation - A confirmation string, e.g. "DELETE"
+   * @param options - Per-call signal and timeout
    * @returns Promise resolving to account deletion response
    * @warning This action is irreversible and deletes all user data
    */
   async deleteAccount(
     password: string,
     confirmation: string,
+    options?: RequestOptions,
   ): Promise<APIResponse> {
-    return await this._request("delete-account", { password, confirmation });
+    return await this._request(
+      "delete-account",
+      { password, confirmation },
+      options,
+    );
+  }
+}
+
+/**
+ * Configuration options for {@link MemoryKVStore}; every field is optional
+ */
+export interface MemoryKVStoreOptions extends Partial<KVStoreOptions> {
+  /** Server holding the data; share one to share data between instances */
+  server?: MemoryServer;
+}
+
+/**
+ * KVStore backed by an in-memory server, for tests and offline use
+ *
+ * It goes through the same request pipeline as {@link KVStore}, so retries,
+ * middleware and errors behave exactly as they do against the real API.
+ *
+ * @example
+ * ```typescript
+ * const store: KVStoreClient = new MemoryKVStore();
+ *
+ * await store.set('user:1', { name: 'Alice' });
+ * await store.get('missing'); // throws KVStoreNotFoundError
+ * ```
+ */
+export class MemoryKVStore<
+  Schema extends object = KVSchema,
+> extends KVStore<Schema> {
+  /** In-memory server holding the data */
+  readonly server: MemoryServer;
+
+  /**
+   * Creates a new in-memory store
+   *
+   * @param options - Optional names, token and shared server; the database
+   *   and store are created when missing
+   */
+  constructor(options: MemoryKVStoreOptions = {}) {
+    const { server = new MemoryServer(), ...rest } = options;
+    const resolved: KVStoreOptions = {
+      accessToken: "memory-token",
+      dbName: "default",
+      storeName: "default",
+      capabilities: { scan: true },
+      ...rest,
+      fetch: server.fetch,
+    };
+
+    super("memory://kvstore", resolved);
+    // Token providers return tokens the server issued itself, e.g. on login
+    if (typeof resolved.accessToken === "string") {
+      server.provision({ ...resolved, accessToken: resolved.accessToken });
+    }
+    this.server = server;
   }
 }
 
@@ -438,6 +4320,9 @@ export class KVStore {
  * });
  * ```
  */
-export function store(apiUrl: string, options: KVStoreOptions): KVStore {
-  return new KVStore(apiUrl, options);
+export function store<Schema extends object = KVSchema>(
+  apiUrl: string,
+  options: KVStoreOptions,
+): KVStore<Schema> {
+  return new KVStore<Schema>(apiUrl, options);
 }
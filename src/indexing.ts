@@ -0,0 +1,175 @@
+/** Prefix of the keys holding secondary indexes */
+export const INDEX_KEY_PREFIX = "$kvindex:";
+
+/**
+ * Secondary index on a field of the values stored under a key prefix
+ *
+ * @example
+ * ```typescript
+ * const indexes: Record<string, KVIndexDefinition> = {
+ *   usersByEmail: { prefix: 'user:', field: 'email' },
+ *   usersByCity: { prefix: 'user:', field: 'address.city' },
+ * };
+ * ```
+ */
+export interface KVIndexDefinition {
+  /** Only keys starting with this prefix are indexed */
+  prefix: string;
+  /**
+   * Path of the indexed field, with dots between nested properties; each
+   * item of an array field is indexed
+   */
+  field: string;
+}
+
+/**
+ * Change of the indexed values of one key
+ */
+export interface KVIndexChange {
+  /** The key */
+  key: string;
+  /** Value replaced by the write, undefined when the key was missing */
+  before?: any;
+  /** Value written, undefined for deletions */
+  after?: any;
+}
+
+/**
+ * Keys to add to and remove from the index key of one indexed value
+ */
+export interface KVPostingChange {
+  /** The index key */
+  key: string;
+  add: string[];
+  remove: string[];
+}
+
+/**
+ * Tells whether a key holds a secondary index
+ *
+ * @param key - A stored key
+ * @returns True for index keys
+ */
+export function isIndexKey(key: string): boolean {
+  return key.indexOf(INDEX_KEY_PREFIX) === 0;
+}
+
+/**
+ * Builds the key listing the keys whose indexed field has a given value
+ *
+ * @param name - Name of the index
+ * @param value - Value of the indexed field
+ * @returns The index key
+ */
+export function indexKey(name: string, value: unknown): string {
+  return `${INDEX_KEY_PREFIX}${name}:${JSON.stringify(value)}`;
+}
+
+/**
+ * Lists the indexes covering a key
+ *
+ * @param indexes - Index definitions by name
+ * @param key - The key being written
+ * @returns Names of the indexes whose prefix the key starts with
+ */
+export function findIndexes(
+  indexes: Record<string, KVIndexDefinition>,
+  key: string,
+): string[] {
+  return Object.keys(indexes).filter(
+    (name) => key.indexOf(indexes[name].prefix) === 0,
+  );
+}
+
+/**
+ * Reads the values a value is indexed under: the field itself, or each of
+ * its items for an array. Only strings, finite numbers and booleans are
+ * indexed
+ *
+ * @param definition - The index
+ * @param value - The stored value
+ * @returns Distinct indexed values
+ */
+export function indexedValues(
+  definition: KVIndexDefinition,
+  value: any,
+): unknown[] {
+  let field = value;
+  for (const part of definition.field.split(".")) {
+    if (field === null || typeof field !== "object") return [];
+    field = field[part];
+  }
+  const candidates: unknown[] = Array.isArray(field) ? field : [field];
+  const seen: Record<string, boolean> = {};
+  return candidates.filter((candidate) => {
+    const indexable =
+      typeof candidate === "string" ||
+      typeof candidate === "boolean" ||
+      (typeof candidate === "number" && Number.isFinite(candidate));
+    if (!indexable) return false;
+    const id = JSON.stringify(candidate);
+    if (seen[id]) return false;
+    seen[id] = true;
+    return true;
+  });
+}
+
+/**
+ * Works out how the index keys change with a set of writes
+ *
+ * @param indexes - Index definitions by name
+ * @param changes - Values replaced and written, by key
+ * @returns Keys to add and remove per index key; unchanged index keys are left out
+ */
+export function diffIndexes(
+  indexes: Record<string, KVIndexDefinition>,
+  changes: KVIndexChange[],
+): KVPostingChange[] {
+  const postings: KVPostingChange[] = [];
+  const byKey: Record<string, KVPostingChange> = {};
+  const posting = (target: string) => {
+    let change = byKey[target];
+    if (!change) {
+      change = { key: target, add: [], remove: [] };
+      byKey[target] = change;
+      postings.push(change);
+    }
+    return change;
+  };
+
+  for (const { key, before, after } of changes) {
+    for (const name of findIndexes(indexes, key)) {
+      const old = indexedValues(indexes[name], before).map((value) =>
+        indexKey(name, value),
+      );
+      const current = indexedValues(indexes[name], after).map((value) =>
+        indexKey(name, value),
+      );
+      for (const entry of old) {
+        if (current.indexOf(entry) < 0) posting(entry).remove.push(key);
+      }
+      for (const entry of current) {
+        if (old.indexOf(entry) < 0) posting(entry).add.push(key);
+      }
+    }
+  }
+  return postings;
+}
+
+/**
+ * Applies a change to the keys listed by an index key
+ *
+ * @param keys - Keys currently listed
+ * @param change - Keys to add and remove
+ * @returns The keys to list, sorted
+ */
+export function applyPostingChange(
+  keys: string[],
+  change: KVPostingChange,
+): string[] {
+  const result = keys.filter((key) => change.remove.indexOf(key) < 0);
+  for (const key of change.add) {
+    if (result.indexOf(key) < 0) result.push(key);
+  }
+  return result.sort();
+}
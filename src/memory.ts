@@ -0,0 +1,378 @@
+import { applyValueOperation, type KVValueOperation } from "./patch";
+import { runQuery } from "./query";
+import { scanKeys } from "./scan";
+import type { FetchLike, FetchResponseLike } from "./transport";
+
+/**
+ * Target and credentials to make available on a {@link MemoryServer}
+ */
+export interface MemoryProvisionOptions {
+  /** Token that authenticates as the provisioned user */
+  accessToken: string;
+  /** Database to create if missing */
+  dbName: string;
+  /** Store to create if missing */
+  storeName: string;
+  /** User owning the token (default "memory") */
+  username?: string;
+}
+
+/** Stored account of a user */
+interface MemoryUser {
+  username: string;
+  email: string;
+  password: string;
+  /** Databases by name, each holding stores by name */
+  databases: Map<string, Map<string, Map<string, any>>>;
+}
+
+/** Status and JSON body produced by an action */
+interface MemoryResult {
+  status: number;
+  body: Record<string, any>;
+}
+
+/** Actions that can be performed without a token */
+const PUBLIC_ACTIONS = ["register", "login"];
+
+/**
+ * In-memory implementation of the KVStore REST API
+ *
+ * It answers the same actions with the same statuses and bodies as the real
+ * server, and can be plugged into any client through its `fetch` property. It
+ * also supports the optional `scan` action (see `capabilities.scan`), the
+ * value helper actions (see `capabilities.patch`) and the `query` action
+ * (see `capabilities.query`).
+ *
+ * @example
+ * ```typescript
+ * const server = new MemoryServer();
+ * server.provision({ accessToken: 'token', dbName: 'db', storeName: 'store' });
+ *
+ * const store = new KVStore('memory://', {
+ *   accessToken: 'token',
+ *   dbName: 'db',
+ *   storeName: 'store',
+ *   fetch: server.fetch,
+ * });
+ * ```
+ */
+export class MemoryServer {
+  /** Registered users by username */
+  private readonly users = new Map<string, MemoryUser>();
+  /** Usernames by issued token */
+  private readonly tokens = new Map<string, string>();
+  /** Counter used to issue unique tokens */
+  private tokenCounter = 0;
+
+  /**
+   * Fetch-compatible entry point, bound to this server
+   *
+   * @param _url - Ignored; every URL reaches this server
+   * @param init - Request init carrying the JSON envelope and headers
+   * @returns Promise resolving to a fetch-like response
+   */
+  readonly fetch: FetchLike = async (_url, init) => {
+    const token = /^Bearer (.*)$/.exec(
+      init.headers.Authorization ?? init.headers.authorization ?? "",
+    );
+    const result = this.handle(JSON.parse(init.body), token?.[1]);
+    // Serialize like a real response, so callers never share stored objects
+    const text = JSON.stringify(result.body);
+
+    const response: FetchResponseLike = {
+      ok: result.status >= 200 && result.status < 300,
+      status: result.status,
+      headers: { get: () => null },
+      json: async () => JSON.parse(text),
+    };
+    return response;
+  };
+
+  /**
+   * Ensures a user, token, database and store exist
+   *
+   * @param options - Token and target to create
+   */
+  provision(options: MemoryProvisionOptions): void {
+    const username = options.username ?? "memory";
+    let user = this.users.get(username);
+    if (!user) {
+      user = { username, email: "", password: "", databases: new Map() };
+      this.users.set(username, user);
+    }
+    this.tokens.set(options.accessToken, username);
+
+    let database = user.databases.get(options.dbName);
+    if (!database) {
+      database = new Map();
+      user.databases.set(options.dbName, database);
+    }
+    if (!database.has(options.storeName)) {
+      database.set(options.storeName, new Map());
+    }
+  }
+
+  /**
+   * Performs an action against the in-memory data
+   *
+   * @param envelope - Parsed request body
+   * @param token - Bearer token sent with the request
+   * @returns Status and body of the response
+   */
+  handle(envelope: Record<string, any>, token?: string): MemoryResult {
+    const { action } = envelope;
+
+    if (PUBLIC_ACTIONS.indexOf(action) !== -1) {
+      return action === "register"
+        ? this.register(envelope)
+        : this.login(envelope);
+    }
+
+    const username = token !== undefined ? this.tokens.get(token) : undefined;
+    const user = username !== undefined ? this.users.get(username) : undefined;
+    if (!user) return fail(401, "Invalid or expired token");
+
+    switch (action) {
+      case "generate-token":
+        return ok({ token: this.issueToken(user.username) });
+      case "get-user-info":
+        return ok({ user: { username: user.username, email: user.email } });
+      case "change-password":
+        return this.changePassword(user, envelope);
+      case "delete-account":
+        return this.deleteAccount(user, envelope);
+      case "get-databases":
+        return ok({ databases: Array.from(user.databases.keys()) });
+      case "create-database":
+        return this.createDatabase(user, envelope.name);
+      case "delete-database":
+        if (!user.databases.delete(envelope.dbName)) {
+          return fail(404, "Database not found");
+        }
+        return ok({ message: "Database deleted" });
+      case "get-stores":
+      case "create-store":
+      case "delete-store":
+        return this.storeAction(user, envelope);
+    }
+
+    const database = user.databases.get(envelope.dbName);
+    if (!database) return fail(404, "Database not found");
+    const data = database.get(envelope.storeName);
+    if (!data) return fail(404, "Store not found");
+
+    return this.dataAction(data, envelope);
+  }
+
+  /**
+   * Handles the database-scoped store actions
+   */
+  private storeAction(
+    user: MemoryUser,
+    envelope: Record<string, any>,
+  ): MemoryResult {
+    const { action, dbName, storeName } = envelope;
+    const database = user.databases.get(dbName);
+    if (!database) return fail(404, "Database not found");
+
+    if (action === "get-stores") {
+      return ok({ stores: Array.from(database.keys()) });
+    }
+    if (action === "create-store") {
+      if (!storeName) return fail(400, "Store name is required");
+      if (database.has(storeName)) return fail(409, "Store already exists");
+      database.set(storeName, new Map());
+      return ok({ message: "Store created" });
+    }
+    if (!database.delete(storeName)) return fail(404, "Store not found");
+    return ok({ message: "Store deleted" });
+  }
+
+  /**
+   * Handles the key-value actions on a single store
+   */
+  private dataAction(
+    data: Map<string, any>,
+    envelope: Record<string, any>,
+  ): MemoryResult {
+    const { key, keys, value, entries } = envelope;
+
+    switch (envelope.action) {
+      case "set":
+        if (typeof key !== "string") return fail(400, "Key is required");
+        data.set(key, value);
+        return ok({ message: "Value set" });
+      case "get":
+        if (!data.has(key)) return fail(404, "Key not found");
+        return ok({ value: data.get(key) });
+      case "update":
+        if (!data.has(key)) return fail(404, "Key not found");
+        data.set(key, value);
+        return ok({ message: "Value updated" });
+      case "delete":
+        if (!data.delete(key)) return fail(404, "Key not found");
+        return ok({ message: "Key deleted" });
+      case "setMany":
+        if (!Array.isArray(entries)) return fail(400, "Entries are required");
+        for (const entry of entries) data.set(entry.key, entry.value);
+        return ok({ count: entries.length });
+      case "getMany":
+        if (!Array.isArray(keys)) return fail(400, "Keys are required");
+        return ok({
+          values: keys.map((k: string) => (data.has(k) ? data.get(k) : null)),
+        });
+      case "deleteMany": {
+        if (!Array.isArray(keys)) return fail(400, "Keys are required");
+        let count = 0;
+        for (const k of keys) if (data.delete(k)) count++;
+        return ok({ count });
+      }
+      case "keys":
+        return ok({ keys: Array.from(data.keys()) });
+      case "scan":
+        return ok(
+          scanKeys(Array.from(data.keys()), {
+            prefix: envelope.prefix,
+            match: envelope.match,
+            limit: envelope.limit,
+            cursor: envelope.cursor,
+          }),
+        );
+      case "increment":
+      case "push":
+      case "mergePatch":
+      case "applyPatch": {
+        if (typeof key !== "string") return fail(400, "Key is required");
+        if (envelope.action === "applyPatch" && !data.has(key)) {
+          return fail(404, "Key not found");
+        }
+        const result = applyValueOperation(
+          data.get(key),
+          envelope as KVValueOperation,
+        );
+        if (!result.ok) {
+          return {
+            status: 422,
+            body: {
+              success: false,
+              error: result.message,
+              operation: result.operation,
+            },
+          };
+        }
+        data.set(key, result.value);
+        return ok({ value: result.value });
+      }
+      case "values":
+        return ok({ values: Array.from(data.values()) });
+      case "entries": {
+        const result: { key: string; value: any }[] = [];
+        data.forEach((v, k) => {
+          result.push({ key: k, value: v });
+        });
+        return ok({ entries: result });
+      }
+      case "query": {
+        const entries: { key: string; value: any }[] = [];
+        data.forEach((v, k) => {
+          entries.push({ key: k, value: v });
+        });
+        return ok({
+          entries: runQuery(entries, {
+            prefix: envelope.prefix,
+            match: envelope.match,
+            where: envelope.where ?? [],
+            orderBy: envelope.orderBy ?? [],
+            select: envelope.select,
+            limit: envelope.limit,
+            offset: envelope.offset,
+          }),
+        });
+      }
+      case "clear":
+        data.clear();
+        return ok({ message: "Store cleared" });
+      default:
+        return fail(400, `Unknown action: ${envelope.action}`);
+    }
+  }
+
+  private register(envelope: Record<string, any>): MemoryResult {
+    const { username, email, password } = envelope;
+    if (!username || !password) {
+      return fail(400, "Username and password are required");
+    }
+    if (this.users.has(username)) return fail(409, "User already exists");
+
+    this.users.set(username, {
+      username,
+      email: email ?? "",
+      password,
+      databases: new Map(),
+    });
+    return ok({ message: "User registered" }, 201);
+  }
+
+  private login(envelope: Record<string, any>): MemoryResult {
+    const user = this.users.get(envelope.username);
+    if (!user || user.password !== envelope.password) {
+      return fail(401, "Invalid username or password");
+    }
+    return ok({ token: this.issueToken(user.username) });
+  }
+
+  private changePassword(
+    user: MemoryUser,
+    envelope: Record<string, any>,
+  ): MemoryResult {
+    if (user.password !== envelope.currentPassword) {
+      return fail(401, "Current password is incorrect");
+    }
+    if (!envelope.newPassword) return fail(400, "New password is required");
+    user.password = envelope.newPassword;
+    return ok({ message: "Password changed successfully" });
+  }
+
+  private deleteAccount(
+    user: MemoryUser,
+    envelope: Record<string, any>,
+  ): MemoryResult {
+    if (user.password !== envelope.password) {
+      return fail(401, "Password is incorrect");
+    }
+    if (envelope.confirmation !== "DELETE") {
+      return fail(400, 'Confirmation must be "DELETE"');
+    }
+
+    this.users.delete(user.username);
+    this.tokens.forEach((owner, token) => {
+      if (owner === user.username) this.tokens.delete(token);
+    });
+    return ok({ message: "Account deleted successfully" });
+  }
+
+  private createDatabase(user: MemoryUser, name: string): MemoryResult {
+    if (!name) return fail(400, "Database name is required");
+    if (user.databases.has(name)) return fail(409, "Database already exists");
+    user.databases.set(name, new Map());
+    return ok({ message: "Database created" });
+  }
+
+  private issueToken(username: string): string {
+    this.tokenCounter += 1;
+    const token = `memory-token-${this.tokenCounter}`;
+    this.tokens.set(token, username);
+    return token;
+  }
+}
+
+/** Builds a successful result */
+function ok(body: Record<string, any>, status = 200): MemoryResult {
+  return { status, body: { success: true, ...body } };
+}
+
+/** Builds a failed result */
+function fail(status: number, error: string): MemoryResult {
+  return { status, body: { success: false, error } };
+}
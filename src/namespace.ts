@@ -0,0 +1,232 @@
+import type {
+  APIResponse,
+  KVEntry,
+  KVKey,
+  KVSchema,
+  KVStoreClient,
+  KVValue,
+  KVWriteEntry,
+  ReadOptions,
+  RequestOptions,
+  WriteOptions,
+} from "./index";
+
+/**
+ * View of a store restricted to the keys starting with a prefix
+ *
+ * Keys passed to and returned by the view are relative to the prefix, which
+ * is added before and stripped after every request. Listing methods only
+ * return the keys of the namespace, and `clear` only deletes them.
+ *
+ * @example
+ * ```typescript
+ * const users = store.namespace<{ [id: string]: User }>('user:');
+ * await users.set('123', { name: 'Alice' }); // stored as "user:123"
+ * await users.keys(); // ['123']
+ * ```
+ */
+export class KVNamespace<Schema extends object = KVSchema> {
+  /** Store receiving the prefixed requests */
+  private readonly store: KVStoreClient<any>;
+  /** Prefix of every key of the namespace */
+  readonly prefix: string;
+
+  /**
+   * Creates a namespace view; use `store.namespace(prefix)` instead
+   *
+   * @param store - Store receiving the requests
+   * @param prefix - Prefix of every key of the namespace
+   */
+  constructor(store: KVStoreClient<any>, prefix: string) {
+    this.store = store;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Returns a view nested inside this namespace
+   *
+   * @param prefix - Prefix appended to this namespace's prefix
+   * @returns The nested namespace
+   *
+   * @example
+   * ```typescript
+   * const admins = store.namespace('user:').namespace('admin:'); // "user:admin:"
+   * ```
+   */
+  namespace<NestedSchema extends object = KVSchema>(
+    prefix: string,
+  ): KVNamespace<NestedSchema> {
+    return new KVNamespace<NestedSchema>(this.store, this.prefix + prefix);
+  }
+
+  /**
+   * Sets a key-value pair in the namespace
+   *
+   * @param key - The key, relative to the namespace
+   * @param value - The value to associate with the key
+   * @param options - Per-call signal, timeout and time to live
+   * @returns Promise resolving to set operation response
+   */
+  async set<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: WriteOptions,
+  ): Promise<APIResponse> {
+    return await this.store.set(this.prefix + key, value, options);
+  }
+
+  /**
+   * Retrieves a value by its key
+   *
+   * @param key - The key, relative to the namespace
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to the stored value
+   */
+  async get<K extends KVKey<Schema>>(
+    key: K,
+    options?: ReadOptions,
+  ): Promise<Schema[K]> {
+    return await this.store.get(this.prefix + key, options);
+  }
+
+  /**
+   * Sets multiple key-value pairs at once
+   *
+   * @param entries - Entries with keys relative to the namespace
+   * @param options - Per-call signal, timeout and time to live
+   * @returns Promise resolving to batch set response
+   */
+  async setMany(
+    entries: KVWriteEntry<Schema>[],
+    options?: WriteOptions,
+  ): Promise<APIResponse> {
+    return await this.store.setMany(
+      entries.map((entry) => ({
+        ...entry,
+        key: this.prefix + entry.key,
+      })),
+      options,
+    );
+  }
+
+  /**
+   * Retrieves multiple values by their keys
+   *
+   * @param keys - Keys relative to the namespace
+   * @param options - Per-call signal, timeout and cache settings
+   * @returns Promise resolving to values in key order, null for missing keys
+   */
+  async getMany<K extends KVKey<Schema>>(
+    keys: K[],
+    options?: ReadOptions,
+  ): Promise<(Schema[K] | null)[]> {
+    return await this.store.getMany(
+      keys.map((key) => this.prefix + key),
+      options,
+    );
+  }
+
+  /**
+   * Updates an existing key with a new value
+   *
+   * @param key - The key, relative to the namespace
+   * @param value - The new value
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to update response
+   */
+  async update<K extends KVKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this.store.update(this.prefix + key, value, options);
+  }
+
+  /**
+   * Deletes a key-value pair from the namespace
+   *
+   * @param key - The key, relative to the namespace
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to deletion response
+   */
+  async delete(
+    key: KVKey<Schema>,
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this.store.delete(this.prefix + key, options);
+  }
+
+  /**
+   * Deletes multiple keys at once
+   *
+   * @param keys - Keys relative to the namespace
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to batch deletion response
+   */
+  async deleteMany(
+    keys: KVKey<Schema>[],
+    options?: RequestOptions,
+  ): Promise<APIResponse> {
+    return await this.store.deleteMany(
+      keys.map((key) => this.prefix + key),
+      options,
+    );
+  }
+
+  /**
+   * Retrieves the keys of the namespace
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to keys relative to the namespace
+   */
+  async keys(options?: RequestOptions): Promise<KVKey<Schema>[]> {
+    const keys = await this.store.keys(options);
+    return keys
+      .filter((key) => key.indexOf(this.prefix) === 0)
+      .map((key) => key.slice(this.prefix.length) as KVKey<Schema>);
+  }
+
+  /**
+   * Retrieves the entries of the namespace
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to entries with keys relative to the namespace
+   */
+  async entries(options?: RequestOptions): Promise<KVEntry<Schema>[]> {
+    const keys = await this.keys(options);
+    if (keys.length === 0) return [];
+
+    // Read only this namespace's values rather than the whole store
+    const values = await this.getMany(keys, options);
+    const entries: KVEntry<Schema>[] = [];
+    keys.forEach((key, index) => {
+      // Skip keys deleted between the two requests
+      if (values[index] === null) return;
+      entries.push({ key, value: values[index] } as KVEntry<Schema>);
+    });
+    return entries;
+  }
+
+  /**
+   * Retrieves the values of the namespace
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the values of the namespace
+   */
+  async values(options?: RequestOptions): Promise<KVValue<Schema>[]> {
+    const entries = await this.entries(options);
+    return entries.map((entry) => entry.value);
+  }
+
+  /**
+   * Deletes every key of the namespace, leaving the rest of the store intact
+   *
+   * @param options - Per-call signal and timeout
+   * @returns Promise resolving to the batch deletion response
+   */
+  async clear(options?: RequestOptions): Promise<APIResponse> {
+    const keys = await this.keys(options);
+    if (keys.length === 0) return { success: true, count: 0 };
+    return await this.deleteMany(keys, options);
+  }
+}
@@ -0,0 +1,392 @@
+import {
+  KVStoreAbortError,
+  KVStoreAuthError,
+  KVStoreConflictError,
+  KVStoreError,
+  KVStoreNetworkError,
+  KVStoreRateLimitError,
+  KVStoreServerError,
+  KVStoreTimeoutError,
+} from "./errors";
+
+/**
+ * Write waiting in the offline queue
+ */
+export interface KVQueueItem {
+  /** Unique identifier of the item */
+  id: string;
+  /** Write action to send */
+  action: string;
+  /**
+   * Request parameters, including the target database and store; keys are
+   * named as stored, so they are encrypted with `deterministicKeys`
+   */
+  params: Record<string, any>;
+  /** Stored names of the keys written and their stored values, undefined for deletions */
+  entries: { key: string; value?: any }[];
+  /** Time the write was queued, in milliseconds since the epoch */
+  queuedAt: number;
+  /** Number of replays that failed with a transient error */
+  attempts: number;
+}
+
+/**
+ * Persistence of the offline queue; methods may return promises
+ *
+ * @example
+ * ```typescript
+ * const storage: KVQueueStorage = {
+ *   load: () => JSON.parse(localStorage.getItem('kv-queue') ?? '[]'),
+ *   save: (items) => localStorage.setItem('kv-queue', JSON.stringify(items)),
+ * };
+ * ```
+ */
+export interface KVQueueStorage {
+  /** Reads the queued items, oldest first */
+  load(): KVQueueItem[] | Promise<KVQueueItem[]>;
+  /** Replaces the queued items */
+  save(items: KVQueueItem[]): void | Promise<void>;
+}
+
+/**
+ * What to do with a queued write the server rejected with a conflict
+ * - `retry`: keep it and stop replaying until the next replay
+ * - `drop`: remove it and continue with the next write
+ */
+export type KVConflictResolution = "retry" | "drop";
+
+/**
+ * Offline queue settings
+ */
+export interface OfflineOptions {
+  /** Where queued writes are kept (default: in memory) */
+  storage?: KVQueueStorage;
+  /**
+   * Decides what happens to a write rejected with a conflict; without it,
+   * conflicts are permanent failures
+   */
+  onConflict?: (
+    item: KVQueueItem,
+    error: KVStoreConflictError,
+  ) => KVConflictResolution | Promise<KVConflictResolution>;
+  /** Called before dropping a write the server rejected for good */
+  onPermanentFailure?: (
+    item: KVQueueItem,
+    error: KVStoreError,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Outcome of a queue replay
+ */
+export interface KVReplayReport {
+  /** Writes sent successfully */
+  replayed: number;
+  /** Writes removed after a conflict or a permanent failure */
+  dropped: number;
+  /** Writes still waiting */
+  remaining: number;
+}
+
+/**
+ * Queue storage kept in memory, lost when the process exits
+ */
+export class MemoryQueueStorage implements KVQueueStorage {
+  /** Stored items */
+  private items: KVQueueItem[] = [];
+
+  load(): KVQueueItem[] {
+    return this.items.slice();
+  }
+
+  save(items: KVQueueItem[]): void {
+    this.items = items.slice();
+  }
+}
+
+/**
+ * Queue storage kept in a JSON file, for Node.js; the file is replaced
+ * atomically on every change
+ *
+ * @example
+ * ```typescript
+ * const store = new KVStore(apiUrl, {
+ *   ...options,
+ *   offline: { storage: new FileQueueStorage('./kv-queue.json') },
+ * });
+ * ```
+ */
+export class FileQueueStorage implements KVQueueStorage {
+  /** Path of the queue file */
+  readonly path: string;
+
+  /**
+   * Creates a file-backed queue storage
+   *
+   * @param path - Path of the queue file, created on the first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<KVQueueItem[]> {
+    const fs = await import("node:fs");
+    try {
+      return JSON.parse(await fs.promises.readFile(this.path, "utf8"));
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async save(items: KVQueueItem[]): Promise<void> {
+    const fs = await import("node:fs");
+    const temporary = `${this.path}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(items), "utf8");
+    await fs.promises.rename(temporary, this.path);
+  }
+}
+
+/**
+ * Tells whether an error means the server could not be reached
+ *
+ * @param error - Error thrown by a request
+ * @returns True for network failures; false for timeouts, since the server
+ * may have applied the write
+ */
+export function isOfflineError(error: unknown): boolean {
+  return (
+    error instanceof KVStoreNetworkError &&
+    !(error instanceof KVStoreTimeoutError)
+  );
+}
+
+/**
+ * Tells whether a replayed write may succeed later without changes
+ *
+ * @param error - Error thrown by the replay
+ * @returns True when the write should stay queued
+ */
+function isTransientError(error: unknown): boolean {
+  return (
+    !(error instanceof KVStoreError) ||
+    error instanceof KVStoreNetworkError ||
+    error instanceof KVStoreServerError ||
+    error instanceof KVStoreRateLimitError ||
+    error instanceof KVStoreAuthError ||
+    error instanceof KVStoreAbortError
+  );
+}
+
+/**
+ * Ordered queue of writes made while the server was unreachable
+ *
+ * Items are persisted through the configured storage after every change
+ * and replayed oldest first; a replay stops at the first write that fails
+ * with a transient error, so later writes never overtake earlier ones.
+ */
+export class KVWriteQueue {
+  /** Persistence of the items */
+  private readonly storage: KVQueueStorage;
+  /** Conflict and permanent failure hooks */
+  private readonly options: OfflineOptions;
+  /** Items in order, undefined until loaded from the storage */
+  private items?: KVQueueItem[];
+  /** Pending load of the items */
+  private loading?: Promise<KVQueueItem[]>;
+  /** Replay in progress, shared by concurrent callers */
+  private replaying?: Promise<KVReplayReport>;
+  /** Counter making item identifiers unique within the process */
+  private sequence = 0;
+
+  /**
+   * Creates a queue
+   *
+   * @param options - Storage and hooks
+   */
+  constructor(options: OfflineOptions = {}) {
+    this.storage = options.storage ?? new MemoryQueueStorage();
+    this.options = options;
+  }
+
+  /**
+   * Lists the queued writes
+   *
+   * @returns Copies of the items, oldest first
+   */
+  async list(): Promise<KVQueueItem[]> {
+    return (await this.load()).slice();
+  }
+
+  /**
+   * Counts the queued writes
+   *
+   * @returns Number of items
+   */
+  async size(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  /**
+   * Appends a write to the queue and persists it
+   *
+   * @param action - Write action
+   * @param params - Request parameters, including the target database and store
+   * @param entries - Keys written and their stored values
+   * @returns The queued item
+   */
+  async enqueue(
+    action: string,
+    params: Record<string, any>,
+    entries: { key: string; value?: any }[],
+  ): Promise<KVQueueItem> {
+    const items = await this.load();
+    this.sequence += 1;
+    const item: KVQueueItem = {
+      id: `${Date.now().toString(36)}-${this.sequence.toString(36)}`,
+      action,
+      params,
+      entries,
+      queuedAt: Date.now(),
+      attempts: 0,
+    };
+    items.push(item);
+    await this.storage.save(items);
+    return item;
+  }
+
+  /**
+   * Finds the latest queued write of a key
+   *
+   * @param dbName - Database of the key
+   * @param storeName - Store of the key
+   * @param key - The key
+   * @returns The pending stored value, `deleted` for a pending deletion, or
+   * undefined when no write of the key is queued
+   */
+  async lookup(
+    dbName: string,
+    storeName: string,
+    key: string,
+  ): Promise<{ value?: any; deleted: boolean } | undefined> {
+    const items = await this.load();
+    for (let i = items.length - 1; i >= 0; i--) {
+      const { params, entries } = items[i];
+      if (params.dbName !== dbName || params.storeName !== storeName) continue;
+      for (let j = entries.length - 1; j >= 0; j--) {
+        if (entries[j].key !== key) continue;
+        const { value } = entries[j];
+        return value === undefined
+          ? { deleted: true }
+          : { value, deleted: false };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the latest queued write of each key of a store
+   *
+   * @param dbName - Database of the keys
+   * @param storeName - Store of the keys
+   * @returns Pending stored values, undefined for pending deletions, in the
+   * order keys were first queued
+   */
+  async pending(
+    dbName: string,
+    storeName: string,
+  ): Promise<{ key: string; value?: any }[]> {
+    const latest = new Map<string, { key: string; value?: any }>();
+    for (const { params, entries } of await this.load()) {
+      if (params.dbName !== dbName || params.storeName !== storeName) continue;
+      for (const entry of entries) latest.set(entry.key, entry);
+    }
+    return Array.from(latest.values());
+  }
+
+  /**
+   * Sends the queued writes in order; concurrent calls share one replay
+   *
+   * @param send - Sends one write to the server
+   * @returns Counts of replayed, dropped and remaining writes
+   */
+  replay(
+    send: (item: KVQueueItem) => Promise<unknown>,
+  ): Promise<KVReplayReport> {
+    if (!this.replaying) {
+      const clear = () => {
+        this.replaying = undefined;
+      };
+      this.replaying = this.run(send);
+      this.replaying.then(clear, clear);
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Replays items until the queue is empty or a write must wait
+   *
+   * @private
+   * @param send - Sends one write to the server
+   * @returns Counts of replayed, dropped and remaining writes
+   */
+  private async run(
+    send: (item: KVQueueItem) => Promise<unknown>,
+  ): Promise<KVReplayReport> {
+    const items = await this.load();
+    const report = { replayed: 0, dropped: 0, remaining: 0 };
+
+    while (items.length > 0) {
+      const item = items[0];
+      try {
+        await send(item);
+        report.replayed++;
+      } catch (error) {
+        if (isTransientError(error)) {
+          item.attempts++;
+          await this.storage.save(items);
+          break;
+        }
+        if (error instanceof KVStoreConflictError && this.options.onConflict) {
+          const resolution = await this.options.onConflict(item, error);
+          if (resolution === "retry") {
+            item.attempts++;
+            await this.storage.save(items);
+            break;
+          }
+        } else {
+          await this.options.onPermanentFailure?.(item, error as KVStoreError);
+        }
+        report.dropped++;
+      }
+      items.shift();
+      await this.storage.save(items);
+    }
+
+    report.remaining = items.length;
+    return report;
+  }
+
+  /**
+   * Loads the items from the storage once
+   *
+   * @private
+   * @returns The live item list
+   */
+  private async load(): Promise<KVQueueItem[]> {
+    if (this.items) return this.items;
+    if (!this.loading) {
+      this.loading = Promise.resolve(this.storage.load()).then(
+        (items) => {
+          this.items = items.slice();
+          return this.items;
+        },
+        (error) => {
+          this.loading = undefined;
+          throw error;
+        },
+      );
+    }
+    return await this.loading;
+  }
+}
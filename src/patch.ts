@@ -0,0 +1,290 @@
+import { isDeepEqual } from "./sync";
+
+/**
+ * JSON Patch operation (RFC 6902); paths are JSON Pointers (RFC 6901)
+ */
+export type JSONPatchOperation =
+  | { op: "add"; path: string; value: any }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: any }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: any };
+
+/**
+ * Change applied to a stored value by a value helper; `action` is also the
+ * name of the server action, and the other properties its parameters
+ */
+export type KVValueOperation =
+  | { action: "increment"; by: number }
+  | { action: "push"; items: any[] }
+  | { action: "mergePatch"; patch: any }
+  | { action: "applyPatch"; operations: JSONPatchOperation[] };
+
+/**
+ * Outcome of a value operation
+ */
+export type KVPatchResult =
+  | { ok: true; value: any }
+  | { ok: false; message: string; operation?: number };
+
+/**
+ * Tells whether a value is a JSON object, as opposed to arrays, null and
+ * instances such as Dates
+ *
+ * @param value - Value to check
+ * @returns True for plain objects
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Copies the arrays and plain objects of a value, sharing other instances
+ *
+ * @param value - Value to copy
+ * @returns The copy
+ */
+function cloneValue(value: any): any {
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (!isPlainObject(value)) return value;
+  const copy: Record<string, any> = {};
+  for (const name of Object.keys(value)) copy[name] = cloneValue(value[name]);
+  return copy;
+}
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396): objects are merged recursively,
+ * null members are removed and any other patch replaces the target
+ *
+ * @param target - Current value, undefined when missing
+ * @param patch - The merge patch
+ * @returns The patched value; the target is left untouched
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isPlainObject(patch)) return cloneValue(patch);
+  const result: Record<string, any> = isPlainObject(target)
+    ? { ...target }
+    : {};
+  for (const name of Object.keys(patch)) {
+    if (patch[name] === null) delete result[name];
+    else result[name] = applyMergePatch(result[name], patch[name]);
+  }
+  return result;
+}
+
+/**
+ * Splits a JSON Pointer into its unescaped reference tokens
+ *
+ * @param pointer - The pointer, empty for the whole document
+ * @returns The tokens
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (typeof pointer !== "string" || pointer.charAt(0) !== "/") {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Converts a reference token into an array index
+ *
+ * @param token - The token
+ * @param length - Length of the array
+ * @param append - Whether the index may equal the length, or be `-`
+ * @returns The index
+ */
+function toIndex(token: string, length: number, append: boolean): number {
+  if (append && token === "-") return length;
+  const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : -1;
+  if (index < 0 || index > length || (!append && index === length)) {
+    throw new Error(`Index "${token}" is out of bounds`);
+  }
+  return index;
+}
+
+/**
+ * Tells whether an object or array has a member
+ *
+ * @param parent - The container
+ * @param token - Member name or index
+ * @returns True when the member exists
+ */
+function hasMember(parent: any, token: string): boolean {
+  if (Array.isArray(parent)) {
+    return /^(0|[1-9][0-9]*)$/.test(token) && Number(token) < parent.length;
+  }
+  return isPlainObject(parent) && Object.keys(parent).indexOf(token) !== -1;
+}
+
+/**
+ * Resolves the value a pointer refers to
+ *
+ * @param document - The document
+ * @param tokens - Tokens of the pointer
+ * @returns The referenced value
+ */
+function resolve(document: any, tokens: string[]): any {
+  let current = document;
+  for (const token of tokens) {
+    if (!hasMember(current, token)) {
+      throw new Error(`Path "/${tokens.join("/")}" does not exist`);
+    }
+    current = current[token as any];
+  }
+  return current;
+}
+
+/**
+ * Adds a value at a location, inserting into arrays
+ *
+ * @param document - The document, changed in place
+ * @param tokens - Tokens of the location
+ * @param value - The value to add
+ * @returns The document, or the value when it replaces the whole document
+ */
+function addValue(document: any, tokens: string[], value: any): any {
+  if (tokens.length === 0) return value;
+  const parent = resolve(document, tokens.slice(0, -1));
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(last, parent.length, true), 0, value);
+  } else if (isPlainObject(parent)) {
+    parent[last] = value;
+  } else {
+    throw new Error(`Cannot add a member to a ${typeof parent} value`);
+  }
+  return document;
+}
+
+/**
+ * Removes the value at a location
+ *
+ * @param document - The document, changed in place
+ * @param tokens - Tokens of the location
+ * @returns The document
+ */
+function removeValue(document: any, tokens: string[]): any {
+  if (tokens.length === 0) throw new Error("Cannot remove the whole document");
+  resolve(document, tokens);
+  const parent = resolve(document, tokens.slice(0, -1));
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(Number(last), 1);
+  else delete parent[last];
+  return document;
+}
+
+/**
+ * Applies one JSON Patch operation
+ *
+ * @param document - The document, changed in place
+ * @param operation - The operation
+ * @returns The patched document
+ */
+function applyOperation(document: any, operation: JSONPatchOperation): any {
+  const tokens = parsePointer(operation.path);
+  switch (operation.op) {
+    case "add":
+      return addValue(document, tokens, cloneValue(operation.value));
+    case "remove":
+      return removeValue(document, tokens);
+    case "replace":
+      resolve(document, tokens);
+      if (tokens.length === 0) return cloneValue(operation.value);
+      return addValue(
+        removeValue(document, tokens),
+        tokens,
+        cloneValue(operation.value),
+      );
+    case "move": {
+      const from = parsePointer(operation.from);
+      if (
+        tokens.length > from.length &&
+        from.every((token, index) => token === tokens[index])
+      ) {
+        throw new Error("Cannot move a value into one of its children");
+      }
+      const value = resolve(document, from);
+      return addValue(removeValue(document, from), tokens, value);
+    }
+    case "copy": {
+      const value = resolve(document, parsePointer(operation.from));
+      return addValue(document, tokens, cloneValue(value));
+    }
+    case "test":
+      if (!isDeepEqual(resolve(document, tokens), operation.value)) {
+        throw new Error(`Test of "${operation.path}" failed`);
+      }
+      return document;
+    default:
+      throw new Error(
+        `Unknown operation "${(operation as { op: string }).op}"`,
+      );
+  }
+}
+
+/**
+ * Applies a JSON Patch (RFC 6902); the patch fails as a whole when one of
+ * its operations fails
+ *
+ * @param document - Current value
+ * @param operations - Operations applied in order
+ * @returns The patched value, or the failed operation and why it failed
+ */
+export function applyJsonPatch(
+  document: any,
+  operations: JSONPatchOperation[],
+): KVPatchResult {
+  let result = cloneValue(document);
+  for (let i = 0; i < operations.length; i++) {
+    try {
+      result = applyOperation(result, operations[i]);
+    } catch (error) {
+      return {
+        ok: false,
+        message: `Operation ${i} failed: ${(error as Error).message}`,
+        operation: i,
+      };
+    }
+  }
+  return { ok: true, value: result };
+}
+
+/**
+ * Applies a value operation to the current value of a key
+ *
+ * @param current - Current value, undefined when the key is missing
+ * @param operation - The operation
+ * @returns The new value, or why the operation does not apply
+ */
+export function applyValueOperation(
+  current: any,
+  operation: KVValueOperation,
+): KVPatchResult {
+  switch (operation.action) {
+    case "increment": {
+      const value = current === undefined ? 0 : current;
+      if (typeof value !== "number" || typeof operation.by !== "number") {
+        return { ok: false, message: "Cannot increment a non-number value" };
+      }
+      return { ok: true, value: value + operation.by };
+    }
+    case "push": {
+      const value = current === undefined ? [] : current;
+      if (!Array.isArray(value)) {
+        return { ok: false, message: "Cannot push to a non-array value" };
+      }
+      return { ok: true, value: value.concat(cloneValue(operation.items)) };
+    }
+    case "mergePatch":
+      return { ok: true, value: applyMergePatch(current, operation.patch) };
+    case "applyPatch":
+      return applyJsonPatch(current, operation.operations);
+  }
+}
@@ -0,0 +1,482 @@
+import type { KVKey, KVSchema, KVValue, RequestOptions } from "./index";
+import { createKeyFilter, type IterateOptions } from "./scan";
+import { isDeepEqual } from "./sync";
+
+/**
+ * Comparison applied by a `where` condition: `in` tests membership in an
+ * array, `contains` tests an array item or a substring, `startsWith` a
+ * string prefix
+ */
+export type KVQueryOperator =
+  | "="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "in"
+  | "contains"
+  | "startsWith";
+
+/**
+ * Field of a value, by name or by dot-separated path
+ */
+export type KVQueryField<T> = T extends object
+  ? (keyof T & string) | `${keyof T & string}.${string}`
+  : string;
+
+/**
+ * Condition on a field of the values
+ */
+export interface KVQueryCondition {
+  /** Path of the field, with dots between nested properties */
+  field: string;
+  operator: KVQueryOperator;
+  value: unknown;
+}
+
+/**
+ * Sort order on a field of the values
+ */
+export interface KVQueryOrder {
+  /** Path of the field, with dots between nested properties */
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Description of a query, as sent to servers supporting the `query` action
+ */
+export interface KVQuerySpec {
+  /** Only keys starting with this prefix */
+  prefix?: string;
+  /** Only keys matching this glob */
+  match?: string;
+  /** Conditions every value must meet */
+  where: KVQueryCondition[];
+  /** Sort orders, by priority; entries are in key order otherwise */
+  orderBy: KVQueryOrder[];
+  /** Fields kept in the values returned, every field by default */
+  select?: string[];
+  /** Maximum number of entries returned */
+  limit?: number;
+  /** Number of matching entries skipped */
+  offset?: number;
+}
+
+/**
+ * Entry returned by a query
+ */
+export interface KVQueryResult<K extends string, T> {
+  key: K;
+  value: T;
+}
+
+/**
+ * Ways a query can be run, provided by the store
+ */
+export interface KVQueryRunner {
+  /** Runs the query on the server, undefined when the server cannot */
+  server?: (
+    spec: KVQuerySpec,
+    options?: RequestOptions,
+  ) => Promise<{ key: string; value: any }[]>;
+  /** Iterates over the entries passing key filters, page by page */
+  entries: (
+    query: IterateOptions,
+    options?: RequestOptions,
+  ) => AsyncIterable<{ key: string; value: any }>;
+}
+
+/**
+ * Reads a field of a value
+ *
+ * @param value - The value
+ * @param field - Path of the field, with dots between nested properties
+ * @returns The field, undefined when missing
+ */
+function readField(value: any, field: string): any {
+  let current = value;
+  for (const part of field.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Compares two field values of the same type; numbers, strings, booleans,
+ * Dates and BigInts are comparable
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns A negative number, zero or a positive number, or undefined when
+ * the values cannot be compared
+ */
+function compareValues(a: any, b: any): number | undefined {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  const type = typeof a;
+  if (
+    type !== typeof b ||
+    (type !== "number" &&
+      type !== "string" &&
+      type !== "boolean" &&
+      type !== "bigint")
+  ) {
+    return undefined;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Tests a value against one condition
+ *
+ * @param value - The value
+ * @param condition - The condition
+ * @returns True when the value meets it
+ */
+function meetsCondition(value: any, condition: KVQueryCondition): boolean {
+  const field = readField(value, condition.field);
+  const expected = condition.value;
+  switch (condition.operator) {
+    case "=":
+      return isDeepEqual(field, expected);
+    case "!=":
+      return !isDeepEqual(field, expected);
+    case "in":
+      return (
+        Array.isArray(expected) &&
+        expected.some((item) => isDeepEqual(field, item))
+      );
+    case "contains":
+      if (Array.isArray(field)) {
+        return field.some((item) => isDeepEqual(item, expected));
+      }
+      return (
+        typeof field === "string" &&
+        typeof expected === "string" &&
+        field.indexOf(expected) >= 0
+      );
+    case "startsWith":
+      return (
+        typeof field === "string" &&
+        typeof expected === "string" &&
+        field.indexOf(expected) === 0
+      );
+    default: {
+      const order = compareValues(field, expected);
+      if (order === undefined) return false;
+      if (condition.operator === ">") return order > 0;
+      if (condition.operator === ">=") return order >= 0;
+      if (condition.operator === "<") return order < 0;
+      return order <= 0;
+    }
+  }
+}
+
+/**
+ * Tests a value against every condition of a query
+ *
+ * @param value - The value
+ * @param where - The conditions
+ * @returns True when the value meets all of them
+ */
+export function matchesQuery(value: any, where: KVQueryCondition[]): boolean {
+  return where.every((condition) => meetsCondition(value, condition));
+}
+
+/**
+ * Compares two entries by sort orders; fields that are missing or cannot
+ * be compared sort last, and ties keep their order
+ *
+ * @param orderBy - Sort orders, by priority
+ * @returns Comparator for `Array.prototype.sort`
+ */
+export function compareEntries(
+  orderBy: KVQueryOrder[],
+): (a: { value: any }, b: { value: any }) => number {
+  return (a, b) => {
+    for (const { field, direction } of orderBy) {
+      const left = readField(a.value, field);
+      const right = readField(b.value, field);
+      let order = compareValues(left, right);
+      if (order === undefined) {
+        const leftMissing = left === null || left === undefined;
+        const rightMissing = right === null || right === undefined;
+        // Values of different types keep their order
+        if (leftMissing === rightMissing) continue;
+        return leftMissing ? 1 : -1;
+      }
+      if (direction === "desc") order = -order;
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Keeps the selected fields of a value; nested paths keep the objects
+ * leading to them
+ *
+ * @param value - The value
+ * @param select - Paths of the fields to keep, every field when undefined
+ * @returns The projected value
+ */
+export function projectValue(value: any, select?: string[]): any {
+  if (!select) return value;
+  const result: Record<string, any> = {};
+  for (const field of select) {
+    const selected = readField(value, field);
+    if (selected === undefined) continue;
+    const parts = field.split(".");
+    let target = result;
+    for (let i = 0; i < parts.length - 1; i++) {
+      if (target[parts[i]] === undefined) target[parts[i]] = {};
+      target = target[parts[i]];
+    }
+    target[parts[parts.length - 1]] = selected;
+  }
+  return result;
+}
+
+/**
+ * Runs a query over a list of entries, the way a server supporting the
+ * `query` action would
+ *
+ * @param entries - Every entry of the store
+ * @param spec - The query
+ * @returns The selected entries, sorted and projected
+ */
+export function runQuery<E extends { key: string; value: any }>(
+  entries: E[],
+  spec: KVQuerySpec,
+): { key: string; value: any }[] {
+  const passesKeys = createKeyFilter(spec);
+  const matching = entries
+    .filter((entry) => passesKeys(entry.key))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .filter((entry) => matchesQuery(entry.value, spec.where))
+    .sort(compareEntries(spec.orderBy));
+  const offset = Math.max(0, spec.offset ?? 0);
+  const end = spec.limit === undefined ? undefined : offset + spec.limit;
+  return matching.slice(offset, end).map((entry) => ({
+    key: entry.key,
+    value: projectValue(entry.value, spec.select),
+  }));
+}
+
+/**
+ * Fluent query over the entries of a store, created by `store.query()`
+ *
+ * Each method returns a new query, so a query can be reused and extended.
+ * With `capabilities.query` and values stored as plain JSON, the query is
+ * sent to the server as one `query` action. Otherwise entries are read page
+ * by page with `iterateEntries` and filtered on the client; without
+ * `orderBy`, iteration stops once `limit` entries matched.
+ *
+ * @example
+ * ```typescript
+ * const names = await store
+ *   .query<User>()
+ *   .prefix('user:')
+ *   .where('age', '>', 30)
+ *   .orderBy('name')
+ *   .select(['name'])
+ *   .limit(10)
+ *   .run();
+ * ```
+ */
+export class KVQuery<Schema extends object = KVSchema, T = KVValue<Schema>> {
+  /** Ways to run the query */
+  private readonly runner: KVQueryRunner;
+  /** The query so far */
+  private readonly spec: KVQuerySpec;
+
+  /**
+   * Creates a query; use `store.query()` instead
+   *
+   * @param runner - Ways to run the query
+   * @param spec - The query so far
+   */
+  constructor(
+    runner: KVQueryRunner,
+    spec: KVQuerySpec = { where: [], orderBy: [] },
+  ) {
+    this.runner = runner;
+    this.spec = spec;
+  }
+
+  /**
+   * Only keeps keys starting with a prefix
+   *
+   * @param prefix - The key prefix
+   * @returns The extended query
+   */
+  prefix(prefix: string): KVQuery<Schema, T> {
+    return this.extend({ prefix });
+  }
+
+  /**
+   * Only keeps keys matching a glob
+   *
+   * @param pattern - Glob where `*` matches any run of characters and `?` one character
+   * @returns The extended query
+   */
+  match(pattern: string): KVQuery<Schema, T> {
+    return this.extend({ match: pattern });
+  }
+
+  /**
+   * Adds a condition every value must meet
+   *
+   * @param field - Field to test, by name or dot-separated path
+   * @param operator - The comparison
+   * @param value - Value compared with the field
+   * @returns The extended query
+   */
+  where(
+    field: KVQueryField<T>,
+    operator: KVQueryOperator,
+    value: unknown,
+  ): KVQuery<Schema, T> {
+    return this.extend({
+      where: this.spec.where.concat({ field, operator, value }),
+    });
+  }
+
+  /**
+   * Adds a sort order, applied after those already added
+   *
+   * @param field - Field to sort on, by name or dot-separated path
+   * @param direction - Ascending (default) or descending
+   * @returns The extended query
+   */
+  orderBy(
+    field: KVQueryField<T>,
+    direction: "asc" | "desc" = "asc",
+  ): KVQuery<Schema, T> {
+    return this.extend({
+      orderBy: this.spec.orderBy.concat({ field, direction }),
+    });
+  }
+
+  /**
+   * Keeps only some fields of the values returned
+   *
+   * @param fields - Names of the fields to keep
+   * @returns The extended query, returning partial values
+   */
+  select<F extends keyof T & string>(fields: F[]): KVQuery<Schema, Pick<T, F>> {
+    return this.extend({ select: fields.slice() });
+  }
+
+  /**
+   * Limits the number of entries returned
+   *
+   * @param count - Maximum number of entries
+   * @returns The extended query
+   */
+  limit(count: number): KVQuery<Schema, T> {
+    return this.extend({ limit: Math.max(0, count) });
+  }
+
+  /**
+   * Skips the first matching entries
+   *
+   * @param count - Number of entries to skip
+   * @returns The extended query
+   */
+  offset(count: number): KVQuery<Schema, T> {
+    return this.extend({ offset: Math.max(0, count) });
+  }
+
+  /**
+   * Describes the query
+   *
+   * @returns A copy of the query description
+   */
+  toSpec(): KVQuerySpec {
+    return {
+      ...this.spec,
+      where: this.spec.where.slice(),
+      orderBy: this.spec.orderBy.slice(),
+    };
+  }
+
+  /**
+   * Runs the query
+   *
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Promise resolving to the matching entries
+   */
+  async run(
+    options?: RequestOptions,
+  ): Promise<KVQueryResult<KVKey<Schema>, T>[]> {
+    const results: KVQueryResult<KVKey<Schema>, T>[] = [];
+    for await (const result of this.stream(options)) results.push(result);
+    return results;
+  }
+
+  /**
+   * Runs the query, yielding entries as they are found; with `orderBy`,
+   * every match is read before the first one is yielded
+   *
+   * @param options - Per-call signal and timeout, applied to each request
+   * @returns Async iterator of the matching entries
+   */
+  async *stream(
+    options?: RequestOptions,
+  ): AsyncIterableIterator<KVQueryResult<KVKey<Schema>, T>> {
+    const spec = this.spec;
+    if (spec.limit === 0) return;
+    const server = this.runner.server;
+    if (server) {
+      for (const entry of await server(this.toSpec(), options)) {
+        yield entry as KVQueryResult<KVKey<Schema>, T>;
+      }
+      return;
+    }
+
+    const entries = this.runner.entries(
+      { prefix: spec.prefix, match: spec.match },
+      options,
+    );
+    if (spec.orderBy.length > 0) {
+      const matching: { key: string; value: any }[] = [];
+      for await (const entry of entries) {
+        if (matchesQuery(entry.value, spec.where)) matching.push(entry);
+      }
+      for (const entry of runQuery(matching, { ...spec, where: [] })) {
+        yield entry as KVQueryResult<KVKey<Schema>, T>;
+      }
+      return;
+    }
+
+    // Entries come in key order, so the query can stop at the limit
+    let skipped = 0;
+    let count = 0;
+    for await (const entry of entries) {
+      if (!matchesQuery(entry.value, spec.where)) continue;
+      if (skipped < (spec.offset ?? 0)) {
+        skipped++;
+        continue;
+      }
+      yield {
+        key: entry.key,
+        value: projectValue(entry.value, spec.select),
+      } as KVQueryResult<KVKey<Schema>, T>;
+      if (spec.limit !== undefined && ++count >= spec.limit) return;
+    }
+  }
+
+  /**
+   * Creates a query with changes to this one
+   *
+   * @private
+   * @param changes - Parts of the query to replace
+   * @returns The new query
+   */
+  private extend<U = T>(changes: Partial<KVQuerySpec>): KVQuery<Schema, U> {
+    return new KVQuery<Schema, U>(this.runner, { ...this.spec, ...changes });
+  }
+}
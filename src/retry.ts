@@ -0,0 +1,204 @@
+import { KVStoreError, KVStoreNetworkError } from "./errors";
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 200) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default 5000) */
+  maxDelayMs?: number;
+  /** Randomize backoff delays to avoid synchronized retries (default true) */
+  jitter?: boolean;
+  /** HTTP statuses treated as transient (default 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Wait for the delay requested through `Retry-After` when present (default true) */
+  respectRetryAfter?: boolean;
+  /** Also retry `set` and `setMany`, which may apply twice (default false) */
+  retryWrites?: boolean;
+  /** Also retry `clear` and the delete actions (default false) */
+  retryDestructive?: boolean;
+}
+
+/**
+ * Retry policy with every option filled in
+ */
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+/** Statuses retried when `retryOnStatus` is not given */
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** Actions without side effects, always retried */
+const READ_ACTIONS = [
+  "get",
+  "getMany",
+  "keys",
+  "values",
+  "entries",
+  "scan",
+  "query",
+];
+
+/** Actions retried only with `retryWrites` */
+const WRITE_ACTIONS = ["set", "setMany"];
+
+/** Actions retried only with `retryDestructive` */
+const DESTRUCTIVE_ACTIONS = [
+  "clear",
+  "delete",
+  "deleteMany",
+  "delete-store",
+  "delete-database",
+  "delete-account",
+];
+
+/**
+ * Fills in the defaults of a retry policy
+ *
+ * @param options - Policy from `KVStoreOptions.retry`; `true` enables the defaults
+ * @returns The resolved policy, or undefined when retries are disabled
+ */
+export function resolveRetryOptions(
+  options: RetryOptions | boolean | undefined,
+): ResolvedRetryOptions | undefined {
+  if (!options) return undefined;
+
+  const policy = options === true ? {} : options;
+  return {
+    maxAttempts: policy.maxAttempts ?? 3,
+    baseDelayMs: policy.baseDelayMs ?? 200,
+    maxDelayMs: policy.maxDelayMs ?? 5000,
+    jitter: policy.jitter ?? true,
+    retryOnStatus: policy.retryOnStatus ?? DEFAULT_RETRY_STATUSES,
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+    retryWrites: policy.retryWrites ?? false,
+    retryDestructive: policy.retryDestructive ?? false,
+  };
+}
+
+/**
+ * Checks whether an action may safely be sent more than once
+ *
+ * @param action - The API action
+ * @param policy - Resolved retry policy
+ * @returns True when the action can be retried under the policy
+ */
+export function isRetryableAction(
+  action: string,
+  policy: ResolvedRetryOptions,
+): boolean {
+  if (READ_ACTIONS.indexOf(action) !== -1) return true;
+  if (WRITE_ACTIONS.indexOf(action) !== -1) return policy.retryWrites;
+  if (DESTRUCTIVE_ACTIONS.indexOf(action) !== -1) {
+    return policy.retryDestructive;
+  }
+  return false;
+}
+
+/**
+ * Checks whether an error describes a transient failure
+ *
+ * @param error - Error thrown by a request attempt
+ * @param policy - Resolved retry policy
+ * @returns True for network failures and statuses listed in `retryOnStatus`
+ */
+export function isRetryableError(
+  error: unknown,
+  policy: ResolvedRetryOptions,
+): boolean {
+  if (error instanceof KVStoreNetworkError) return true;
+  if (error instanceof KVStoreError && error.status !== undefined) {
+    return policy.retryOnStatus.indexOf(error.status) !== -1;
+  }
+  return false;
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ *
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @param policy - Resolved retry policy
+ * @param error - Error thrown by the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: ResolvedRetryOptions,
+  error?: unknown,
+): number {
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  // "Full jitter": pick uniformly between zero and the backoff
+  const delay = policy.jitter ? Math.random() * backoff : backoff;
+
+  if (
+    policy.respectRetryAfter &&
+    error instanceof KVStoreError &&
+    error.retryAfterMs !== undefined
+  ) {
+    return Math.max(delay, error.retryAfterMs);
+  }
+  return delay;
+}
+
+/**
+ * Resolves after the given delay, or rejects as soon as the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @returns Promise rejecting with the signal's reason when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Races a promise against a signal, so callers are released even when the
+ * underlying operation ignores the signal
+ *
+ * @param promise - The operation to wait for
+ * @param signal - Optional signal that rejects the wait when aborted
+ * @returns Promise settling with the operation or the abort reason
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    if (signal.aborted) onAbort();
+    // Always observe the operation so a late rejection is never unhandled
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
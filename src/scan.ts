@@ -0,0 +1,99 @@
+/**
+ * Filters and position of a key scan
+ */
+export interface ScanOptions {
+  /** Only return keys starting with this prefix */
+  prefix?: string;
+  /** Only return keys matching this glob; `*` matches any run of characters, `?` a single one */
+  match?: string;
+  /** Maximum number of keys per page (default 100) */
+  limit?: number;
+  /** Cursor returned by the previous page; omit to start from the beginning */
+  cursor?: string | null;
+}
+
+/**
+ * Page of keys returned by a scan
+ */
+export interface ScanPage<K extends string = string> {
+  /** Keys of this page */
+  keys: K[];
+  /** Cursor of the next page, null when the scan is complete */
+  cursor: string | null;
+}
+
+/**
+ * Filters and page size of a key or entry iteration
+ */
+export interface IterateOptions {
+  /** Only return keys starting with this prefix */
+  prefix?: string;
+  /** Only return keys matching this glob */
+  match?: string;
+  /** Number of keys requested per page or `getMany` call (default 100) */
+  pageSize?: number;
+}
+
+/** Default number of keys per page */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Converts a glob into an anchored regular expression
+ *
+ * @param pattern - Glob where `*` matches any run of characters and `?` one character
+ * @returns The equivalent regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+    if (char === "*") source += "[\\s\\S]*";
+    else if (char === "?") source += "[\\s\\S]";
+    else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Builds a predicate testing keys against scan filters
+ *
+ * @param options - Prefix and glob filters
+ * @returns Predicate accepting the keys that pass every filter
+ */
+export function createKeyFilter(
+  options: Pick<ScanOptions, "prefix" | "match">,
+): (key: string) => boolean {
+  const { prefix } = options;
+  const pattern =
+    options.match !== undefined ? globToRegExp(options.match) : undefined;
+  return (key) =>
+    (prefix === undefined || key.indexOf(prefix) === 0) &&
+    (pattern === undefined || pattern.test(key));
+}
+
+/**
+ * Pages through a list of keys the way a server-side scan would: keys are
+ * sorted and the cursor is the last key returned, so pages stay consistent
+ * when keys are added or removed between calls
+ *
+ * @param keys - Every key of the store
+ * @param options - Filters, page size and cursor
+ * @returns The requested page
+ */
+export function scanKeys<K extends string>(
+  keys: K[],
+  options: ScanOptions = {},
+): ScanPage<K> {
+  const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+  const cursor = options.cursor;
+  const filter = createKeyFilter(options);
+  const matching = keys
+    .filter((key) => filter(key) && (!cursor || key > cursor))
+    .sort();
+
+  const page = matching.slice(0, limit);
+  return {
+    keys: page,
+    cursor: matching.length > limit ? page[page.length - 1] : null,
+  };
+}
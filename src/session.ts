@@ -0,0 +1,155 @@
+/**
+ * Returns the access token to use, e.g. from a secret manager or an OAuth
+ * flow; it is called again to obtain a fresh token after a 401 response
+ */
+export type KVTokenProvider = () => string | Promise<string>;
+
+/**
+ * Why the access token changed
+ * - `provider`: first token obtained from the token provider
+ * - `login`: token adopted from a `login` or `generateToken` response
+ * - `refresh`: token renewed after a 401 response or through `refreshToken`
+ * - `manual`: token set through `setAccessToken`
+ */
+export type KVTokenChangeReason = "provider" | "login" | "refresh" | "manual";
+
+/**
+ * Event emitted when the access token changes
+ */
+export interface KVTokenChangeEvent {
+  /** The new token, undefined when it was cleared */
+  token: string | undefined;
+  /** The token used until now */
+  previousToken: string | undefined;
+  /** Why the token changed */
+  reason: KVTokenChangeReason;
+}
+
+/**
+ * Listener notified of access token changes
+ */
+export type KVTokenListener = (event: KVTokenChangeEvent) => void;
+
+/**
+ * Holds the access token of a client, loading it from a provider when
+ * needed and sharing in-flight loads between concurrent callers
+ */
+export class KVSession {
+  /** Current token, undefined until known */
+  private token?: string;
+  /** Source of tokens, undefined for a static token */
+  private readonly provider?: KVTokenProvider;
+  /** In-flight token load or refresh, shared by concurrent callers */
+  private pending?: Promise<string>;
+  /** Registered token change listeners */
+  private readonly listeners: KVTokenListener[] = [];
+
+  /**
+   * Creates a session
+   *
+   * @param accessToken - Static token or token provider
+   */
+  constructor(accessToken?: string | KVTokenProvider) {
+    if (typeof accessToken === "function") this.provider = accessToken;
+    else this.token = accessToken;
+  }
+
+  /** Current token, undefined until known */
+  get current(): string | undefined {
+    return this.token;
+  }
+
+  /** Whether tokens come from a provider */
+  get hasProvider(): boolean {
+    return this.provider !== undefined;
+  }
+
+  /**
+   * Returns the current token, asking the provider for one when unknown
+   *
+   * @returns The token, or undefined when none is configured
+   */
+  async getToken(): Promise<string | undefined> {
+    if (this.token !== undefined || !this.provider) return this.token;
+    return await this.load(this.provider, "provider");
+  }
+
+  /**
+   * Replaces the token and notifies listeners when it changed
+   *
+   * @param token - The new token
+   * @param reason - Why the token changed
+   */
+  setToken(token: string | undefined, reason: KVTokenChangeReason): void {
+    const previousToken = this.token;
+    this.token = token;
+    if (token === previousToken) return;
+
+    for (const listener of this.listeners.slice()) {
+      try {
+        listener({ token, previousToken, reason });
+      } catch {
+        // A failing listener must not break the request that changed the token
+      }
+    }
+  }
+
+  /**
+   * Obtains a fresh token from the provider, or from the fallback when there
+   * is none, unless the token that failed was already replaced
+   *
+   * @param staleToken - The token that was rejected
+   * @param fallback - Fetches a new token when there is no provider
+   * @returns The token to use from now on
+   */
+  async refresh(
+    staleToken: string | undefined,
+    fallback: () => Promise<string>,
+  ): Promise<string> {
+    if (this.pending) return await this.pending;
+    if (this.token !== undefined && this.token !== staleToken) {
+      return this.token;
+    }
+    return await this.load(this.provider ?? fallback, "refresh");
+  }
+
+  /**
+   * Registers a token change listener
+   *
+   * @param listener - Called with every token change
+   * @returns Function removing the listener
+   */
+  onTokenChange(listener: KVTokenListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Runs a token load, or joins the one in flight
+   */
+  private load(
+    fetchToken: () => string | Promise<string>,
+    reason: KVTokenChangeReason,
+  ): Promise<string> {
+    if (!this.pending) {
+      const pending = Promise.resolve()
+        .then(fetchToken)
+        .then(
+          (token) => {
+            this.pending = undefined;
+            this.setToken(token, reason);
+            return token;
+          },
+          (error) => {
+            this.pending = undefined;
+            throw error;
+          },
+        );
+      this.pending = pending;
+    }
+    return this.pending;
+  }
+}
@@ -0,0 +1,297 @@
+import type { KVEntry, KVStoreClient, RequestOptions } from "./index";
+import { DEFAULT_PAGE_SIZE } from "./scan";
+
+/**
+ * Keys compared by a diff and chunk size of the comparison
+ */
+export interface DiffOptions {
+  /** Only compare keys starting with this prefix */
+  prefix?: string;
+  /** Only compare keys matching this glob */
+  match?: string;
+  /** Number of keys read per `getMany` call and written per batch (default 100) */
+  chunkSize?: number;
+}
+
+/**
+ * Differences between a source and a target store
+ */
+export interface DiffReport {
+  /** Keys only present in the source */
+  added: string[];
+  /** Keys only present in the target */
+  removed: string[];
+  /** Keys present in both stores with different values */
+  changed: string[];
+  /** Number of keys present in both stores with equal values */
+  unchanged: number;
+}
+
+/**
+ * Sync settings
+ */
+export interface SyncOptions extends DiffOptions {
+  /** Delete the keys only present in the target (default false) */
+  deleteExtraneous?: boolean;
+  /** Report the changes without writing anything (default false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface SyncReport extends DiffReport {
+  /** Number of keys written to the target */
+  written: number;
+  /** Number of keys deleted from the target */
+  deleted: number;
+  /** Whether the changes were only reported */
+  dryRun: boolean;
+}
+
+/**
+ * Compares two values structurally, including the types restored by codecs
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether both values hold the same data
+ */
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return (
+      typeof a === "number" &&
+      typeof b === "number" &&
+      Number.isNaN(a) &&
+      Number.isNaN(b)
+    );
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+  if (a instanceof Map || a instanceof Set) {
+    if (a.size !== b.size) return false;
+    return isDeepEqual(Array.from(a), Array.from(b));
+  }
+  if (ArrayBuffer.isView(a)) {
+    return isDeepEqual(
+      Array.from(a as Uint8Array),
+      Array.from(b as Uint8Array),
+    );
+  }
+  if (Array.isArray(a)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => isDeepEqual(item, b[index]))
+    );
+  }
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+  );
+}
+
+/**
+ * Walks the sorted keys of two stores side by side
+ *
+ * @param source - Store providing the expected keys
+ * @param target - Store being compared
+ * @param query - Key filters and page size
+ * @param options - Per-call signal and timeout
+ * @returns Async iterator of keys and the stores holding them
+ */
+async function* mergeKeys(
+  source: KVStoreClient<any>,
+  target: KVStoreClient<any>,
+  query: DiffOptions,
+  options?: RequestOptions,
+): AsyncIterableIterator<{
+  key: string;
+  inSource: boolean;
+  inTarget: boolean;
+}> {
+  const filters = {
+    prefix: query.prefix,
+    match: query.match,
+    pageSize: query.chunkSize,
+  };
+  const left = source.iterateKeys(filters, options);
+  const right = target.iterateKeys(filters, options);
+  let a = await left.next();
+  let b = await right.next();
+
+  while (!a.done || !b.done) {
+    if (b.done || (!a.done && a.value < b.value)) {
+      yield { key: a.value, inSource: true, inTarget: false };
+      a = await left.next();
+    } else if (a.done || b.value < a.value) {
+      yield { key: b.value, inSource: false, inTarget: true };
+      b = await right.next();
+    } else {
+      yield { key: a.value, inSource: true, inTarget: true };
+      a = await left.next();
+      b = await right.next();
+    }
+  }
+}
+
+/**
+ * Compares the stores chunk by chunk and hands each chunk's changes over
+ *
+ * @param source - Store providing the expected data
+ * @param target - Store being compared
+ * @param query - Key filters and chunk size
+ * @param options - Per-call signal and timeout
+ * @param onChunk - Receives the entries to write and keys to delete per chunk
+ * @returns The differences found
+ */
+async function compareStores(
+  source: KVStoreClient<any>,
+  target: KVStoreClient<any>,
+  query: DiffOptions,
+  options: RequestOptions | undefined,
+  onChunk: (writes: KVEntry<any>[], removed: string[]) => Promise<void>,
+): Promise<DiffReport> {
+  const chunkSize = Math.max(1, query.chunkSize ?? DEFAULT_PAGE_SIZE);
+  const report: DiffReport = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+  };
+  let sourceKeys: string[] = [];
+  let sharedKeys: string[] = [];
+  let targetKeys: string[] = [];
+
+  const flush = async () => {
+    const [sourceValues, targetValues] = await Promise.all([
+      sourceKeys.length > 0
+        ? source.getMany(sourceKeys, options)
+        : Promise.resolve([]),
+      sharedKeys.length > 0
+        ? target.getMany(sharedKeys, options)
+        : Promise.resolve([]),
+    ]);
+    const shared = new Map<string, any>();
+    sharedKeys.forEach((key, index) => {
+      shared.set(key, targetValues[index]);
+    });
+
+    const writes: KVEntry<any>[] = [];
+    const removed = targetKeys.slice();
+    sourceKeys.forEach((key, index) => {
+      const value = sourceValues[index];
+      const current = shared.get(key);
+      // Keys deleted since they were listed count as missing
+      if (value === null || value === undefined) {
+        if (current !== null && current !== undefined) removed.push(key);
+      } else if (current === null || current === undefined) {
+        report.added.push(key);
+        writes.push({ key, value });
+      } else if (!isDeepEqual(value, current)) {
+        report.changed.push(key);
+        writes.push({ key, value });
+      } else {
+        report.unchanged++;
+      }
+    });
+    report.removed.push(...removed);
+
+    sourceKeys = [];
+    sharedKeys = [];
+    targetKeys = [];
+    await onChunk(writes, removed);
+  };
+
+  for await (const { key, inSource, inTarget } of mergeKeys(
+    source,
+    target,
+    query,
+    options,
+  )) {
+    if (inSource) sourceKeys.push(key);
+    if (inSource && inTarget) sharedKeys.push(key);
+    if (!inSource) targetKeys.push(key);
+    if (sourceKeys.length + targetKeys.length >= chunkSize) await flush();
+  }
+  if (sourceKeys.length + targetKeys.length > 0) await flush();
+  return report;
+}
+
+/**
+ * Compares the entries of two stores, which may live on different servers
+ * and use different credentials. Keys are walked in order and values read
+ * with one `getMany` call per chunk on each side
+ *
+ * @param source - Store providing the expected data
+ * @param target - Store being compared
+ * @param query - Key filters and chunk size
+ * @param options - Per-call signal and timeout, applied to each request
+ * @returns Keys added, removed and changed in the source relative to the target
+ *
+ * @example
+ * ```typescript
+ * const report = await diff(staging, production, { prefix: 'config:' });
+ * console.log(report.added, report.removed, report.changed);
+ * ```
+ */
+export async function diff(
+  source: KVStoreClient<any>,
+  target: KVStoreClient<any>,
+  query: DiffOptions = {},
+  options?: RequestOptions,
+): Promise<DiffReport> {
+  return await compareStores(source, target, query, options, async () => {});
+}
+
+/**
+ * Makes the target store match the source, writing added and changed keys
+ * with one `setMany` call per chunk and, with `deleteExtraneous`, deleting
+ * keys missing from the source with `deleteMany`. Chunks written before a
+ * failure stay written
+ *
+ * @param source - Store providing the expected data
+ * @param target - Store being updated
+ * @param query - Key filters, chunk size, deletion and dry run settings
+ * @param options - Per-call signal and timeout, applied to each request
+ * @returns The differences found and the number of keys written and deleted
+ *
+ * @example
+ * ```typescript
+ * const plan = await sync(staging, production, { deleteExtraneous: true, dryRun: true });
+ * if (plan.removed.length < 10) await sync(staging, production, { deleteExtraneous: true });
+ * ```
+ */
+export async function sync(
+  source: KVStoreClient<any>,
+  target: KVStoreClient<any>,
+  query: SyncOptions = {},
+  options?: RequestOptions,
+): Promise<SyncReport> {
+  const dryRun = query.dryRun ?? false;
+  const deleteExtraneous = query.deleteExtraneous ?? false;
+  let written = 0;
+  let deleted = 0;
+
+  const report = await compareStores(
+    source,
+    target,
+    query,
+    options,
+    async (writes, removed) => {
+      if (dryRun) return;
+      if (writes.length > 0) {
+        await target.setMany(writes, options);
+        written += writes.length;
+      }
+      if (deleteExtraneous && removed.length > 0) {
+        await target.deleteMany(removed, options);
+        deleted += removed.length;
+      }
+    },
+  );
+  return { ...report, written, deleted, dryRun };
+}
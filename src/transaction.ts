@@ -0,0 +1,138 @@
+import { KVStoreNotFoundError } from "./errors";
+import type { KVKey, KVSchema } from "./index";
+
+/**
+ * Write buffered by a transaction; `update` requires the key to exist
+ */
+export type KVTransactionOperation =
+  | { type: "set" | "update"; key: string; value: any }
+  | { type: "delete"; key: string };
+
+/**
+ * Outcome of a committed transaction
+ */
+export interface KVTransactionResult<T> {
+  /** Value returned by the transaction callback */
+  value: T;
+  /** Keys written by the commit */
+  written: string[];
+  /** Keys deleted by the commit */
+  deleted: string[];
+}
+
+/**
+ * Buffer of the writes made inside `store.transaction()`
+ *
+ * Writes are kept in memory until the callback returns, then committed as
+ * one `setMany` plus one `deleteMany` call. Reads see the buffered writes
+ * and fall through to the store for other keys.
+ *
+ * @example
+ * ```typescript
+ * await store.transaction(async (tx) => {
+ *   const from = await tx.get('account:1');
+ *   tx.update('account:1', { balance: from.balance - 10 });
+ *   tx.set('transfer:42', { from: 'account:1', amount: 10 });
+ * });
+ * ```
+ */
+export class KVTransaction<Schema extends object = KVSchema> {
+  /** Buffered writes by key, in the order keys were first written */
+  private readonly operations = new Map<string, KVTransactionOperation>();
+  /** Reads a key from the store */
+  private readonly read: (key: string) => Promise<any>;
+  /** Database and store of the transaction, for error reporting */
+  private readonly target: { dbName: string; storeName: string };
+
+  /**
+   * Creates a transaction buffer; use `store.transaction()` instead
+   *
+   * @param read - Reads a key from the store, throwing when it is missing
+   * @param target - Database and store of the transaction
+   */
+  constructor(
+    read: (key: string) => Promise<any>,
+    target: { dbName: string; storeName: string },
+  ) {
+    this.read = read;
+    this.target = target;
+  }
+
+  /**
+   * Retrieves a value, as written in this transaction or else from the store
+   *
+   * @param key - The key to retrieve
+   * @returns Promise resolving to the value
+   * @throws KVStoreNotFoundError when the key is missing or deleted in this transaction
+   */
+  async get<K extends KVKey<Schema>>(key: K): Promise<Schema[K]> {
+    const operation = this.operations.get(key);
+    if (!operation) return await this.read(key);
+    if (operation.type === "delete") throw this.notFound("get", key);
+    return operation.value;
+  }
+
+  /**
+   * Buffers a write of a key
+   *
+   * @param key - The key to set
+   * @param value - The value to store
+   * @returns The transaction, for chaining
+   */
+  set<K extends KVKey<Schema>>(key: K, value: Schema[K]): this {
+    this.operations.set(key, { type: "set", key, value });
+    return this;
+  }
+
+  /**
+   * Buffers a write of a key that must already exist; the commit fails
+   * without writing anything when it does not
+   *
+   * @param key - The key to update
+   * @param value - The new value
+   * @returns The transaction, for chaining
+   * @throws KVStoreNotFoundError when the key was deleted in this transaction
+   */
+  update<K extends KVKey<Schema>>(key: K, value: Schema[K]): this {
+    const previous = this.operations.get(key);
+    if (previous?.type === "delete") throw this.notFound("update", key);
+    const type = previous ? previous.type : "update";
+    this.operations.set(key, { type, key, value });
+    return this;
+  }
+
+  /**
+   * Buffers the deletion of a key
+   *
+   * @param key - The key to delete
+   * @returns The transaction, for chaining
+   */
+  delete(key: KVKey<Schema>): this {
+    this.operations.set(key, { type: "delete", key });
+    return this;
+  }
+
+  /**
+   * Lists the buffered writes, one per key
+   *
+   * @returns Writes in the order keys were first written
+   */
+  getOperations(): KVTransactionOperation[] {
+    return Array.from(this.operations.values());
+  }
+
+  /**
+   * Builds the error for a key deleted earlier in the transaction
+   *
+   * @private
+   * @param action - Operation that needed the key
+   * @param key - The missing key
+   * @returns The error to throw
+   */
+  private notFound(action: string, key: string): KVStoreNotFoundError {
+    return new KVStoreNotFoundError(
+      `Key "${key}" was deleted in this transaction`,
+      { action, ...this.target, status: 404 },
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { KVStoreError, KVStoreNetworkError } from "./errors";
+
+/**
+ * Body sent with every API request
+ */
+export interface KVRequestEnvelope {
+  /** The action to perform */
+  action: string;
+  /** Database the action targets */
+  dbName: string;
+  /** Store the action targets */
+  storeName: string;
+  /** Action specific parameters */
+  [key: string]: any;
+}
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface KVRequest {
+  /** API endpoint URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** HTTP headers, including `Authorization` */
+  headers: Record<string, string>;
+  /** Structured request body, serialized to JSON by the transport */
+  envelope: KVRequestEnvelope;
+  /** Signal aborting the request, when a timeout or signal is in effect */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response as seen by middleware
+ */
+export interface KVResponse<T = any> {
+  /** HTTP status code */
+  status: number;
+  /** Whether the status is in the 2xx range */
+  ok: boolean;
+  /** Response headers, when the transport exposes them */
+  headers?: { get(name: string): string | null };
+  /** Parsed JSON body; empty when an error response was not JSON */
+  body: T;
+  /** The request that produced this response */
+  request: KVRequest;
+}
+
+/**
+ * Sends a request to the next middleware, or to the transport
+ */
+export type KVNext = (request: KVRequest) => Promise<KVResponse>;
+
+/**
+ * Middleware wrapping every request; it may change the request before
+ * calling `next` and inspect or replace the response it returns
+ *
+ * @example
+ * ```typescript
+ * const tenant: KVMiddleware = async (request, next) => {
+ *   request.headers['X-Tenant-Id'] = 'acme';
+ *   const response = await next(request);
+ *   console.log(request.envelope.action, response.status);
+ *   return response;
+ * };
+ * ```
+ */
+export type KVMiddleware = (
+  request: KVRequest,
+  next: KVNext,
+) => Promise<KVResponse>;
+
+/**
+ * Minimal response shape returned by a {@link FetchLike}
+ */
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  headers?: { get(name: string): string | null };
+  json(): Promise<any>;
+}
+
+/**
+ * Minimal `fetch` signature used by the client
+ */
+export type FetchLike = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body: string;
+    signal?: AbortSignal;
+  },
+) => Promise<FetchResponseLike>;
+
+/**
+ * Creates the innermost handler, sending requests with the given fetch
+ *
+ * @param getFetch - Returns the fetch implementation to use for each request
+ * @returns Handler turning a request into a parsed response
+ * @throws KVStoreNetworkError when fetch rejects
+ * @throws KVStoreError when a successful response is not valid JSON
+ */
+export function createFetchTransport(getFetch: () => FetchLike): KVNext {
+  return async (request) => {
+    const { envelope } = request;
+    const context = {
+      action: envelope.action,
+      dbName: envelope.dbName,
+      storeName: envelope.storeName,
+    };
+    const fetchImpl = getFetch();
+
+    let response: FetchResponseLike;
+    try {
+      response = await fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: JSON.stringify(envelope),
+        ...(request.signal && { signal: request.signal }),
+      });
+    } catch (error) {
+      throw new KVStoreNetworkError(
+        error instanceof Error ? error.message : "Network request failed",
+        { ...context, cause: error },
+      );
+    }
+
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (error) {
+      if (response.ok || request.signal?.aborted) {
+        throw new KVStoreError("Invalid JSON response", {
+          ...context,
+          status: response.status,
+          cause: error,
+        });
+      }
+      // Error pages from proxies are often not JSON; fall back to the status
+      body = {};
+    }
+
+    return {
+      status: response.status,
+      ok: response.ok,
+      headers: response.headers,
+      body,
+      request,
+    };
+  };
+}
+
+/**
+ * Chains middleware in front of a handler; the first middleware runs first
+ *
+ * @param middleware - Ordered middleware list, read on every call
+ * @param handler - Innermost handler, usually the fetch transport
+ * @returns Handler running the whole chain
+ */
+export function composeMiddleware(
+  middleware: KVMiddleware[],
+  handler: KVNext,
+): KVNext {
+  return (request) => {
+    const dispatch = (
+      index: number,
+      current: KVRequest,
+    ): Promise<KVResponse> => {
+      if (index >= middleware.length) return handler(current);
+      return middleware[index](current, (next) => dispatch(index + 1, next));
+    };
+    return dispatch(0, request);
+  };
+}
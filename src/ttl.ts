@@ -0,0 +1,47 @@
+/** Property holding the expiry time of an expiring envelope */
+const EXPIRY_PROP = "$kvExpiresAt";
+
+/**
+ * Wraps stored data into an envelope carrying its expiry time
+ *
+ * @param data - Data sent to the server
+ * @param expiresAt - Expiry time, in milliseconds since the epoch
+ * @returns The envelope
+ */
+export function wrapExpiry(data: any, expiresAt: number): Record<string, any> {
+  return { [EXPIRY_PROP]: expiresAt, v: data };
+}
+
+/**
+ * Splits an expiring envelope into its data and expiry time; other values
+ * are returned as they are and never expire
+ *
+ * @param stored - Data returned by the server
+ * @returns The wrapped data and its expiry time, null when it never expires
+ */
+export function unwrapExpiry(stored: any): {
+  data: any;
+  expiresAt: number | null;
+} {
+  if (
+    stored !== null &&
+    typeof stored === "object" &&
+    typeof stored[EXPIRY_PROP] === "number" &&
+    "v" in stored
+  ) {
+    return { data: stored.v, expiresAt: stored[EXPIRY_PROP] };
+  }
+  return { data: stored, expiresAt: null };
+}
+
+/**
+ * Tells whether stored data has expired
+ *
+ * @param stored - Data returned by the server
+ * @param now - Current time, in milliseconds since the epoch
+ * @returns True when the data carries an expiry time that has passed
+ */
+export function isExpired(stored: any, now: number = Date.now()): boolean {
+  const { expiresAt } = unwrapExpiry(stored);
+  return expiresAt !== null && expiresAt <= now;
+}
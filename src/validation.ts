@@ -0,0 +1,134 @@
+/**
+ * Issue reported by a failed validation
+ */
+export interface KVValidationIssue {
+  /** Human readable description of the problem */
+  message: string;
+  /** Location of the problem inside the value, when known */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+/**
+ * Schema following the Standard Schema interface (valibot, arktype, zod 3.24+)
+ */
+export interface StandardSchemaLike<T = unknown> {
+  readonly "~standard": {
+    validate(
+      value: unknown,
+    ): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<KVValidationIssue> };
+
+/**
+ * Schema exposing a `parse` method that throws on invalid input (zod, yup-like)
+ */
+export interface ParseSchemaLike<T = unknown> {
+  parse(value: unknown): T;
+}
+
+/**
+ * Validator accepted by the client
+ */
+export type KVValidator<T = unknown> =
+  | StandardSchemaLike<T>
+  | ParseSchemaLike<T>;
+
+/**
+ * Runtime validation settings
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const validation: ValidationOptions = {
+ *   validators: { 'user:': z.object({ name: z.string() }) },
+ *   validateOnRead: true,
+ * };
+ * ```
+ */
+export interface ValidationOptions {
+  /** Validators by key prefix; the longest matching prefix wins */
+  validators: Record<string, KVValidator>;
+  /** Also validate values returned by `get`, `getMany` and `entries` (default false) */
+  validateOnRead?: boolean;
+}
+
+/**
+ * Outcome of running a validator
+ */
+export type KVValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; issues: KVValidationIssue[] };
+
+/**
+ * Finds the validator registered for the longest prefix of a key
+ *
+ * @param validators - Validators by key prefix
+ * @param key - The key being read or written
+ * @returns The matching validator, or undefined when none applies
+ */
+export function findValidator(
+  validators: Record<string, KVValidator>,
+  key: string,
+): KVValidator | undefined {
+  let match: string | undefined;
+  for (const prefix of Object.keys(validators)) {
+    if (
+      key.indexOf(prefix) === 0 &&
+      (match === undefined || prefix.length > match.length)
+    ) {
+      match = prefix;
+    }
+  }
+  return match === undefined ? undefined : validators[match];
+}
+
+/**
+ * Runs a validator against a value
+ *
+ * @param validator - Standard Schema or parse-style validator
+ * @param value - The value to check
+ * @returns The (possibly transformed) value, or the issues found
+ */
+export async function runValidator(
+  validator: KVValidator,
+  value: unknown,
+): Promise<KVValidationResult> {
+  if ("~standard" in validator) {
+    const result = await validator["~standard"].validate(value);
+    if (result.issues) {
+      return { valid: false, issues: result.issues.slice() };
+    }
+    return { valid: true, value: result.value };
+  }
+
+  try {
+    return { valid: true, value: validator.parse(value) };
+  } catch (error) {
+    return { valid: false, issues: toIssues(error) };
+  }
+}
+
+/**
+ * Extracts issues from an error thrown by a parse-style validator
+ *
+ * @param error - The thrown error
+ * @returns Issues listed by the error, or a single issue with its message
+ */
+function toIssues(error: unknown): KVValidationIssue[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues)) {
+    return issues.map((issue) => ({
+      message: String(issue?.message ?? issue),
+      ...(issue?.path && { path: issue.path }),
+    }));
+  }
+  return [{ message: error instanceof Error ? error.message : String(error) }];
+}
@@ -0,0 +1,67 @@
+import type { RequestOptions } from "./index";
+
+/** Property holding the version of a versioned envelope */
+const VERSION_PROP = "$kvVersion";
+
+/**
+ * Value read together with the version it was written with
+ */
+export interface KVVersioned<T> {
+  /** The stored value */
+  value: T;
+  /**
+   * Version written with the value; null for values written before
+   * versioning was enabled
+   */
+  version: string | null;
+}
+
+/**
+ * Settings of `modify`
+ */
+export interface ModifyOptions extends RequestOptions {
+  /** Attempts made after a version conflict before giving up (default 3) */
+  retries?: number;
+}
+
+/**
+ * Generates a new opaque version identifier
+ *
+ * @returns A version unlikely to be generated twice
+ */
+export function createVersion(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Wraps stored data into a versioned envelope
+ *
+ * @param data - Data sent to the server
+ * @param version - Version of this write
+ * @returns The envelope
+ */
+export function wrapVersion(data: any, version: string): Record<string, any> {
+  return { [VERSION_PROP]: version, v: data };
+}
+
+/**
+ * Splits a versioned envelope into its data and version; other values are
+ * returned as they are with a null version
+ *
+ * @param stored - Data returned by the server
+ * @returns The wrapped data and its version
+ */
+export function unwrapVersion(stored: any): {
+  data: any;
+  version: string | null;
+} {
+  if (
+    stored !== null &&
+    typeof stored === "object" &&
+    typeof stored[VERSION_PROP] === "string" &&
+    "v" in stored
+  ) {
+    return { data: stored.v, version: stored[VERSION_PROP] };
+  }
+  return { data: stored, version: null };
+}
@@ -0,0 +1,259 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { readLines } from "../src/backup";
+import {
+  BACKUP_FORMAT,
+  type BackupWritable,
+  CODEC_VERSION,
+  type ImportProgress,
+  KVStoreConflictError,
+  KVStoreError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+const collect = () => {
+  const chunks: string[] = [];
+  const writable: BackupWritable = {
+    write: (chunk) => {
+      chunks.push(chunk);
+    },
+  };
+  return { writable, text: () => chunks.join("") };
+};
+
+const lines = (text: string) =>
+  text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+
+describe("readLines", () => {
+  it("should split chunks into numbered lines", async () => {
+    const result: { line: number; text: string }[] = [];
+    for await (const line of readLines(["a\nb", "c\r\n\n", "d"])) {
+      result.push(line);
+    }
+
+    expect(result).toEqual([
+      { line: 1, text: "a" },
+      { line: 2, text: "bc" },
+      { line: 4, text: "d" },
+    ]);
+  });
+
+  it("should decode multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("é\n");
+    const result: string[] = [];
+    for await (const { text } of readLines([
+      bytes.slice(0, 1),
+      bytes.slice(1),
+    ])) {
+      result.push(text);
+    }
+
+    expect(result).toEqual(["é"]);
+  });
+});
+
+describe("KVStore backups", () => {
+  let actions: string[];
+  let source: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server: new MemoryServer(),
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(async () => {
+    actions = [];
+    source = createStore({ dbName: "main", storeName: "users" });
+    await source.setMany([
+      { key: "user:2", value: { name: "Bob" } },
+      { key: "user:1", value: { name: "Alice" } },
+      { key: "user:3", value: { name: "Carol" } },
+      { key: "order:1", value: 42 },
+    ]);
+    actions = [];
+  });
+
+  it("should export a header and entries in key order", async () => {
+    const { writable, text } = collect();
+    const progress: number[] = [];
+
+    const result = await source.exportStore(writable, {
+      prefix: "user:",
+      chunkSize: 2,
+      onProgress: ({ entries }) => progress.push(entries),
+    });
+
+    const [header, ...entries] = lines(text());
+    expect(header).toMatchObject({
+      type: "header",
+      format: BACKUP_FORMAT,
+      dbName: "main",
+      storeName: "users",
+      codecVersion: CODEC_VERSION,
+    });
+    expect(Number.isNaN(Date.parse(header.timestamp))).toBe(false);
+    expect(entries).toEqual([
+      { key: "user:1", value: { name: "Alice" } },
+      { key: "user:2", value: { name: "Bob" } },
+      { key: "user:3", value: { name: "Carol" } },
+    ]);
+    expect(result).toEqual({ entries: 3, lastKey: "user:3" });
+    expect(progress).toEqual([2, 3]);
+    expect(actions.filter((action) => action === "getMany")).toHaveLength(2);
+  });
+
+  it("should resume an export after a key without a second header", async () => {
+    const { writable, text } = collect();
+
+    await source.exportStore(writable, { afterKey: "user:1" });
+
+    expect(lines(text())).toEqual([
+      { key: "user:2", value: { name: "Bob" } },
+      { key: "user:3", value: { name: "Carol" } },
+    ]);
+  });
+
+  it("should wait for drain when the destination applies backpressure", async () => {
+    const written: string[] = [];
+    let drain: (() => void) | undefined;
+    const writable: BackupWritable = {
+      write: (chunk) => {
+        written.push(chunk);
+        return false;
+      },
+      once: (_event, listener) => {
+        drain = listener;
+      },
+    };
+
+    const exported = source.exportStore(writable);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(written).toHaveLength(1);
+
+    while (written.length < 5) {
+      drain?.();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    drain?.();
+    await expect(exported).resolves.toMatchObject({ entries: 4 });
+  });
+
+  it("should round-trip a store through setMany chunks", async () => {
+    const { writable, text } = collect();
+    await source.exportStore(writable);
+    const target = createStore();
+    actions = [];
+
+    const result = await target.importStore([text()], { chunkSize: 3 });
+
+    expect(result).toMatchObject({ imported: 4, skipped: 0, line: 5 });
+    expect(result.header.storeName).toBe("users");
+    expect(actions).toEqual(["setMany", "setMany"]);
+    const byKey = (a: { key: string }, b: { key: string }) =>
+      a.key < b.key ? -1 : 1;
+    expect((await target.entries()).sort(byKey)).toEqual(
+      (await source.entries()).sort(byKey),
+    );
+  });
+
+  it("should keep codec envelopes intact", async () => {
+    const coded = createStore({ codecs: true });
+    await coded.set("date", new Date(0));
+    const { writable, text } = collect();
+
+    await coded.exportStore(writable);
+    const target = createStore({ codecs: true });
+    await target.importStore([text()]);
+
+    await expect(target.get("date")).resolves.toEqual(new Date(0));
+  });
+
+  it("should skip existing keys", async () => {
+    const { writable, text } = collect();
+    await source.exportStore(writable);
+    const target = createStore();
+    await target.set("user:1", { name: "Kept" });
+
+    const result = await target.importStore([text()], {
+      mode: "skip-existing",
+    });
+
+    expect(result).toMatchObject({ imported: 3, skipped: 1 });
+    await expect(target.get("user:1")).resolves.toEqual({ name: "Kept" });
+    await expect(target.get("user:2")).resolves.toEqual({ name: "Bob" });
+  });
+
+  it("should stop on conflicts and resume from the last committed line", async () => {
+    const { writable, text } = collect();
+    await source.exportStore(writable);
+    const target = createStore();
+    await target.set("user:2", { name: "Taken" });
+    const progress: ImportProgress[] = [];
+
+    const error = await target
+      .importStore([text()], {
+        mode: "fail-on-conflict",
+        chunkSize: 2,
+        onProgress: (update) => progress.push(update),
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreConflictError);
+    expect(error.message).toContain("user:2");
+    expect(progress).toEqual([{ imported: 2, skipped: 0, line: 3 }]);
+    await expect(target.keys()).resolves.toEqual([
+      "user:2",
+      "order:1",
+      "user:1",
+    ]);
+
+    await target.delete("user:2");
+    const result = await target.importStore([text()], {
+      mode: "fail-on-conflict",
+      fromLine: progress[0].line,
+    });
+
+    expect(result).toMatchObject({ imported: 2, line: 5 });
+    await expect(target.get("user:3")).resolves.toEqual({ name: "Carol" });
+  });
+
+  it("should reject malformed backups", async () => {
+    const target = createStore();
+
+    await expect(
+      target.importStore(['{"key":"a","value":1}\n']),
+    ).rejects.toThrow("Backup does not start with a header");
+    await expect(target.importStore([])).rejects.toBeInstanceOf(KVStoreError);
+
+    const header = JSON.stringify({
+      type: "header",
+      format: BACKUP_FORMAT,
+      dbName: "main",
+      storeName: "users",
+      timestamp: new Date(0).toISOString(),
+      codecVersion: CODEC_VERSION,
+    });
+    await expect(target.importStore([`${header}\n{oops\n`])).rejects.toThrow(
+      "Invalid JSON on line 2 of the backup",
+    );
+    await expect(
+      target.importStore([`${header}\n{"key":1}\n`]),
+    ).rejects.toThrow("Invalid entry on line 2 of the backup");
+    await expect(
+      target.importStore([
+        header.replace(/"codecVersion":\d+/, '"codecVersion":99'),
+      ]),
+    ).rejects.toThrow("Unsupported codec version 99");
+  });
+});
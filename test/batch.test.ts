@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  KVBatchLoader,
+  KVStoreAbortError,
+  KVStoreNotFoundError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+describe("KVBatchLoader", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should merge loads made in the same tick", async () => {
+    const loadMany = vi.fn(async (keys: string[]) => keys.map((k) => `${k}!`));
+    const loader = new KVBatchLoader(loadMany);
+
+    await expect(
+      Promise.all([loader.load("a"), loader.load("b")]),
+    ).resolves.toEqual(["a!", "b!"]);
+    expect(loadMany).toHaveBeenCalledTimes(1);
+    expect(loadMany).toHaveBeenCalledWith(["a", "b"]);
+  });
+
+  it("should deduplicate queued and in-flight keys", async () => {
+    let release: () => void = () => {};
+    const loadMany = vi.fn(
+      (keys: string[]) =>
+        new Promise<string[]>((resolve) => {
+          release = () => resolve(keys);
+        }),
+    );
+    const loader = new KVBatchLoader(loadMany);
+
+    const first = loader.load("a");
+    expect(loader.load("a")).toBe(first);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(loader.load("a")).toBe(first);
+
+    release();
+    await expect(first).resolves.toBe("a");
+    expect(loadMany).toHaveBeenCalledWith(["a"]);
+    expect(loader.load("a")).not.toBe(first);
+  });
+
+  it("should load a forgotten key again", async () => {
+    const loadMany = vi.fn(async (keys: string[]) => keys);
+    const loader = new KVBatchLoader(loadMany, { windowMs: 10 });
+
+    const first = loader.load("a");
+    loader.forget("a");
+    const second = loader.load("a");
+
+    expect(second).not.toBe(first);
+    await Promise.all([first, second]);
+  });
+
+  it("should wait for the configured window", async () => {
+    vi.useFakeTimers();
+    const loadMany = vi.fn(async (keys: string[]) => keys);
+    const loader = new KVBatchLoader(loadMany, { windowMs: 50 });
+
+    const first = loader.load("a");
+    await vi.advanceTimersByTimeAsync(49);
+    const second = loader.load("b");
+    expect(loadMany).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(Promise.all([first, second])).resolves.toEqual(["a", "b"]);
+    expect(loadMany).toHaveBeenCalledWith(["a", "b"]);
+  });
+
+  it("should cap the batch size", async () => {
+    const loadMany = vi.fn(async (keys: string[]) => keys);
+    const loader = new KVBatchLoader(loadMany, { maxBatchSize: 2 });
+
+    await Promise.all(["a", "b", "c", "d", "e"].map((k) => loader.load(k)));
+
+    expect(loadMany.mock.calls).toEqual([[["a", "b"]], [["c", "d"]], [["e"]]]);
+  });
+
+  it("should fail only the loads of a failed batch", async () => {
+    const loadMany = vi.fn(async (keys: string[]) => {
+      if (keys.indexOf("bad") !== -1) throw new Error("batch failed");
+      return keys;
+    });
+    const loader = new KVBatchLoader(loadMany, { maxBatchSize: 2 });
+
+    const results = await Promise.allSettled(
+      ["a", "bad", "c"].map((k) => loader.load(k)),
+    );
+
+    expect(results).toEqual([
+      { status: "rejected", reason: new Error("batch failed") },
+      { status: "rejected", reason: new Error("batch failed") },
+      { status: "fulfilled", value: "c" },
+    ]);
+  });
+});
+
+describe("KVStore batching", () => {
+  let server: MemoryServer;
+  let requests: { action: string; keys?: string[] }[];
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server,
+      dbName: "db",
+      storeName: "store",
+      batch: true,
+      middleware: [
+        async (request, next) => {
+          const { action, keys } = request.envelope;
+          requests.push(keys ? { action, keys } : { action });
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    requests = [];
+  });
+
+  it("should merge concurrent gets into one getMany request", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+    ]);
+    requests = [];
+
+    await expect(
+      Promise.all([store.get("a"), store.get("b"), store.get("a")]),
+    ).resolves.toEqual([1, 2, 1]);
+
+    expect(requests).toEqual([{ action: "getMany", keys: ["a", "b"] }]);
+  });
+
+  it("should be disabled by default", async () => {
+    const store = createStore({ batch: undefined });
+    await store.set("a", 1);
+    requests = [];
+
+    await Promise.all([store.get("a"), store.get("a")]);
+
+    expect(requests).toEqual([{ action: "get" }, { action: "get" }]);
+  });
+
+  it("should throw not found for missing keys only", async () => {
+    const store = createStore();
+    await store.set("a", 1);
+
+    const [found, missing] = await Promise.allSettled([
+      store.get("a"),
+      store.get("missing"),
+    ]);
+
+    expect(found).toEqual({ status: "fulfilled", value: 1 });
+    expect(missing.status).toBe("rejected");
+    expect((missing as PromiseRejectedResult).reason).toBeInstanceOf(
+      KVStoreNotFoundError,
+    );
+  });
+
+  it("should tell null values from missing keys like an unbatched get", async () => {
+    const store = createStore();
+    await store.set("empty", null);
+    requests = [];
+
+    const [empty, missing] = await Promise.allSettled([
+      store.get("empty"),
+      store.get("missing"),
+    ]);
+
+    expect(empty).toEqual({ status: "fulfilled", value: null });
+    expect((missing as PromiseRejectedResult).reason).toBeInstanceOf(
+      KVStoreNotFoundError,
+    );
+    expect(requests.map((request) => request.action)).toEqual([
+      "getMany",
+      "get",
+      "get",
+    ]);
+  });
+
+  it("should send calls with their own timeout on their own", async () => {
+    const store = createStore();
+    await store.set("a", 1);
+    requests = [];
+
+    await store.get("a", { timeoutMs: 1000 });
+
+    expect(requests).toEqual([{ action: "get" }]);
+  });
+
+  it("should abort a caller without failing the batch", async () => {
+    const store = createStore();
+    await store.set("a", 1);
+    const controller = new AbortController();
+
+    const aborted = store.get("a", { signal: controller.signal });
+    const other = store.get("a");
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(KVStoreAbortError);
+    await expect(other).resolves.toBe(1);
+  });
+
+  it("should read a key again after it is written", async () => {
+    const store = createStore();
+    await store.set("a", 1);
+    let release = () => {};
+    let hold = true;
+    store.use(async (request, next) => {
+      if (hold && request.envelope.action === "getMany") {
+        hold = false;
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      return await next(request);
+    });
+
+    const before = store.get("a");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await store.set("a", 2);
+    const after = store.get("a");
+    release();
+
+    await expect(after).resolves.toBe(2);
+    await before;
+    expect(requests.filter((r) => r.action === "getMany")).toHaveLength(2);
+  });
+
+  it("should decode batched values", async () => {
+    const store = createStore({ codecs: true });
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    await store.set("date", date);
+
+    await expect(store.get("date")).resolves.toEqual(date);
+  });
+});
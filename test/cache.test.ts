@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  KVCache,
+  type KVCacheEntry,
+  type KVCacheStorage,
+  LRUCacheStorage,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+describe("LRUCacheStorage", () => {
+  it("should evict the least recently used entry", () => {
+    const storage = new LRUCacheStorage(2);
+    storage.set("a", { json: "1" });
+    storage.set("b", { json: "2" });
+    storage.get("a");
+    storage.set("c", { json: "3" });
+
+    expect(storage.get("a")).toEqual({ json: "1" });
+    expect(storage.get("b")).toBeUndefined();
+    expect(storage.get("c")).toEqual({ json: "3" });
+    expect(storage.evictions).toBe(1);
+    expect(storage.size).toBe(2);
+  });
+
+  it("should delete entries by prefix", () => {
+    const storage = new LRUCacheStorage();
+    storage.set("db/a", { json: "1" });
+    storage.set("db/b", { json: "2" });
+    storage.set("other/a", { json: "3" });
+
+    storage.deletePrefix("db/");
+
+    expect(storage.size).toBe(1);
+    expect(storage.get("other/a")).toEqual({ json: "3" });
+  });
+});
+
+describe("KVCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count hits and misses", async () => {
+    const cache = new KVCache();
+    await cache.set("a", { n: 1 });
+
+    await expect(cache.get("a")).resolves.toEqual({ value: { n: 1 } });
+    await expect(cache.get("b")).resolves.toBeUndefined();
+
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      expirations: 0,
+      size: 1,
+    });
+  });
+
+  it("should return copies of cached values", async () => {
+    const cache = new KVCache();
+    const value = { n: 1 };
+    await cache.set("a", value);
+    value.n = 2;
+
+    const hit = await cache.get("a");
+    (hit?.value as { n: number }).n = 3;
+
+    await expect(cache.get("a")).resolves.toEqual({ value: { n: 1 } });
+  });
+
+  it("should expire entries after the TTL", async () => {
+    vi.useFakeTimers();
+    const cache = new KVCache({ ttlMs: 1000 });
+    await cache.set("a", 1);
+
+    vi.advanceTimersByTime(999);
+    await expect(cache.get("a")).resolves.toEqual({ value: 1 });
+    vi.advanceTimersByTime(1);
+    await expect(cache.get("a")).resolves.toBeUndefined();
+
+    expect(cache.stats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      expirations: 1,
+      size: 0,
+    });
+  });
+
+  it("should report evictions of the default storage", async () => {
+    const cache = new KVCache({ maxSize: 1 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  it("should use a custom storage", async () => {
+    const entries = new Map<string, KVCacheEntry>();
+    const storage: KVCacheStorage = {
+      get: async (key) => entries.get(key),
+      set: async (key, entry) => {
+        entries.set(key, entry);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+      deletePrefix: async () => {},
+    };
+    const cache = new KVCache({ storage });
+
+    await cache.set("a", [1, 2]);
+
+    expect(entries.get("a")).toEqual({ json: "[1,2]" });
+    await expect(cache.get("a")).resolves.toEqual({ value: [1, 2] });
+    expect(cache.stats()).not.toHaveProperty("size");
+  });
+});
+
+describe("KVStore caching", () => {
+  let server: MemoryServer;
+  let actions: string[];
+  let store: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server,
+      dbName: "db",
+      storeName: "store",
+      cache: true,
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    actions = [];
+    store = createStore();
+  });
+
+  it("should be disabled by default", async () => {
+    const uncached = createStore({ cache: undefined });
+    await uncached.set("a", 1);
+    await uncached.get("a");
+    await uncached.get("a");
+
+    expect(actions).toEqual(["set", "get", "get"]);
+    expect(uncached.getCacheStats()).toBeUndefined();
+  });
+
+  it("should answer repeated gets from the cache", async () => {
+    server.handle(
+      { action: "set", dbName: "db", storeName: "store", key: "a", value: 1 },
+      "memory-token",
+    );
+
+    await expect(store.get("a")).resolves.toBe(1);
+    await expect(store.get("a")).resolves.toBe(1);
+
+    expect(actions).toEqual(["get"]);
+    expect(store.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("should fill the cache from writes", async () => {
+    await store.set("a", { n: 1 });
+    await store.setMany([{ key: "b", value: 2 }]);
+
+    await expect(store.get("a")).resolves.toEqual({ n: 1 });
+    await expect(store.getMany(["a", "b"])).resolves.toEqual([{ n: 1 }, 2]);
+
+    expect(actions).toEqual(["set", "setMany"]);
+  });
+
+  it("should keep the cache in sync with updates and deletes", async () => {
+    await store.set("a", 1);
+    await store.update("a", 2);
+    await expect(store.get("a")).resolves.toBe(2);
+
+    await store.delete("a");
+    await expect(store.get("a")).rejects.toThrow("Key not found");
+
+    await store.setMany([
+      { key: "b", value: 1 },
+      { key: "c", value: 1 },
+    ]);
+    await store.deleteMany(["b"]);
+    await expect(store.getMany(["b", "c"])).resolves.toEqual([null, 1]);
+  });
+
+  it("should only request the keys missing from the cache", async () => {
+    const requested: string[][] = [];
+    store.use(async (request, next) => {
+      if (request.envelope.action === "getMany") {
+        requested.push(request.envelope.keys);
+      }
+      return await next(request);
+    });
+    await store.set("a", 1);
+
+    await expect(store.getMany(["a", "b"])).resolves.toEqual([1, null]);
+    await expect(store.getMany(["a", "b"])).resolves.toEqual([1, null]);
+
+    expect(requested).toEqual([["b"], ["b"]]);
+  });
+
+  it("should bypass the cache on request and refresh it", async () => {
+    await store.set("a", 1);
+    server.handle(
+      { action: "set", dbName: "db", storeName: "store", key: "a", value: 2 },
+      "memory-token",
+    );
+
+    await expect(store.get("a")).resolves.toBe(1);
+    await expect(store.get("a", { bypassCache: true })).resolves.toBe(2);
+    await expect(store.get("a")).resolves.toBe(2);
+    await expect(store.getMany(["a"], { bypassCache: true })).resolves.toEqual([
+      2,
+    ]);
+
+    expect(actions).toEqual(["set", "get", "getMany"]);
+  });
+
+  it("should invalidate keys when a write fails", async () => {
+    await store.set("a", 1);
+    await expect(store.update("missing", 1)).rejects.toThrow();
+    store.use(async () => {
+      throw new Error("offline");
+    });
+
+    await expect(store.set("a", 2)).rejects.toThrow("offline");
+    await expect(store.get("a")).rejects.toThrow("offline");
+  });
+
+  it("should invalidate the store on clear", async () => {
+    await store.set("a", 1);
+    await store.clear();
+
+    await expect(store.getMany(["a"])).resolves.toEqual([null]);
+    expect(actions).toEqual(["set", "clear", "getMany"]);
+  });
+
+  it("should invalidate stores and databases when they are deleted", async () => {
+    await store.set("a", 1);
+    await store.deleteStore("db", "store");
+    await expect(store.get("a")).rejects.toThrow("Store not found");
+
+    server.provision({
+      accessToken: "memory-token",
+      dbName: "db",
+      storeName: "store",
+    });
+    await store.set("a", 1);
+    await store.deleteDatabase("db");
+    await expect(store.get("a")).rejects.toThrow("Database not found");
+  });
+
+  it("should not share cache entries between stores", async () => {
+    const other = createStore({ storeName: "other" });
+    await store.set("a", 1);
+    await other.set("a", 2);
+
+    await expect(store.get("a")).resolves.toBe(1);
+    await expect(other.get("a")).resolves.toBe(2);
+  });
+
+  it("should cache encoded values and decode them on hits", async () => {
+    const coded = createStore({ codecs: true });
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    await coded.set("date", date);
+
+    const cached = await coded.get("date");
+
+    expect(cached).toEqual(date);
+    expect(cached).not.toBe(date);
+    expect(actions).toEqual(["set"]);
+  });
+});
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  CHUNK_KEY_PREFIX,
+  isChunkKey,
+  joinChunks,
+  splitValue,
+} from "../src/chunking";
+import {
+  type KVRequestEnvelope,
+  KVStoreNotFoundError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+const LIMIT = 200;
+const large = {
+  text: "x".repeat(1000),
+  quote: '"'.repeat(100),
+  control: "\u0001".repeat(100),
+};
+
+describe("splitValue", () => {
+  it("should keep values that fit", () => {
+    expect(splitValue({ a: 1 }, LIMIT)).toBeNull();
+  });
+
+  it("should split values into chunks and join them back", () => {
+    const result = splitValue(large, LIMIT);
+    if (!result) throw new Error("expected chunks");
+
+    expect(result.chunks.length).toBe(result.manifest.$kvChunks);
+    expect(isChunkKey(result.chunks[0].key)).toBe(true);
+    for (const chunk of result.chunks) {
+      expect(JSON.stringify(chunk.value).length).toBeLessThanOrEqual(LIMIT);
+    }
+    expect(joinChunks(result.chunks.map((chunk) => chunk.value))).toEqual(
+      large,
+    );
+    expect(joinChunks([result.chunks[0].value, null])).toBeUndefined();
+  });
+});
+
+describe("KVStore chunking", () => {
+  let envelopes: KVRequestEnvelope[];
+  let server: MemoryServer;
+  let raw: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server,
+      chunking: { maxValueSize: LIMIT },
+      middleware: [
+        async (request, next) => {
+          envelopes.push(request.envelope);
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  const storedChunks = async () =>
+    (await raw.keys()).filter((key) => key.indexOf(CHUNK_KEY_PREFIX) === 0);
+
+  beforeEach(() => {
+    envelopes = [];
+    server = new MemoryServer();
+    raw = new MemoryKVStore({ server });
+  });
+
+  it("should split large values and keep every request small", async () => {
+    const store = createStore();
+
+    await store.set("doc", large);
+
+    const chunks = await storedChunks();
+    expect(chunks.length).toBeGreaterThan(1);
+    await expect(raw.get("doc")).resolves.toMatchObject({
+      $kvChunks: chunks.length,
+    });
+    for (const envelope of envelopes) {
+      const payload = envelope.value ?? envelope.entries ?? null;
+      expect(JSON.stringify(payload).length).toBeLessThanOrEqual(LIMIT);
+    }
+  });
+
+  it("should reassemble values on every read", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "doc", value: large },
+      { key: "small", value: 1 },
+    ]);
+
+    await expect(store.get("doc")).resolves.toEqual(large);
+    await expect(store.getMany(["doc", "small", "missing"])).resolves.toEqual([
+      large,
+      1,
+      null,
+    ]);
+    await expect(store.keys()).resolves.toEqual(["doc", "small"]);
+    await expect(store.values()).resolves.toEqual([large, 1]);
+    await expect(store.entries()).resolves.toEqual([
+      { key: "doc", value: large },
+      { key: "small", value: 1 },
+    ]);
+  });
+
+  it("should delete the chunks of deleted and overwritten values", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "a", value: large },
+      { key: "b", value: large },
+      { key: "c", value: large },
+    ]);
+
+    await store.delete("a");
+    await store.deleteMany(["b"]);
+    await store.set("c", "small now");
+
+    await expect(storedChunks()).resolves.toEqual([]);
+    await expect(raw.keys()).resolves.toEqual(["c"]);
+    await expect(store.get("c")).resolves.toBe("small now");
+  });
+
+  it("should compose with compression, versioning and TTL", async () => {
+    const store = createStore({
+      compression: { threshold: 10 },
+      versioning: true,
+      ttl: true,
+    });
+    const random = Array.from({ length: 300 }, (_, i) =>
+      ((i * 7919) % 1000).toString(36),
+    );
+
+    await store.set("doc", random, { ttlMs: 60000 });
+
+    await expect(storedChunks()).resolves.not.toEqual([]);
+    const { value, version } = await store.getWithVersion("doc");
+    expect(value).toEqual(random);
+    await store.compareAndSet("doc", version, ["short"]);
+    await expect(store.get("doc")).resolves.toEqual(["short"]);
+    await expect(storedChunks()).resolves.toEqual([]);
+  });
+
+  it("should only read replaced values of keys seen chunked when tracking", async () => {
+    const store = createStore({
+      chunking: { maxValueSize: LIMIT, trackChunkedKeys: true },
+    });
+    await store.setMany([
+      { key: "doc", value: large },
+      { key: "small", value: 1 },
+    ]);
+    envelopes = [];
+
+    await store.set("small", 2);
+    await store.setMany([{ key: "other", value: 3 }]);
+    expect(envelopes.map((envelope) => envelope.action)).toEqual([
+      "set",
+      "setMany",
+    ]);
+
+    envelopes = [];
+    await store.set("doc", "small now");
+    expect(envelopes.map((envelope) => envelope.action)).toEqual([
+      "getMany",
+      "set",
+      "deleteMany",
+    ]);
+    await expect(storedChunks()).resolves.toEqual([]);
+  });
+
+  it("should delete chunks written by another client", async () => {
+    await createStore().setMany([
+      { key: "a", value: large },
+      { key: "b", value: large },
+      { key: "c", value: large },
+    ]);
+    const other = createStore({
+      chunking: { maxValueSize: LIMIT, trackChunkedKeys: true },
+    });
+
+    await createStore().set("a", "small now");
+    await other.delete("b");
+    await other.deleteMany(["c"]);
+
+    await expect(storedChunks()).resolves.toEqual([]);
+    await expect(raw.keys()).resolves.toEqual(["a"]);
+  });
+
+  it("should treat values with missing chunks as missing", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "doc", value: large },
+      { key: "small", value: 1 },
+    ]);
+    await raw.deleteMany(await storedChunks());
+
+    await expect(store.get("doc")).rejects.toBeInstanceOf(KVStoreNotFoundError);
+    await expect(store.getMany(["doc", "small"])).resolves.toEqual([null, 1]);
+    await expect(store.values()).resolves.toEqual([1]);
+    await expect(store.entries()).resolves.toEqual([
+      { key: "small", value: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { type KVCodec, KVValueCodec } from "../src/codec";
+import { KVStoreCodecError, MemoryKVStore, MemoryServer } from "../src/index";
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+}
+
+const moneyCodec: KVCodec<Money> = {
+  tag: "money",
+  test: (value) => value instanceof Money,
+  encode: (value) => [value.amount, value.currency],
+  decode: ([amount, currency]) => new Money(amount, currency),
+};
+
+/** Simulates the trip through the server */
+const wire = (data: unknown) => JSON.parse(JSON.stringify(data));
+
+describe("KVValueCodec", () => {
+  const codec = new KVValueCodec([moneyCodec]);
+  const roundTrip = (value: unknown) => codec.decode(wire(codec.encode(value)));
+
+  it("should leave plain JSON untouched", () => {
+    const value = { a: 1, b: ["x", null, true], c: { d: "e" } };
+
+    expect(codec.encode(value)).toEqual(value);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should tag dates", () => {
+    const date = new Date("2024-01-02T03:04:05.678Z");
+
+    expect(codec.encode(date)).toEqual({
+      $kv: "date",
+      v: "2024-01-02T03:04:05.678Z",
+    });
+    expect(roundTrip(date)).toEqual(date);
+    expect(Number.isNaN(roundTrip(new Date(NaN)).getTime())).toBe(true);
+  });
+
+  it("should round-trip bigints", () => {
+    const big = BigInt("123456789012345678901234567890");
+
+    expect(roundTrip(big)).toBe(big);
+  });
+
+  it("should round-trip maps and sets with nested values", () => {
+    const map = new Map<unknown, unknown>([
+      ["when", new Date(0)],
+      [1, new Set(["a", "b"])],
+    ]);
+
+    const result = roundTrip(map);
+
+    expect(result).toBeInstanceOf(Map);
+    expect(result.get("when")).toEqual(new Date(0));
+    expect(result.get(1)).toEqual(new Set(["a", "b"]));
+  });
+
+  it("should round-trip binary data", () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+
+    expect(roundTrip(bytes)).toEqual(bytes);
+  });
+
+  it("should use custom codecs", () => {
+    const value = { price: new Money(10, "EUR") };
+
+    expect(codec.encode(value)).toEqual({
+      price: { $kv: "money", v: [10, "EUR"] },
+    });
+    expect(roundTrip(value).price).toEqual(new Money(10, "EUR"));
+  });
+
+  it("should escape objects using the marker property", () => {
+    const value = { $kv: "date", v: "not a date" };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should reject duplicate and reserved tags", () => {
+    expect(() =>
+      new KVValueCodec().register({ ...moneyCodec, tag: "date" }),
+    ).toThrow(
+      new KVStoreCodecError('Codec tag "date" is already registered', {
+        action: "registerCodec",
+        tag: "date",
+      }),
+    );
+    expect(() =>
+      new KVValueCodec().register({ ...moneyCodec, tag: "object" }),
+    ).toThrow();
+  });
+
+  it("should reject unknown tags", () => {
+    expect(() => codec.decode({ $kv: "mystery", v: 1 })).toThrow(
+      'Unknown codec tag "mystery"',
+    );
+    expect(() => codec.decode({ $kv: "mystery", v: 1 })).toThrow(
+      KVStoreCodecError,
+    );
+  });
+});
+
+describe("KVStore codecs", () => {
+  it("should report unknown tags in stored data with the key", async () => {
+    const server = new MemoryServer();
+    await new MemoryKVStore({ server }).set("price", { $kv: "money", v: 5 });
+    const kvStore = new MemoryKVStore({ server, codecs: true });
+
+    const error = await kvStore.get("price").catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreCodecError);
+    expect(error).toMatchObject({
+      tag: "money",
+      key: "price",
+      action: "decode",
+      dbName: "default",
+    });
+  });
+
+  it("should send values as plain JSON by default", async () => {
+    const kvStore = new MemoryKVStore();
+    await kvStore.set("when", new Date(0));
+
+    await expect(kvStore.get("when")).resolves.toBe("1970-01-01T00:00:00.000Z");
+  });
+
+  it("should round-trip values through every method", async () => {
+    const kvStore = new MemoryKVStore({ codecs: true });
+    const date = new Date(0);
+    const big = BigInt(2) ** BigInt(70);
+
+    await kvStore.set("date", date);
+    await kvStore.setMany([
+      { key: "big", value: big },
+      { key: "tags", value: new Set(["a"]) },
+    ]);
+    await kvStore.update("tags", new Set(["b"]));
+
+    await expect(kvStore.get("date")).resolves.toEqual(date);
+    await expect(kvStore.getMany(["big", "missing"])).resolves.toEqual([
+      big,
+      null,
+    ]);
+    await expect(kvStore.values()).resolves.toEqual([
+      date,
+      big,
+      new Set(["b"]),
+    ]);
+    await expect(kvStore.entries("default", "default")).resolves.toEqual([
+      { key: "date", value: date },
+      { key: "big", value: big },
+      { key: "tags", value: new Set(["b"]) },
+    ]);
+  });
+
+  it("should accept custom codecs in options and through registerCodec", async () => {
+    const kvStore = new MemoryKVStore({ codecs: [moneyCodec] });
+    await kvStore.set("price", new Money(5, "USD"));
+    await expect(kvStore.get("price")).resolves.toEqual(new Money(5, "USD"));
+
+    const other = new MemoryKVStore({ server: kvStore.server });
+    other.registerCodec(moneyCodec);
+    await expect(other.get("price")).resolves.toEqual(new Money(5, "USD"));
+  });
+});
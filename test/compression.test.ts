@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { compressValue, decompressValue } from "../src/compression";
+import { MemoryKVStore, MemoryServer } from "../src/index";
+
+const document = {
+  items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: "item" })),
+};
+
+describe("compressValue", () => {
+  it("should leave values below the threshold untouched", async () => {
+    await expect(compressValue({ a: 1 }, {})).resolves.toEqual({ a: 1 });
+    await expect(decompressValue({ a: 1 })).resolves.toEqual({ a: 1 });
+  });
+
+  it("should compress and restore values with gzip and deflate", async () => {
+    const json = JSON.stringify(document);
+    const gzip = await compressValue(document, {});
+    const deflate = await compressValue(document, {
+      format: "deflate",
+      threshold: 10,
+    });
+
+    expect(gzip).toMatchObject({ $kvCompressed: "gzip" });
+    expect(deflate).toMatchObject({ $kvCompressed: "deflate" });
+    expect(JSON.stringify(gzip).length).toBeLessThan(json.length / 4);
+    await expect(decompressValue(gzip)).resolves.toEqual(document);
+    await expect(decompressValue(deflate)).resolves.toEqual(document);
+  });
+});
+
+describe("KVStore compression", () => {
+  it("should store large values compressed", async () => {
+    const server = new MemoryServer();
+    const store = new MemoryKVStore({
+      server,
+      compression: { threshold: 100 },
+      codecs: true,
+      versioning: true,
+    });
+    const raw = new MemoryKVStore({ server });
+
+    await store.set("doc", { ...document, at: new Date(0) });
+    await store.set("small", "short");
+
+    await expect(raw.get("doc")).resolves.toMatchObject({
+      v: { $kvCompressed: "gzip" },
+    });
+    await expect(raw.get("small")).resolves.toMatchObject({ v: "short" });
+    await expect(store.get("doc")).resolves.toEqual({
+      ...document,
+      at: new Date(0),
+    });
+    await expect(store.getMany(["small", "doc"])).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { base64ToBytes, bytesToBase64 } from "../src/encoding";
+
+describe("base64", () => {
+  it.each([
+    ["", ""],
+    ["f", "Zg=="],
+    ["fo", "Zm8="],
+    ["foo", "Zm9v"],
+    ["foobar", "Zm9vYmFy"],
+  ])("should encode %j as %j", (text, base64) => {
+    const bytes = new TextEncoder().encode(text);
+
+    expect(bytesToBase64(bytes)).toBe(base64);
+    expect(base64ToBytes(base64)).toEqual(bytes);
+  });
+
+  it("should round-trip every byte value", () => {
+    const bytes = new Uint8Array(256);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = i;
+
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString("base64"));
+  });
+
+  it("should reject invalid characters", () => {
+    expect(() => base64ToBytes("a*b")).toThrow("Invalid base64 string");
+  });
+});
@@ -0,0 +1,274 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type EncryptionOptions,
+  KVCipher,
+  KVStoreEncryptionError,
+  KVStoreError,
+  KVStoreNetworkError,
+  LRUCacheStorage,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryQueueStorage,
+  MemoryServer,
+} from "../src/index";
+
+const OLD_KEY = new Uint8Array(32).fill(1);
+const NEW_KEY = "AgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgI=";
+
+describe("KVCipher", () => {
+  const cipher = new KVCipher({ keys: { k1: OLD_KEY }, primaryKeyId: "k1" });
+
+  it("should encrypt values with a random IV", async () => {
+    const first = await cipher.encryptValue({ ssn: "123" });
+    const second = await cipher.encryptValue({ ssn: "123" });
+
+    expect(first).toMatchObject({ $kvEncrypted: "k1" });
+    expect(JSON.stringify(first)).not.toContain("123");
+    expect(first.data).not.toBe(second.data);
+    await expect(cipher.decryptValue(first)).resolves.toEqual({ ssn: "123" });
+    await expect(cipher.decryptValue("plain")).resolves.toBe("plain");
+  });
+
+  it("should encrypt keys deterministically", async () => {
+    const name = await cipher.encryptKey("user:alice");
+
+    expect(name).toMatch(/^\$kve:k1:/);
+    expect(name).not.toContain("alice");
+    await expect(cipher.encryptKey("user:alice")).resolves.toBe(name);
+    await expect(cipher.decryptKey(name)).resolves.toBe("user:alice");
+    await expect(cipher.decryptKey("legacy")).resolves.toBe("legacy");
+  });
+
+  it("should reject altered data and unknown keys", async () => {
+    const envelope = await cipher.encryptValue("secret");
+    const other = new KVCipher({ keys: { k2: NEW_KEY }, primaryKeyId: "k2" });
+
+    await expect(
+      cipher.decryptValue({
+        ...envelope,
+        iv: (await other.encryptValue(1)).iv,
+      }),
+    ).rejects.toBeInstanceOf(KVStoreEncryptionError);
+    await expect(other.decryptValue(envelope)).rejects.toMatchObject({
+      name: "KVStoreEncryptionError",
+      keyId: "k1",
+    });
+  });
+});
+
+describe("KVStore encryption", () => {
+  let server: MemoryServer;
+  let raw: MemoryKVStore;
+
+  const createStore = (
+    encryption: EncryptionOptions,
+    options: MemoryKVStoreOptions = {},
+  ) => new MemoryKVStore({ server, encryption, ...options });
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    raw = new MemoryKVStore({ server });
+  });
+
+  it("should only send ciphertext to the server", async () => {
+    const store = createStore({ keys: { k1: OLD_KEY }, primaryKeyId: "k1" });
+    await store.set("user:1", { email: "ann@example.com" });
+    await store.setMany([
+      { key: "user:2", value: { email: "bob@example.com" } },
+    ]);
+
+    const stored = await raw.get("user:1");
+    expect(stored).toMatchObject({ $kvEncrypted: "k1" });
+    expect(JSON.stringify(await raw.values())).not.toContain("@example.com");
+
+    await expect(store.get("user:1")).resolves.toEqual({
+      email: "ann@example.com",
+    });
+    await expect(store.getMany(["user:2", "missing"])).resolves.toEqual([
+      { email: "bob@example.com" },
+      null,
+    ]);
+    await expect(store.values()).resolves.toHaveLength(2);
+    await expect(store.entries()).resolves.toContainEqual({
+      key: "user:2",
+      value: { email: "bob@example.com" },
+    });
+  });
+
+  it("should compose with codecs, versioning and TTL", async () => {
+    const store = createStore(
+      { keys: { k1: OLD_KEY }, primaryKeyId: "k1" },
+      { codecs: true, versioning: true, ttl: true },
+    );
+    await store.set("born", new Date(0), { ttlMs: 60000 });
+
+    const { value, version } = await store.getWithVersion("born");
+    expect(value).toEqual(new Date(0));
+    await store.compareAndSet("born", version, new Date(1));
+    await expect(store.get("born")).resolves.toEqual(new Date(1));
+    await expect(store.increment("visits")).resolves.toBe(1);
+  });
+
+  it("should encrypt keys in deterministic mode", async () => {
+    const store = createStore({
+      keys: { k1: OLD_KEY },
+      primaryKeyId: "k1",
+      deterministicKeys: true,
+    });
+    await store.setMany([
+      { key: "user:1", value: 1 },
+      { key: "user:2", value: 2 },
+      { key: "order:1", value: 3 },
+    ]);
+    await store.delete("user:2");
+
+    const names = await raw.keys();
+    expect(names).toHaveLength(2);
+    expect(names.join()).not.toContain("user");
+    await expect(store.keys()).resolves.toEqual(["user:1", "order:1"]);
+    await expect(store.get("order:1")).resolves.toBe(3);
+    await expect(store.namespace("user:").keys()).resolves.toEqual(["1"]);
+  });
+
+  it("should keep keys encrypted in the offline queue and the cache", async () => {
+    let online = true;
+    const cached = new LRUCacheStorage();
+    const queued = new MemoryQueueStorage();
+    const cacheSet = vi.spyOn(cached, "set");
+    const store = createStore(
+      { keys: { k1: OLD_KEY }, primaryKeyId: "k1", deterministicKeys: true },
+      {
+        cache: { storage: cached },
+        offline: { storage: queued },
+        middleware: [
+          async (request, next) => {
+            if (!online) {
+              throw new KVStoreNetworkError("Network unreachable", {
+                action: request.envelope.action,
+              });
+            }
+            return await next(request);
+          },
+        ],
+      },
+    );
+    await store.set("user:1", 1);
+    await store.get("user:1");
+    online = false;
+    await store.set("user:2", 2);
+    await store.deleteMany(["user:1"]);
+
+    expect(cacheSet).toHaveBeenCalled();
+    expect(cacheSet.mock.calls.map(([key]) => key).join()).not.toContain(
+      "user",
+    );
+    expect(JSON.stringify(queued.load())).not.toContain("user");
+    await expect(store.getMany(["user:1", "user:2"])).resolves.toEqual([
+      null,
+      2,
+    ]);
+
+    online = true;
+    await expect(store.flushQueue()).resolves.toMatchObject({ replayed: 2 });
+    await expect(store.keys()).resolves.toEqual(["user:2"]);
+  });
+
+  it("should read values written with older keys and rotate them", async () => {
+    await raw.set("legacy", "plaintext");
+    const before = createStore({
+      keys: { old: OLD_KEY },
+      primaryKeyId: "old",
+      deterministicKeys: true,
+    });
+    await before.set("a", "secret");
+    const rotated = createStore(
+      { keys: { old: OLD_KEY, new: NEW_KEY }, primaryKeyId: "new" },
+      { versioning: true },
+    );
+    await rotated.compareAndSet("b", null, "versioned");
+
+    // "a" was stored under an encrypted name, which keys are no longer
+    await expect(rotated.reencrypt()).resolves.toBe(2);
+    await expect(rotated.reencrypt()).resolves.toBe(0);
+
+    const after = createStore(
+      { keys: { new: NEW_KEY }, primaryKeyId: "new" },
+      { versioning: true },
+    );
+    await expect(after.getMany(["legacy", "a", "b"])).resolves.toEqual([
+      "plaintext",
+      "secret",
+      "versioned",
+    ]);
+    await expect(after.getWithVersion("b")).resolves.toMatchObject({
+      version: expect.any(String),
+    });
+    await expect(raw.keys()).resolves.toEqual(["legacy", "b", "a"]);
+  });
+
+  it("should find and replace keys stored under an older key id", async () => {
+    const keys = { old: OLD_KEY, new: NEW_KEY };
+    const before = createStore({
+      keys: { old: OLD_KEY },
+      primaryKeyId: "old",
+      deterministicKeys: true,
+    });
+    await before.setMany([
+      { key: "user:1", value: { n: 1 } },
+      { key: "user:2", value: { n: 1 } },
+      { key: "user:3", value: { n: 1 } },
+      { key: "user:4", value: { n: 1 } },
+    ]);
+    const store = createStore({
+      keys,
+      primaryKeyId: "new",
+      deterministicKeys: true,
+    });
+
+    await expect(store.get("user:1")).resolves.toEqual({ n: 1 });
+    await expect(store.getMany(["user:2", "missing"])).resolves.toEqual([
+      { n: 1 },
+      null,
+    ]);
+    await store.set("user:1", { n: 2 });
+    await store.update("user:2", { n: 2 });
+    await store.delete("user:3");
+
+    await expect(store.keys()).resolves.toEqual(["user:4", "user:1", "user:2"]);
+    await expect(store.get("user:1")).resolves.toEqual({ n: 2 });
+    await expect(store.reencrypt()).resolves.toBe(1);
+    await expect(raw.keys()).resolves.toHaveLength(3);
+    await expect(
+      store.getMany(["user:1", "user:2", "user:4"]),
+    ).resolves.toEqual([{ n: 2 }, { n: 2 }, { n: 1 }]);
+  });
+
+  it("should keep the newer value when reencrypting a key with two names", async () => {
+    const before = createStore({
+      keys: { old: OLD_KEY },
+      primaryKeyId: "old",
+      deterministicKeys: true,
+    });
+    await before.set("user:1", { n: 1 });
+    // A client without the older key writes a second name for the key
+    await createStore({
+      keys: { new: NEW_KEY },
+      primaryKeyId: "new",
+      deterministicKeys: true,
+    }).set("user:1", { n: 2 });
+    const store = createStore({
+      keys: { old: OLD_KEY, new: NEW_KEY },
+      primaryKeyId: "new",
+      deterministicKeys: true,
+    });
+
+    await expect(store.reencrypt()).resolves.toBe(0);
+
+    await expect(raw.keys()).resolves.toHaveLength(1);
+    await expect(store.get("user:1")).resolves.toEqual({ n: 2 });
+  });
+
+  it("should require the encryption option to rotate", async () => {
+    await expect(raw.reencrypt()).rejects.toBeInstanceOf(KVStoreError);
+  });
+});
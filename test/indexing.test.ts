@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  type KVIndexDefinition,
+  KVStoreError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+import {
+  applyPostingChange,
+  diffIndexes,
+  INDEX_KEY_PREFIX,
+  indexedValues,
+} from "../src/indexing";
+
+const INDEXES: Record<string, KVIndexDefinition> = {
+  byEmail: { prefix: "user:", field: "email" },
+  byCity: { prefix: "user:", field: "address.city" },
+  byTag: { prefix: "post:", field: "tags" },
+};
+
+describe("indexedValues", () => {
+  it("should read nested fields and array items", () => {
+    expect(
+      indexedValues(INDEXES.byCity, { address: { city: "Paris" } }),
+    ).toEqual(["Paris"]);
+    expect(indexedValues(INDEXES.byTag, { tags: ["a", "b", "a", 1] })).toEqual([
+      "a",
+      "b",
+      1,
+    ]);
+  });
+
+  it("should skip missing fields and values that cannot be indexed", () => {
+    expect(indexedValues(INDEXES.byCity, { address: null })).toEqual([]);
+    expect(indexedValues(INDEXES.byEmail, "text")).toEqual([]);
+    expect(
+      indexedValues(INDEXES.byTag, { tags: [{}, null, Number.NaN] }),
+    ).toEqual([]);
+  });
+});
+
+describe("diffIndexes", () => {
+  it("should only report the index keys that change", () => {
+    const changes = diffIndexes(INDEXES, [
+      {
+        key: "user:1",
+        before: { email: "a@x", address: { city: "Paris" } },
+        after: { email: "b@x", address: { city: "Paris" } },
+      },
+      { key: "post:1", after: { tags: ["news"] } },
+      { key: "other", after: { email: "c@x" } },
+    ]);
+
+    expect(changes).toEqual([
+      { key: `${INDEX_KEY_PREFIX}byEmail:"a@x"`, add: [], remove: ["user:1"] },
+      { key: `${INDEX_KEY_PREFIX}byEmail:"b@x"`, add: ["user:1"], remove: [] },
+      { key: `${INDEX_KEY_PREFIX}byTag:"news"`, add: ["post:1"], remove: [] },
+    ]);
+    expect(
+      applyPostingChange(["user:3", "user:1"], {
+        key: "",
+        add: ["user:2", "user:3"],
+        remove: ["user:1"],
+      }),
+    ).toEqual(["user:2", "user:3"]);
+  });
+});
+
+describe("KVStore secondary indexes", () => {
+  let server: MemoryServer;
+  let raw: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({ server, indexes: INDEXES, ...options });
+
+  const indexKeys = async () =>
+    (await raw.keys()).filter((key) => key.indexOf(INDEX_KEY_PREFIX) === 0);
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    raw = new MemoryKVStore({ server });
+  });
+
+  it("should find values by an indexed field", async () => {
+    const store = createStore();
+    await store.set("user:1", { email: "ann@x", address: { city: "Paris" } });
+    await store.setMany([
+      { key: "user:2", value: { email: "bob@x", address: { city: "Paris" } } },
+      { key: "post:1", value: { tags: ["news", "tech"] } },
+    ]);
+
+    await expect(store.findBy("byEmail", "bob@x")).resolves.toEqual([
+      { key: "user:2", value: { email: "bob@x", address: { city: "Paris" } } },
+    ]);
+    await expect(store.findBy("byCity", "Paris")).resolves.toHaveLength(2);
+    await expect(store.findBy("byTag", "tech")).resolves.toEqual([
+      { key: "post:1", value: { tags: ["news", "tech"] } },
+    ]);
+    await expect(store.findBy("byEmail", "nobody@x")).resolves.toEqual([]);
+  });
+
+  it("should keep index keys in step with updates and deletions", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "user:1", value: { email: "ann@x" } },
+      { key: "user:2", value: { email: "bob@x" } },
+      { key: "user:3", value: { email: "cid@x" } },
+    ]);
+
+    await store.update("user:1", { email: "anna@x" });
+    await store.mergePatch("user:2", { email: "robert@x" });
+    await store.delete("user:3");
+
+    await expect(store.findBy("byEmail", "ann@x")).resolves.toEqual([]);
+    await expect(store.findBy("byEmail", "anna@x")).resolves.toHaveLength(1);
+    await expect(store.findBy("byEmail", "robert@x")).resolves.toHaveLength(1);
+    await store.deleteMany(["user:1", "user:2"]);
+    await expect(indexKeys()).resolves.toEqual([]);
+  });
+
+  it("should hide index keys from listings", async () => {
+    const store = createStore({ capabilities: { scan: true } });
+    await store.set("user:1", { email: "ann@x" });
+
+    await expect(store.keys()).resolves.toEqual(["user:1"]);
+    await expect(store.values()).resolves.toEqual([{ email: "ann@x" }]);
+    await expect(store.entries()).resolves.toHaveLength(1);
+    await expect(store.scan()).resolves.toEqual({
+      keys: ["user:1"],
+      cursor: null,
+    });
+    await expect(indexKeys()).resolves.toHaveLength(1);
+  });
+
+  it("should skip stale matches and repair drift with rebuildIndex", async () => {
+    const store = createStore();
+    await store.set("user:1", { email: "ann@x" });
+    // Writes made without the index leave it behind
+    await raw.set("user:1", { email: "anna@x" });
+    await raw.set("user:2", { email: "bob@x" });
+
+    await expect(store.findBy("byEmail", "ann@x")).resolves.toEqual([]);
+    await expect(store.findBy("byEmail", "bob@x")).resolves.toEqual([]);
+
+    await expect(store.rebuildIndex("byEmail")).resolves.toBe(2);
+    await expect(store.findBy("byEmail", "bob@x")).resolves.toEqual([
+      { key: "user:2", value: { email: "bob@x" } },
+    ]);
+    await expect(indexKeys()).resolves.toEqual([
+      `${INDEX_KEY_PREFIX}byEmail:"anna@x"`,
+      `${INDEX_KEY_PREFIX}byEmail:"bob@x"`,
+    ]);
+  });
+
+  it("should keep indexed values encrypted", async () => {
+    const store = createStore({
+      encryption: {
+        keys: { k1: new Uint8Array(32).fill(1) },
+        primaryKeyId: "k1",
+        deterministicKeys: true,
+      },
+      versioning: true,
+    });
+    await store.set("user:1", { email: "ann@x" });
+
+    expect(JSON.stringify(await raw.entries())).not.toContain("ann@x");
+    await expect(store.findBy("byEmail", "ann@x")).resolves.toHaveLength(1);
+    await expect(store.rebuildIndex()).resolves.toBe(1);
+    await expect(store.keys()).resolves.toEqual(["user:1"]);
+  });
+
+  it("should reject indexes that are not defined", async () => {
+    const store = createStore();
+
+    await expect(store.findBy("byName", "Ann")).rejects.toThrow(
+      'Index "byName" is not defined',
+    );
+    await expect(raw.rebuildIndex()).rejects.toBeInstanceOf(KVStoreError);
+  });
+});
@@ -1,5 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { KVStore, store } from "../src/index";
+import {
+  KVStore,
+  KVStoreAbortError,
+  KVStoreAuthError,
+  KVStoreConflictError,
+  KVStoreError,
+  KVStoreNetworkError,
+  KVStoreNotFoundError,
+  KVStoreRateLimitError,
+  KVStoreServerError,
+  KVStoreTimeoutError,
+  store,
+} from "../src/index";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -82,6 +94,456 @@ describe("KVStore", () => {
     });
   });
 
+  describe("error handling", () => {
+    const failWith = (status: number, body: any, headers = {}) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        json: () => Promise.resolve(body),
+      });
+    };
+
+    it.each([
+      [401, KVStoreAuthError],
+      [403, KVStoreAuthError],
+      [404, KVStoreNotFoundError],
+      [409, KVStoreConflictError],
+      [429, KVStoreRateLimitError],
+      [500, KVStoreServerError],
+      [503, KVStoreServerError],
+      [400, KVStoreError],
+    ])("should map status %i to %O", async (status, ErrorClass) => {
+      failWith(status, { error: "Nope" });
+
+      const promise = kvStore.get("key1");
+
+      await expect(promise).rejects.toBeInstanceOf(ErrorClass);
+      await expect(promise).rejects.toBeInstanceOf(KVStoreError);
+      await expect(promise).rejects.toThrow("Nope");
+    });
+
+    it("should expose request details on the error", async () => {
+      const body = { error: "Key not found", key: "key1" };
+      failWith(404, body);
+
+      const error = await kvStore.get("key1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(KVStoreNotFoundError);
+      expect(error.name).toBe("KVStoreNotFoundError");
+      expect(error.status).toBe(404);
+      expect(error.action).toBe("get");
+      expect(error.dbName).toBe(options.dbName);
+      expect(error.storeName).toBe(options.storeName);
+      expect(error.body).toEqual(body);
+    });
+
+    it("should report the db and store names sent with the request", async () => {
+      failWith(404, { error: "Store not found" });
+
+      const error = await kvStore.entries("db1", "store1").catch((e) => e);
+
+      expect(error.dbName).toBe("db1");
+      expect(error.storeName).toBe("store1");
+    });
+
+    it("should parse the Retry-After header", async () => {
+      failWith(429, { error: "Slow down" }, { "Retry-After": "3" });
+
+      const error = await kvStore.keys().catch((e) => e);
+
+      expect(error).toBeInstanceOf(KVStoreRateLimitError);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it("should wrap fetch failures in a network error", async () => {
+      const cause = new TypeError("fetch failed");
+      mockFetch.mockRejectedValueOnce(cause);
+
+      const error = await kvStore.set("key1", "value1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(KVStoreNetworkError);
+      expect(error.action).toBe("set");
+      expect(error.status).toBeUndefined();
+      expect(error.cause).toBe(cause);
+    });
+
+    it("should fall back to the status when the error body is not JSON", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+      });
+
+      const error = await kvStore.values().catch((e) => e);
+
+      expect(error).toBeInstanceOf(KVStoreServerError);
+      expect(error.message).toBe("Request failed");
+      expect(error.body).toEqual({});
+    });
+
+    it("should reject successful responses that are not JSON", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+      });
+
+      await expect(kvStore.keys()).rejects.toThrow("Invalid JSON response");
+    });
+  });
+
+  describe("retries", () => {
+    const respond = (status: number, body: any, headers = {}) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: status < 400,
+        status,
+        headers: new Headers(headers),
+        json: () => Promise.resolve(body),
+      });
+    };
+
+    beforeEach(() => {
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        retry: { baseDelayMs: 0, jitter: false },
+      });
+    });
+
+    it("should not retry when no policy is configured", async () => {
+      kvStore = new KVStore(apiUrl, options);
+      respond(503, { error: "Unavailable" });
+
+      await expect(kvStore.get("key1")).rejects.toBeInstanceOf(
+        KVStoreServerError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry reads on transient statuses", async () => {
+      respond(503, { error: "Unavailable" });
+      respond(502, { error: "Bad gateway" });
+      respond(200, { success: true, value: "value1" });
+
+      await expect(kvStore.get("key1")).resolves.toBe("value1");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry reads on network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+      respond(200, { success: true, keys: ["key1"] });
+
+      await expect(kvStore.keys()).resolves.toEqual(["key1"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      respond(500, { error: "Boom" });
+      respond(500, { error: "Boom" });
+      respond(500, { error: "Boom" });
+
+      await expect(kvStore.values()).rejects.toThrow("Boom");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry non-transient statuses", async () => {
+      respond(404, { error: "Key not found" });
+
+      await expect(kvStore.get("key1")).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry writes only when opted in", async () => {
+      respond(503, { error: "Unavailable" });
+      await expect(kvStore.set("key1", "value1")).rejects.toThrow();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        retry: { baseDelayMs: 0, retryWrites: true },
+      });
+      respond(503, { error: "Unavailable" });
+      respond(200, { success: true });
+
+      await expect(kvStore.set("key1", "value1")).resolves.toEqual({
+        success: true,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should never retry clear unless destructive retries are allowed", async () => {
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        retry: { baseDelayMs: 0, retryWrites: true },
+      });
+      respond(503, { error: "Unavailable" });
+
+      await expect(kvStore.clear()).rejects.toThrow();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for Retry-After before retrying", async () => {
+      vi.useFakeTimers();
+      try {
+        respond(429, { error: "Slow down" }, { "Retry-After": "2" });
+        respond(200, { success: true, values: [] });
+
+        const promise = kvStore.values();
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(promise).resolves.toEqual([]);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    const hang = () => {
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError")),
+            );
+          }),
+      );
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should not pass a signal when no timeout or signal is given", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ value: "value1" }),
+      });
+
+      await kvStore.get("key1");
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeUndefined();
+    });
+
+    it("should time out using the default timeout", async () => {
+      kvStore = new KVStore(apiUrl, { ...options, timeoutMs: 1000 });
+      hang();
+
+      const promise = kvStore.get("key1").catch((e) => e);
+      await vi.advanceTimersByTimeAsync(1000);
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(KVStoreTimeoutError);
+      expect(error.timeoutMs).toBe(1000);
+      expect(error.action).toBe("get");
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should let a per-call timeout override the default", async () => {
+      kvStore = new KVStore(apiUrl, { ...options, timeoutMs: 60000 });
+      hang();
+
+      const promise = kvStore.entries("db1", "store1", { timeoutMs: 50 });
+      const assertion =
+        expect(promise).rejects.toBeInstanceOf(KVStoreTimeoutError);
+      await vi.advanceTimersByTimeAsync(50);
+      await assertion;
+    });
+
+    it("should time out even if fetch ignores the signal", async () => {
+      mockFetch.mockImplementationOnce(() => new Promise(() => {}));
+
+      const promise = kvStore.keys({ timeoutMs: 10 });
+      const assertion =
+        expect(promise).rejects.toBeInstanceOf(KVStoreTimeoutError);
+      await vi.advanceTimersByTimeAsync(10);
+      await assertion;
+    });
+
+    it("should abort an in-flight request", async () => {
+      const controller = new AbortController();
+      hang();
+
+      const promise = kvStore.get("key1", { signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(KVStoreAbortError);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should not send a request when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        kvStore.set("key1", "value1", { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(KVStoreAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should clear the timeout once a response arrives", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ keys: [] }),
+      });
+
+      await kvStore.keys({ timeoutMs: 1000 });
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should retry timed out reads", async () => {
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        timeoutMs: 100,
+        retry: { baseDelayMs: 0, jitter: false },
+      });
+      hang();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ value: "value1" }),
+      });
+
+      const promise = kvStore.get("key1");
+      await vi.advanceTimersByTimeAsync(100);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toBe("value1");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop waiting between retries when aborted", async () => {
+      const controller = new AbortController();
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        retry: { baseDelayMs: 10000, jitter: false },
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        json: () => Promise.resolve({ error: "Unavailable" }),
+      });
+
+      const promise = kvStore.values({ signal: controller.signal });
+      const assertion =
+        expect(promise).rejects.toBeInstanceOf(KVStoreAbortError);
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      await assertion;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("transport and middleware", () => {
+    const ok = (body: any) => ({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(body),
+    });
+
+    it("should use a custom fetch instead of the global one", async () => {
+      const customFetch = vi.fn().mockResolvedValue(ok({ value: "value1" }));
+      kvStore = new KVStore(apiUrl, { ...options, fetch: customFetch });
+
+      await expect(kvStore.get("key1")).resolves.toBe("value1");
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should let middleware add headers and envelope fields", async () => {
+      mockFetch.mockResolvedValueOnce(ok({ success: true }));
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        middleware: [
+          async (request, next) => {
+            request.headers["X-Tenant-Id"] = "acme";
+            request.envelope.tenant = "acme";
+            return await next(request);
+          },
+        ],
+      });
+
+      await kvStore.set("key1", "value1");
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers["X-Tenant-Id"]).toBe("acme");
+      expect(JSON.parse(init.body)).toMatchObject({
+        action: "set",
+        key: "key1",
+        tenant: "acme",
+      });
+    });
+
+    it("should run middleware registered with use in order", async () => {
+      mockFetch.mockResolvedValueOnce(ok({ keys: [] }));
+      const order: string[] = [];
+
+      kvStore
+        .use(async (request, next) => {
+          order.push("first");
+          return await next(request);
+        })
+        .use(async (request, next) => {
+          order.push("second");
+          return await next(request);
+        });
+      await kvStore.keys();
+
+      expect(order).toEqual(["first", "second"]);
+    });
+
+    it("should let middleware see error responses", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: "Key not found" }),
+      });
+      const seen = vi.fn();
+      kvStore.use(async (request, next) => {
+        const response = await next(request);
+        seen(request.envelope.action, response.status);
+        return response;
+      });
+
+      await expect(kvStore.get("key1")).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+      expect(seen).toHaveBeenCalledWith("get", 404);
+    });
+
+    it("should run middleware again for each retry attempt", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          json: () => Promise.resolve({ error: "Unavailable" }),
+        })
+        .mockResolvedValueOnce(ok({ values: [] }));
+      const middleware = vi.fn((request, next) => next(request));
+      kvStore = new KVStore(apiUrl, {
+        ...options,
+        retry: { baseDelayMs: 0 },
+        middleware: [middleware],
+      });
+
+      await kvStore.values();
+
+      expect(middleware).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("register", () => {
     it("should call _request with register action", async () => {
       const mockResponse = { success: true };
@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import {
+  type KVEntry,
+  KVStore,
+  KVStoreAuthError,
+  type KVStoreClient,
+  KVStoreConflictError,
+  KVStoreError,
+  KVStoreNotFoundError,
+  MemoryKVStore,
+  MemoryServer,
+} from "../src/index";
+
+describe("MemoryKVStore", () => {
+  let kvStore: KVStoreClient;
+
+  beforeEach(() => {
+    kvStore = new MemoryKVStore({ dbName: "db", storeName: "store" });
+  });
+
+  it("should be a KVStore", () => {
+    expect(kvStore).toBeInstanceOf(KVStore);
+  });
+
+  describe("key-value actions", () => {
+    it("should set and get values", async () => {
+      await kvStore.set("user:1", { name: "Alice" });
+
+      await expect(kvStore.get("user:1")).resolves.toEqual({ name: "Alice" });
+    });
+
+    it("should not share stored objects with callers", async () => {
+      const value = { name: "Alice" };
+      await kvStore.set("user:1", value);
+      value.name = "Mallory";
+
+      const stored = await kvStore.get("user:1");
+      stored.name = "Eve";
+
+      await expect(kvStore.get("user:1")).resolves.toEqual({ name: "Alice" });
+    });
+
+    it("should throw not found for missing keys", async () => {
+      await expect(kvStore.get("missing")).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+      await expect(kvStore.update("missing", 1)).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+      await expect(kvStore.delete("missing")).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+    });
+
+    it("should update and delete existing keys", async () => {
+      await kvStore.set("counter", 1);
+      await kvStore.update("counter", 2);
+      await expect(kvStore.get("counter")).resolves.toBe(2);
+
+      await kvStore.delete("counter");
+      await expect(kvStore.keys()).resolves.toEqual([]);
+    });
+
+    it("should handle batch actions", async () => {
+      await kvStore.setMany([
+        { key: "a", value: 1 },
+        { key: "b", value: 2 },
+        { key: "c", value: 3 },
+      ]);
+
+      await expect(kvStore.getMany(["a", "missing", "c"])).resolves.toEqual([
+        1,
+        null,
+        3,
+      ]);
+
+      await kvStore.deleteMany(["a", "b"]);
+      await expect(kvStore.keys()).resolves.toEqual(["c"]);
+    });
+
+    it("should list keys, values and entries in insertion order", async () => {
+      await kvStore.set("a", 1);
+      await kvStore.set("b", 2);
+
+      await expect(kvStore.keys()).resolves.toEqual(["a", "b"]);
+      await expect(kvStore.values()).resolves.toEqual([1, 2]);
+      await expect(kvStore.entries("db", "store")).resolves.toEqual([
+        { key: "a", value: 1 },
+        { key: "b", value: 2 },
+      ]);
+    });
+
+    it("should clear the store", async () => {
+      await kvStore.set("a", 1);
+      await kvStore.clear();
+
+      await expect(kvStore.keys()).resolves.toEqual([]);
+    });
+  });
+
+  describe("database and store actions", () => {
+    it("should create, list and delete databases", async () => {
+      await kvStore.createDatabase("other");
+
+      const result = await kvStore.getDatabases();
+      expect(result.databases).toEqual(["db", "other"]);
+
+      await expect(kvStore.createDatabase("other")).rejects.toBeInstanceOf(
+        KVStoreConflictError,
+      );
+
+      await kvStore.deleteDatabase("other");
+      await expect(kvStore.deleteDatabase("other")).rejects.toBeInstanceOf(
+        KVStoreNotFoundError,
+      );
+    });
+
+    it("should create, list and delete stores", async () => {
+      await kvStore.createStore("db", "second");
+      await expect(kvStore.getStores("db")).resolves.toEqual([
+        "store",
+        "second",
+      ]);
+
+      await kvStore.deleteStore("db", "second");
+      await expect(kvStore.getStores("db")).resolves.toEqual(["store"]);
+    });
+
+    it("should report missing databases and stores", async () => {
+      await expect(kvStore.getStores("nope")).rejects.toThrow(
+        "Database not found",
+      );
+      await expect(kvStore.entries("db", "nope")).rejects.toThrow(
+        "Store not found",
+      );
+    });
+  });
+
+  describe("user actions", () => {
+    it("should register and log in users", async () => {
+      await kvStore.register({
+        username: "alice",
+        email: "alice@example.com",
+        password: "secret",
+      });
+
+      const result = await kvStore.login({
+        username: "alice",
+        password: "secret",
+      });
+      expect(result.success).toBe(true);
+      expect(typeof result.token).toBe("string");
+
+      await expect(
+        kvStore.login({ username: "alice", password: "wrong" }),
+      ).rejects.toBeInstanceOf(KVStoreAuthError);
+    });
+
+    it("should reject duplicate registrations", async () => {
+      const form = { username: "bob", email: "", password: "pw" };
+      await kvStore.register(form);
+
+      await expect(kvStore.register(form)).rejects.toBeInstanceOf(
+        KVStoreConflictError,
+      );
+    });
+
+    it("should issue working tokens", async () => {
+      const server = new MemoryServer();
+      const first = new MemoryKVStore({ server });
+      const { token } = await first.generateToken();
+
+      const second = new KVStore("memory://", {
+        accessToken: token,
+        dbName: "default",
+        storeName: "default",
+        fetch: server.fetch,
+      });
+      await first.set("shared", true);
+
+      await expect(second.get("shared")).resolves.toBe(true);
+    });
+
+    it("should reject unknown tokens", async () => {
+      const server = new MemoryServer();
+      const client = new KVStore("memory://", {
+        accessToken: "unknown",
+        dbName: "db",
+        storeName: "store",
+        fetch: server.fetch,
+      });
+
+      await expect(client.keys()).rejects.toBeInstanceOf(KVStoreAuthError);
+    });
+
+    it("should return user info and change passwords", async () => {
+      await expect(kvStore.getUserInfo()).resolves.toMatchObject({
+        user: { username: "memory" },
+      });
+
+      await kvStore.changePassword("", "new-password");
+      await expect(
+        kvStore.changePassword("wrong", "other"),
+      ).rejects.toBeInstanceOf(KVStoreAuthError);
+    });
+
+    it("should delete the account and revoke its tokens", async () => {
+      await kvStore.changePassword("", "pw");
+
+      await expect(kvStore.deleteAccount("pw", "NOPE")).rejects.toBeInstanceOf(
+        KVStoreError,
+      );
+      await kvStore.deleteAccount("pw", "DELETE");
+
+      await expect(kvStore.keys()).rejects.toBeInstanceOf(KVStoreAuthError);
+    });
+  });
+
+  it("should share data through a shared server", async () => {
+    const server = new MemoryServer();
+    const first = new MemoryKVStore({ server });
+    const second = new MemoryKVStore({ server });
+
+    await first.set("key", "value");
+
+    await expect(second.get("key")).resolves.toBe("value");
+  });
+
+  it("should run middleware like the remote store", async () => {
+    const middleware = vi.fn((request, next) => next(request));
+    const memory = new MemoryKVStore({ middleware: [middleware] });
+
+    await memory.set("key", "value");
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(middleware.mock.calls[0][0].envelope).toMatchObject({
+      action: "set",
+      key: "key",
+    });
+  });
+});
+
+describe("schema typing", () => {
+  interface User {
+    name: string;
+  }
+  interface AppSchema {
+    [key: `user:${string}`]: User;
+    config: { debug: boolean };
+  }
+
+  it("should type values by key pattern", async () => {
+    const typed = new MemoryKVStore<AppSchema>();
+
+    await typed.set("user:1", { name: "Alice" });
+    await typed.set("config", { debug: true });
+    // @ts-expect-error values must match the key family
+    const invalid = () => typed.set("user:2", { debug: true });
+
+    const user = await typed.get("user:1");
+    const users = await typed.getMany(["user:1", "user:2"]);
+    const entries = await typed.entries("default", "default");
+
+    expectTypeOf(user).toEqualTypeOf<User>();
+    expectTypeOf(users).toEqualTypeOf<(User | null)[]>();
+    expectTypeOf(entries).toEqualTypeOf<KVEntry<AppSchema>[]>();
+    expect(user).toEqual({ name: "Alice" });
+    expect(users).toEqual([{ name: "Alice" }, null]);
+    expect(invalid).toBeInstanceOf(Function);
+  });
+
+  it("should default to untyped values", async () => {
+    const untyped = new MemoryKVStore();
+    await untyped.set("anything", 1);
+
+    expectTypeOf(await untyped.get("anything")).toBeAny();
+  });
+});
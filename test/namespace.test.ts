@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest";
+import { KVNamespace, MemoryKVStore } from "../src/index";
+
+describe("KVNamespace", () => {
+  let store: MemoryKVStore;
+  let actions: string[];
+
+  beforeEach(async () => {
+    actions = [];
+    store = new MemoryKVStore({
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+    });
+    await store.setMany([
+      { key: "user:1", value: "Alice" },
+      { key: "user:admin:1", value: "Root" },
+      { key: "order:1", value: 42 },
+    ]);
+    actions = [];
+  });
+
+  it("should prefix keys of single-key actions", async () => {
+    const users = store.namespace("user:");
+
+    await users.set("2", "Bob");
+    await expect(store.get("user:2")).resolves.toBe("Bob");
+    await expect(users.get("1")).resolves.toBe("Alice");
+
+    await users.update("2", "Bobby");
+    await expect(store.get("user:2")).resolves.toBe("Bobby");
+
+    await users.delete("2");
+    await expect(store.keys()).resolves.not.toContain("user:2");
+  });
+
+  it("should prefix keys of batch actions", async () => {
+    const users = store.namespace("user:");
+
+    await users.setMany([
+      { key: "2", value: "Bob" },
+      { key: "3", value: "Carol" },
+    ]);
+    await expect(users.getMany(["2", "3", "4"])).resolves.toEqual([
+      "Bob",
+      "Carol",
+      null,
+    ]);
+
+    await users.deleteMany(["2", "3"]);
+    await expect(store.getMany(["user:2", "user:3"])).resolves.toEqual([
+      null,
+      null,
+    ]);
+  });
+
+  it("should list only the namespace, with relative keys", async () => {
+    const users = store.namespace("user:");
+
+    await expect(users.keys()).resolves.toEqual(["1", "admin:1"]);
+    await expect(users.values()).resolves.toEqual(["Alice", "Root"]);
+    await expect(users.entries()).resolves.toEqual([
+      { key: "1", value: "Alice" },
+      { key: "admin:1", value: "Root" },
+    ]);
+  });
+
+  it("should return empty listings without reading values", async () => {
+    const empty = store.namespace("missing:");
+
+    await expect(empty.entries()).resolves.toEqual([]);
+    expect(actions).toEqual(["keys"]);
+  });
+
+  it("should clear only the namespace through deleteMany", async () => {
+    await store.namespace("user:").clear();
+
+    expect(actions).toEqual(["keys", "deleteMany"]);
+    await expect(store.keys()).resolves.toEqual(["order:1"]);
+  });
+
+  it("should not send a request when clearing an empty namespace", async () => {
+    await expect(store.namespace("missing:").clear()).resolves.toEqual({
+      success: true,
+      count: 0,
+    });
+    expect(actions).toEqual(["keys"]);
+  });
+
+  it("should nest namespaces", async () => {
+    const admins = store.namespace("user:").namespace("admin:");
+
+    expect(admins).toBeInstanceOf(KVNamespace);
+    expect(admins.prefix).toBe("user:admin:");
+    await expect(admins.keys()).resolves.toEqual(["1"]);
+    await expect(admins.get("1")).resolves.toBe("Root");
+
+    await admins.clear();
+    await expect(store.keys()).resolves.toEqual(["user:1", "order:1"]);
+  });
+
+  it("should type values with the namespace schema", () => {
+    interface User {
+      name: string;
+    }
+    const users = store.namespace<{ [id: string]: User }>("user:");
+
+    expectTypeOf(users.get("1")).toEqualTypeOf<Promise<User>>();
+    // @ts-expect-error values must match the schema
+    const invalid = () => users.set("1", { debug: true });
+    expect(invalid).toBeTypeOf("function");
+  });
+});
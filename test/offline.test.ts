@@ -0,0 +1,358 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FileQueueStorage,
+  type KVQueueItem,
+  KVStoreNetworkError,
+  KVStoreNotFoundError,
+  KVStoreTimeoutError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryQueueStorage,
+  MemoryServer,
+  type OfflineOptions,
+} from "../src/index";
+
+describe("offline write queue", () => {
+  let online: boolean;
+  let reachable: string[];
+  let conflicting: string[];
+  let sent: string[];
+  let server: MemoryServer;
+
+  const createStore = (
+    offline: OfflineOptions | boolean = true,
+    options: MemoryKVStoreOptions = {},
+  ) =>
+    new MemoryKVStore({
+      server,
+      offline,
+      middleware: [
+        async (request, next) => {
+          if (!online && reachable.indexOf(request.envelope.action) === -1) {
+            throw new KVStoreNetworkError("Network unreachable", {
+              action: request.envelope.action,
+            });
+          }
+          sent.push(request.envelope.action);
+          if (conflicting.indexOf(request.envelope.key) !== -1) {
+            return {
+              status: 409,
+              ok: false,
+              body: { error: "Conflict" },
+              request,
+            };
+          }
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(() => {
+    online = true;
+    reachable = [];
+    conflicting = [];
+    sent = [];
+    server = new MemoryServer();
+  });
+
+  it("should queue writes while the server is unreachable", async () => {
+    const store = createStore();
+    online = false;
+
+    await expect(store.set("a", 1)).resolves.toEqual({
+      success: true,
+      queued: true,
+    });
+    await store.delete("b");
+
+    const pending = await store.getPendingWrites();
+    expect(pending.map((item) => item.action)).toEqual(["set", "delete"]);
+    // The deletion tried to replay the set before joining the queue
+    expect(pending[0]).toMatchObject({
+      params: { dbName: "default", storeName: "default", key: "a", value: 1 },
+      entries: [{ key: "a", value: 1 }],
+      attempts: 1,
+    });
+  });
+
+  it("should let reads see pending writes", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+    ]);
+    online = false;
+
+    await store.set("a", 10);
+    await store.delete("b");
+
+    await expect(store.get("a")).resolves.toBe(10);
+    await expect(store.get("b")).rejects.toBeInstanceOf(KVStoreNotFoundError);
+    online = true;
+    await store.set("c", 3);
+    await expect(store.getMany(["a", "b", "c"])).resolves.toEqual([
+      10,
+      null,
+      3,
+    ]);
+  });
+
+  it("should let listings see pending writes", async () => {
+    const store = createStore();
+    await store.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+    ]);
+    await store.createStore("default", "other");
+    online = false;
+    reachable = ["keys", "values", "entries"];
+
+    await store.set("a", 10);
+    await store.delete("b");
+    await store.set("c", 3);
+
+    await expect(store.keys()).resolves.toEqual(["a", "c"]);
+    await expect(store.values()).resolves.toEqual([10, 3]);
+    await expect(store.entries()).resolves.toEqual([
+      { key: "a", value: 10 },
+      { key: "c", value: 3 },
+    ]);
+    await expect(store.withStore("other").keys()).resolves.toEqual([]);
+  });
+
+  it("should keep later writes behind queued ones and replay in order", async () => {
+    const store = createStore();
+    online = false;
+    await store.set("a", 1);
+    await store.set("a", 2);
+    expect(await store.getPendingWrites()).toHaveLength(2);
+    online = true;
+
+    await expect(store.flushQueue()).resolves.toEqual({
+      replayed: 2,
+      dropped: 0,
+      remaining: 0,
+    });
+    expect(sent).toEqual(["set", "set"]);
+    await expect(store.get("a")).resolves.toBe(2);
+    await expect(store.getPendingWrites()).resolves.toEqual([]);
+  });
+
+  it("should replay before a write once the server is back", async () => {
+    const store = createStore();
+    online = false;
+    await store.set("a", 1);
+    await store.delete("b");
+    online = true;
+
+    await expect(store.set("a", 2)).resolves.not.toHaveProperty("queued");
+
+    expect(sent).toEqual(["set", "delete", "set"]);
+    await expect(store.getPendingWrites()).resolves.toEqual([]);
+    await expect(createStore(false).get("a")).resolves.toBe(2);
+  });
+
+  it("should replay in the background once a request succeeds", async () => {
+    const store = createStore();
+    online = false;
+    await store.set("a", 1);
+    online = true;
+
+    await store.keys();
+    await store.flushQueue();
+
+    expect(sent).toEqual(["keys", "set"]);
+    await expect(store.getPendingWrites()).resolves.toEqual([]);
+  });
+
+  it("should keep indexes and the cache up to date on replay", async () => {
+    const store = createStore(true, {
+      cache: true,
+      indexes: { byEmail: { prefix: "user:", field: "email" } },
+    });
+    await store.set("user:1", { email: "ann@x" });
+    online = false;
+    await store.set("user:1", { email: "bob@x" });
+    await store.set("user:2", { email: "bob@x" });
+    online = true;
+
+    await store.flushQueue();
+
+    await expect(store.get("user:1")).resolves.toEqual({ email: "bob@x" });
+    expect(store.getCacheStats()).toMatchObject({ hits: 1, misses: 0 });
+    await expect(store.findBy("byEmail", "bob@x")).resolves.toHaveLength(2);
+    await expect(store.findBy("byEmail", "ann@x")).resolves.toEqual([]);
+  });
+
+  it("should never queue compareAndSet or modify", async () => {
+    const store = createStore(true, { versioning: true });
+    await store.set("a", 1);
+    const { version } = await store.getWithVersion("a");
+    online = false;
+    reachable = ["get"];
+
+    await expect(store.compareAndSet("a", version, 2)).rejects.toBeInstanceOf(
+      KVStoreNetworkError,
+    );
+    await store.set("b", 1);
+    await expect(
+      store.modify("a", (value) => (value ?? 0) + 1),
+    ).rejects.toThrow("Queued writes must reach the server first");
+    expect(
+      (await store.getPendingWrites()).map((item) => item.params.key),
+    ).toEqual(["b"]);
+    online = true;
+
+    await expect(store.compareAndSet("a", version, 2)).resolves.toEqual(
+      expect.any(String),
+    );
+    await expect(store.get("a")).resolves.toBe(2);
+  });
+
+  it("should stop replaying while the server is unreachable", async () => {
+    const store = createStore();
+    online = false;
+    await store.set("a", 1);
+    await store.set("b", 2);
+
+    await expect(store.flushQueue()).resolves.toEqual({
+      replayed: 0,
+      dropped: 0,
+      remaining: 2,
+    });
+    // The second write tried a replay before joining the queue
+    const [first] = await store.getPendingWrites();
+    expect(first.attempts).toBe(2);
+  });
+
+  it("should drop permanently failed writes and report them", async () => {
+    const failures: string[] = [];
+    const store = createStore({
+      onPermanentFailure: (item, error) => {
+        failures.push(`${item.action} ${error.status}`);
+      },
+    });
+    online = false;
+    await store.update("missing", 1);
+    await store.set("a", 1);
+    online = true;
+
+    await expect(store.flushQueue()).resolves.toEqual({
+      replayed: 1,
+      dropped: 1,
+      remaining: 0,
+    });
+    expect(failures).toEqual(["update 404"]);
+    await expect(store.get("a")).resolves.toBe(1);
+  });
+
+  it("should let the conflict hook keep a write queued", async () => {
+    const onConflict = vi.fn((item: KVQueueItem) =>
+      item.params.key === "a" ? ("retry" as const) : ("drop" as const),
+    );
+    const store = createStore({ onConflict });
+    online = false;
+    await store.set("b", 1);
+    await store.set("a", 1);
+    online = true;
+    conflicting = ["a", "b"];
+
+    await expect(store.flushQueue()).resolves.toEqual({
+      replayed: 0,
+      dropped: 1,
+      remaining: 1,
+    });
+    expect(onConflict).toHaveBeenCalledTimes(2);
+    const [pending] = await store.getPendingWrites();
+    expect(pending).toMatchObject({ params: { key: "a" }, attempts: 1 });
+  });
+
+  it("should treat a replayed deletion of a missing key as done", async () => {
+    const onPermanentFailure = vi.fn();
+    const store = createStore({ onPermanentFailure });
+    await store.set("a", 1);
+    online = false;
+    await store.delete("a");
+    online = true;
+    await createStore(false).delete("a");
+
+    await expect(store.flushQueue()).resolves.toEqual({
+      replayed: 1,
+      dropped: 0,
+      remaining: 0,
+    });
+    expect(onPermanentFailure).not.toHaveBeenCalled();
+  });
+
+  it("should not queue writes that timed out", async () => {
+    const store = createStore(true, {
+      middleware: [
+        async (request) => {
+          throw new KVStoreTimeoutError("Request timed out after 10ms", {
+            action: request.envelope.action,
+            timeoutMs: 10,
+          });
+        },
+      ],
+    });
+
+    await expect(store.set("a", 1)).rejects.toBeInstanceOf(KVStoreTimeoutError);
+    await expect(store.getPendingWrites()).resolves.toEqual([]);
+  });
+
+  it("should restore the queue from its storage", async () => {
+    const storage = new MemoryQueueStorage();
+    online = false;
+    await createStore({ storage }).set("a", 1);
+    online = true;
+
+    const restarted = createStore({ storage });
+    await expect(restarted.get("a")).resolves.toBe(1);
+    await restarted.flushQueue();
+
+    await expect(createStore(false).get("a")).resolves.toBe(1);
+  });
+
+  it("should not queue writes when offline mode is disabled", async () => {
+    const store = createStore(false);
+    online = false;
+
+    await expect(store.set("a", 1)).rejects.toBeInstanceOf(KVStoreNetworkError);
+    await expect(store.getPendingWrites()).resolves.toEqual([]);
+  });
+});
+
+describe("FileQueueStorage", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "kvstore-queue-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should start empty and persist items", async () => {
+    const storage = new FileQueueStorage(join(directory, "queue.json"));
+    const item: KVQueueItem = {
+      id: "1",
+      action: "set",
+      params: { key: "a", value: 1 },
+      entries: [{ key: "a", value: 1 }],
+      queuedAt: 0,
+      attempts: 0,
+    };
+
+    await expect(storage.load()).resolves.toEqual([]);
+    await storage.save([item]);
+
+    await expect(
+      new FileQueueStorage(join(directory, "queue.json")).load(),
+    ).resolves.toEqual([item]);
+  });
+});
@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  KVStoreConflictError,
+  KVStoreNotFoundError,
+  KVStorePatchError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+describe("applyMergePatch", () => {
+  it("should merge objects and remove null members", () => {
+    const target = { title: "Hello", author: { given: "John", family: "Doe" } };
+
+    expect(
+      applyMergePatch(target, { title: "Hi", author: { family: null } }),
+    ).toEqual({ title: "Hi", author: { given: "John" } });
+    expect(target.author.family).toBe("Doe");
+  });
+
+  it("should replace non-object targets and values", () => {
+    expect(applyMergePatch([1, 2], { a: 1 })).toEqual({ a: 1 });
+    expect(applyMergePatch({ a: 1 }, ["b"])).toEqual(["b"]);
+    expect(applyMergePatch(undefined, { a: { b: null } })).toEqual({ a: {} });
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("should apply operations in order", () => {
+    const document = { a: [1, 2], "b/c": { "d~e": 1 } };
+
+    const result = applyJsonPatch(document, [
+      { op: "add", path: "/a/1", value: 5 },
+      { op: "add", path: "/a/-", value: 9 },
+      { op: "remove", path: "/a/0" },
+      { op: "replace", path: "/b~1c/d~0e", value: 2 },
+      { op: "copy", from: "/a", path: "/copy" },
+      { op: "move", from: "/copy", path: "/moved" },
+      { op: "test", path: "/moved", value: [5, 2, 9] },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: { a: [5, 2, 9], "b/c": { "d~e": 2 }, moved: [5, 2, 9] },
+    });
+    expect(document).toEqual({ a: [1, 2], "b/c": { "d~e": 1 } });
+  });
+
+  it("should report the failed operation", () => {
+    expect(
+      applyJsonPatch({ a: 1 }, [
+        { op: "replace", path: "/a", value: 2 },
+        { op: "test", path: "/a", value: 1 },
+      ]),
+    ).toMatchObject({ ok: false, operation: 1 });
+    expect(
+      applyJsonPatch({ a: [] }, [{ op: "remove", path: "/a/0" }]),
+    ).toMatchObject({ ok: false, operation: 0 });
+    expect(
+      applyJsonPatch({ a: {} }, [{ op: "move", from: "/a", path: "/a/b" }]),
+    ).toMatchObject({ ok: false, operation: 0 });
+  });
+});
+
+describe("KVStore value helpers", () => {
+  let actions: string[];
+  let interfere: number;
+  let server: MemoryServer;
+  let other: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server,
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          const response = await next(request);
+          // Another writer changes the key right after it was read
+          if (request.envelope.action === "get" && interfere > 0) {
+            interfere--;
+            await other.set(request.envelope.key, { changes: interfere });
+          }
+          return response;
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(() => {
+    actions = [];
+    interfere = 0;
+    server = new MemoryServer();
+    other = new MemoryKVStore({ server });
+  });
+
+  it("should increment counters and push to arrays", async () => {
+    const store = createStore();
+
+    await expect(store.increment("visits")).resolves.toBe(1);
+    await expect(store.increment("visits", 5)).resolves.toBe(6);
+    await expect(store.push("log", "a")).resolves.toEqual(["a"]);
+    await expect(store.push("log", "b", "c")).resolves.toEqual(["a", "b", "c"]);
+    await expect(other.get("visits")).resolves.toBe(6);
+  });
+
+  it("should apply merge patches and JSON patches", async () => {
+    const store = createStore();
+    await store.set("user", { name: "Ann", tags: ["a"], nickname: "an" });
+
+    await store.mergePatch("user", { nickname: null, age: 30 });
+    const result = await store.applyPatch("user", [
+      { op: "add", path: "/tags/-", value: "b" },
+      { op: "replace", path: "/name", value: "Anna" },
+    ]);
+
+    expect(result).toEqual({ name: "Anna", tags: ["a", "b"], age: 30 });
+    await expect(other.get("user")).resolves.toEqual(result);
+  });
+
+  it("should reject operations that do not apply", async () => {
+    const store = createStore();
+    await store.set("name", "Ann");
+
+    await expect(store.increment("name")).rejects.toBeInstanceOf(
+      KVStorePatchError,
+    );
+    await expect(store.push("name", "x")).rejects.toThrow(
+      "Cannot push to a non-array value",
+    );
+    await expect(
+      store.applyPatch("missing", [{ op: "add", path: "/a", value: 1 }]),
+    ).rejects.toBeInstanceOf(KVStoreNotFoundError);
+    await expect(other.get("name")).resolves.toBe("Ann");
+  });
+
+  it("should start over when the value changes before the write", async () => {
+    const store = createStore();
+    await store.set("doc", { a: 1 });
+    interfere = 1;
+
+    await expect(store.mergePatch("doc", { b: 2 })).resolves.toEqual({
+      changes: 0,
+      b: 2,
+    });
+    expect(actions.filter((action) => action === "get")).toHaveLength(4);
+  });
+
+  it("should throw a conflict once the retries are exhausted", async () => {
+    const store = createStore();
+    await store.set("doc", { a: 1 });
+    interfere = 10;
+
+    const error = await store
+      .mergePatch("doc", { b: 2 }, { retries: 1 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreConflictError);
+    expect(actions.filter((action) => action === "get")).toHaveLength(4);
+    await expect(other.get("doc")).resolves.not.toHaveProperty("b");
+  });
+
+  it("should use the server actions when supported", async () => {
+    const store = createStore({ capabilities: { patch: true } });
+
+    await store.increment("n", 2);
+    await store.push("list", 1);
+    await store.mergePatch("doc", { a: 1 });
+    await store.applyPatch("doc", [{ op: "add", path: "/b", value: 2 }]);
+
+    expect(actions).toEqual(["increment", "push", "mergePatch", "applyPatch"]);
+    await expect(other.getMany(["n", "list", "doc"])).resolves.toEqual([
+      2,
+      [1],
+      { a: 1, b: 2 },
+    ]);
+    const error = await store
+      .applyPatch("doc", [
+        { op: "test", path: "/a", value: 1 },
+        { op: "test", path: "/b", value: 3 },
+      ])
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(KVStorePatchError);
+    expect(error).toMatchObject({ key: "doc", operation: 1, status: 422 });
+  });
+
+  it("should fall back on the client when values are wrapped", async () => {
+    const store = createStore({
+      capabilities: { patch: true },
+      codecs: true,
+      versioning: true,
+    });
+    await store.set("dates", [new Date(0)]);
+    actions = [];
+
+    await expect(store.push("dates", new Date(1))).resolves.toEqual([
+      new Date(0),
+      new Date(1),
+    ]);
+    expect(actions).toEqual(["get", "get", "update"]);
+    await expect(store.getWithVersion("dates")).resolves.toMatchObject({
+      value: [new Date(0), new Date(1)],
+      version: expect.any(String),
+    });
+  });
+});
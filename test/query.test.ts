@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest";
+import {
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+  runQuery,
+} from "../src/index";
+
+interface User {
+  name: string;
+  age: number;
+  address?: { city: string };
+  tags?: string[];
+}
+
+type Schema = Record<`user:${string}`, User> & Record<`post:${string}`, string>;
+
+const USERS: { key: `user:${string}`; value: User }[] = [
+  { key: "user:1", value: { name: "Eve", age: 41, tags: ["admin"] } },
+  { key: "user:2", value: { name: "Bob", age: 25 } },
+  {
+    key: "user:3",
+    value: { name: "Ann", age: 35, address: { city: "Paris" } },
+  },
+  { key: "user:4", value: { name: "Dan", age: 52, tags: ["admin", "ops"] } },
+];
+
+describe("runQuery", () => {
+  it("should filter, sort, page and project entries", () => {
+    const result = runQuery(USERS, {
+      where: [{ field: "age", operator: ">=", value: 35 }],
+      orderBy: [{ field: "age", direction: "desc" }],
+      select: ["name"],
+      offset: 1,
+      limit: 2,
+    });
+
+    expect(result).toEqual([
+      { key: "user:1", value: { name: "Eve" } },
+      { key: "user:3", value: { name: "Ann" } },
+    ]);
+  });
+
+  it("should support every operator", () => {
+    const keys = (field: string, operator: any, value: unknown) =>
+      runQuery(USERS, {
+        where: [{ field, operator, value }],
+        orderBy: [],
+      }).map((entry) => entry.key);
+
+    expect(keys("name", "=", "Bob")).toEqual(["user:2"]);
+    expect(keys("name", "!=", "Bob")).toHaveLength(3);
+    expect(keys("age", "<", 35)).toEqual(["user:2"]);
+    expect(keys("age", "<=", 35)).toEqual(["user:2", "user:3"]);
+    expect(keys("name", "in", ["Ann", "Dan"])).toEqual(["user:3", "user:4"]);
+    expect(keys("tags", "contains", "ops")).toEqual(["user:4"]);
+    expect(keys("name", "contains", "v")).toEqual(["user:1"]);
+    expect(keys("name", "startsWith", "D")).toEqual(["user:4"]);
+    expect(keys("address.city", "=", "Paris")).toEqual(["user:3"]);
+    expect(keys("age", ">", "30")).toEqual([]);
+  });
+
+  it("should sort missing fields last and keep key order for ties", () => {
+    const result = runQuery(USERS, {
+      where: [],
+      orderBy: [{ field: "address.city", direction: "asc" }],
+      select: ["name", "address.city"],
+      match: "user:?",
+    });
+
+    expect(result.map((entry) => entry.key)).toEqual([
+      "user:3",
+      "user:1",
+      "user:2",
+      "user:4",
+    ]);
+    expect(result[0].value).toEqual({
+      name: "Ann",
+      address: { city: "Paris" },
+    });
+  });
+});
+
+describe("KVStore.query", () => {
+  let actions: string[];
+  let server: MemoryServer;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore<Schema>({
+      server,
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(async () => {
+    actions = [];
+    server = new MemoryServer();
+    await new MemoryKVStore<Schema>({ server }).setMany([
+      ...USERS,
+      { key: "post:1", value: "hello" },
+    ]);
+  });
+
+  it("should run on the client through paginated iteration", async () => {
+    const store = createStore();
+
+    const results = await store
+      .query<User>()
+      .prefix("user:")
+      .where("age", ">", 30)
+      .orderBy("name")
+      .select(["name"])
+      .limit(2)
+      .run();
+
+    expect(results).toEqual([
+      { key: "user:3", value: { name: "Ann" } },
+      { key: "user:4", value: { name: "Dan" } },
+    ]);
+    expect(actions).toEqual(["scan", "getMany"]);
+    expectTypeOf(results[0].value).toEqualTypeOf<Pick<User, "name">>();
+  });
+
+  it("should run on the server when supported", async () => {
+    const store = createStore({ capabilities: { query: true } });
+
+    const query = store
+      .query<User>()
+      .match("user:*")
+      .where("tags", "contains", "admin")
+      .orderBy("age", "desc");
+
+    await expect(query.run()).resolves.toEqual([USERS[3], USERS[0]]);
+    await expect(query.select(["age"]).offset(1).run()).resolves.toEqual([
+      { key: "user:1", value: { age: 41 } },
+    ]);
+    expect(actions).toEqual(["query", "query"]);
+  });
+
+  it("should stop reading once the limit is reached", async () => {
+    const store = createStore();
+    await store.setMany(
+      Array.from({ length: 150 }, (_, i) => ({
+        key: `user:x${i}` as const,
+        value: { name: `User ${i}`, age: i },
+      })),
+    );
+    actions = [];
+
+    const seen: string[] = [];
+    for await (const entry of store
+      .query<User>()
+      .prefix("user:")
+      .where("age", ">=", 30)
+      .limit(3)
+      .stream()) {
+      seen.push(entry.key);
+    }
+
+    expect(seen).toEqual(["user:1", "user:3", "user:4"]);
+    expect(actions).toEqual(["scan", "getMany"]);
+  });
+
+  it("should fall back on the client when values are encoded", async () => {
+    const store = createStore({
+      capabilities: { query: true },
+      codecs: true,
+    });
+    await store.set("user:9", {
+      name: "Zoe",
+      age: 20,
+      born: new Date(5),
+    } as User);
+    actions = [];
+
+    const results = await store.query().where("born", "<", new Date(10)).run();
+
+    expect(results).toEqual([
+      { key: "user:9", value: { name: "Zoe", age: 20, born: new Date(5) } },
+    ]);
+    expect(actions).not.toContain("query");
+  });
+});
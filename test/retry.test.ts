@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  KVStoreError,
+  KVStoreNetworkError,
+  KVStoreRateLimitError,
+} from "../src/errors";
+import {
+  abortable,
+  getRetryDelay,
+  isRetryableAction,
+  isRetryableError,
+  type ResolvedRetryOptions,
+  resolveRetryOptions,
+  sleep,
+} from "../src/retry";
+
+describe("resolveRetryOptions", () => {
+  it("should disable retries when no policy is given", () => {
+    expect(resolveRetryOptions(undefined)).toBeUndefined();
+    expect(resolveRetryOptions(false)).toBeUndefined();
+  });
+
+  it("should fill in defaults", () => {
+    expect(resolveRetryOptions(true)).toEqual({
+      maxAttempts: 3,
+      baseDelayMs: 200,
+      maxDelayMs: 5000,
+      jitter: true,
+      retryOnStatus: [408, 429, 500, 502, 503, 504],
+      respectRetryAfter: true,
+      retryWrites: false,
+      retryDestructive: false,
+    });
+  });
+
+  it("should keep explicit values", () => {
+    const policy = resolveRetryOptions({ maxAttempts: 5, jitter: false });
+
+    expect(policy?.maxAttempts).toBe(5);
+    expect(policy?.jitter).toBe(false);
+  });
+});
+
+describe("isRetryableAction", () => {
+  const policy = resolveRetryOptions(true) as ResolvedRetryOptions;
+
+  it.each(["get", "getMany", "keys", "values", "entries", "scan", "query"])(
+    "should always retry %s",
+    (action) => {
+      expect(isRetryableAction(action, policy)).toBe(true);
+    },
+  );
+
+  it("should retry writes only with retryWrites", () => {
+    expect(isRetryableAction("set", policy)).toBe(false);
+    expect(isRetryableAction("setMany", policy)).toBe(false);
+
+    const writes = { ...policy, retryWrites: true };
+    expect(isRetryableAction("set", writes)).toBe(true);
+    expect(isRetryableAction("setMany", writes)).toBe(true);
+  });
+
+  it("should retry destructive actions only with retryDestructive", () => {
+    const destructive = { ...policy, retryDestructive: true };
+
+    for (const action of ["clear", "delete-store", "delete-database"]) {
+      expect(isRetryableAction(action, policy)).toBe(false);
+      expect(isRetryableAction(action, destructive)).toBe(true);
+    }
+  });
+
+  it("should never retry other actions", () => {
+    const all = { ...policy, retryWrites: true, retryDestructive: true };
+
+    expect(isRetryableAction("update", all)).toBe(false);
+    expect(isRetryableAction("login", all)).toBe(false);
+  });
+});
+
+describe("isRetryableError", () => {
+  const policy = resolveRetryOptions(true) as ResolvedRetryOptions;
+  const context = { action: "get" };
+
+  it("should retry network errors", () => {
+    expect(
+      isRetryableError(new KVStoreNetworkError("down", context), policy),
+    ).toBe(true);
+  });
+
+  it("should retry listed statuses only", () => {
+    expect(
+      isRetryableError(
+        new KVStoreError("busy", { ...context, status: 503 }),
+        policy,
+      ),
+    ).toBe(true);
+    expect(
+      isRetryableError(
+        new KVStoreError("bad", { ...context, status: 400 }),
+        policy,
+      ),
+    ).toBe(false);
+  });
+
+  it("should not retry unknown errors", () => {
+    expect(isRetryableError(new Error("boom"), policy)).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const policy = {
+    ...(resolveRetryOptions(true) as ResolvedRetryOptions),
+    jitter: false,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+  };
+
+  it("should back off exponentially up to the maximum", () => {
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(400);
+    expect(getRetryDelay(10, policy)).toBe(1000);
+  });
+
+  it("should apply jitter within the backoff", () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0.5);
+
+    expect(getRetryDelay(2, { ...policy, jitter: true })).toBe(100);
+  });
+
+  it("should honor Retry-After", () => {
+    const error = new KVStoreRateLimitError("slow", {
+      action: "get",
+      status: 429,
+      retryAfterMs: 3000,
+    });
+
+    expect(getRetryDelay(1, policy, error)).toBe(3000);
+    expect(
+      getRetryDelay(1, { ...policy, respectRetryAfter: false }, error),
+    ).toBe(100);
+  });
+});
+
+describe("sleep", () => {
+  it("should reject with the abort reason and clear its timer", async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const promise = sleep(1000, controller.signal);
+
+      controller.abort("stop");
+
+      await expect(promise).rejects.toBe("stop");
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("abortable", () => {
+  it("should settle with the promise when not aborted", async () => {
+    const controller = new AbortController();
+
+    await expect(
+      abortable(Promise.resolve(1), controller.signal),
+    ).resolves.toBe(1);
+  });
+
+  it("should reject when the signal aborts first", async () => {
+    const controller = new AbortController();
+    const promise = abortable(new Promise(() => {}), controller.signal);
+
+    controller.abort("stop");
+
+    await expect(promise).rejects.toBe("stop");
+  });
+});
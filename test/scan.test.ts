@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  globToRegExp,
+  type KVEntry,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+import { scanKeys } from "../src/scan";
+
+describe("globToRegExp", () => {
+  it("should match wildcards and escape other characters", () => {
+    const pattern = globToRegExp("user:*.json?");
+
+    expect(pattern.test("user:1.json5")).toBe(true);
+    expect(pattern.test("user:.jsonx")).toBe(true);
+    expect(pattern.test("user:1xjson5")).toBe(false);
+    expect(pattern.test("user:1.json")).toBe(false);
+    expect(globToRegExp("a+b(c)").test("a+b(c)")).toBe(true);
+  });
+});
+
+describe("scanKeys", () => {
+  const keys = ["b", "a:2", "a:1", "c", "a:3"];
+
+  it("should page through sorted keys", () => {
+    const first = scanKeys(keys, { limit: 2 });
+    const second = scanKeys(keys, { limit: 2, cursor: first.cursor });
+    const third = scanKeys(keys, { limit: 2, cursor: second.cursor });
+
+    expect(first).toEqual({ keys: ["a:1", "a:2"], cursor: "a:2" });
+    expect(second).toEqual({ keys: ["a:3", "b"], cursor: "b" });
+    expect(third).toEqual({ keys: ["c"], cursor: null });
+  });
+
+  it("should filter by prefix and glob", () => {
+    expect(scanKeys(keys, { prefix: "a:" }).keys).toEqual([
+      "a:1",
+      "a:2",
+      "a:3",
+    ]);
+    expect(scanKeys(keys, { match: "a:[0-9]" }).keys).toEqual([]);
+    expect(scanKeys(keys, { match: "?" }).keys).toEqual(["b", "c"]);
+  });
+
+  it("should return a null cursor when the last page is exactly full", () => {
+    expect(scanKeys(["a", "b"], { limit: 2 })).toEqual({
+      keys: ["a", "b"],
+      cursor: null,
+    });
+  });
+});
+
+describe.each([
+  ["server-side scan", true],
+  ["keys() fallback", false],
+])("KVStore scanning with %s", (_name, scan) => {
+  let actions: string[];
+  let store: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server: new MemoryServer(),
+      capabilities: { scan },
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(async () => {
+    actions = [];
+    store = createStore();
+    await store.setMany(
+      ["user:3", "user:1", "order:1", "user:2", "session:1"].map((key) => ({
+        key,
+        value: key.toUpperCase(),
+      })),
+    );
+    actions = [];
+  });
+
+  it("should return pages of keys", async () => {
+    const first = await store.scan({ prefix: "user:", limit: 2 });
+    const second = await store.scan({
+      prefix: "user:",
+      limit: 2,
+      cursor: first.cursor,
+    });
+
+    expect(first.keys).toEqual(["user:1", "user:2"]);
+    expect(second).toEqual({ keys: ["user:3"], cursor: null });
+    expect(actions).toEqual(scan ? ["scan", "scan"] : ["keys", "keys"]);
+  });
+
+  it("should iterate over filtered keys", async () => {
+    const keys: string[] = [];
+    for await (const key of store.iterateKeys({
+      match: "*:1",
+      pageSize: 1,
+    })) {
+      keys.push(key);
+    }
+
+    expect(keys).toEqual(["order:1", "session:1", "user:1"]);
+    expect(actions).toEqual(scan ? ["scan", "scan", "scan"] : ["keys"]);
+  });
+
+  it("should iterate over entries with chunked getMany calls", async () => {
+    const entries: KVEntry[] = [];
+    for await (const entry of store.iterateEntries({
+      prefix: "user:",
+      pageSize: 2,
+    })) {
+      entries.push(entry);
+    }
+
+    expect(entries).toEqual([
+      { key: "user:1", value: "USER:1" },
+      { key: "user:2", value: "USER:2" },
+      { key: "user:3", value: "USER:3" },
+    ]);
+    expect(actions.filter((action) => action === "getMany")).toHaveLength(2);
+    expect(actions).not.toContain("entries");
+  });
+
+  it("should skip keys deleted during the iteration", async () => {
+    const keys: string[] = [];
+    for await (const entry of store.iterateEntries({ pageSize: 2 })) {
+      keys.push(entry.key);
+      if (keys.length === 1) await store.deleteMany(["user:2", "user:3"]);
+    }
+
+    expect(keys).toEqual(["order:1", "session:1", "user:1"]);
+  });
+
+  it("should retry failed pages", async () => {
+    let failures = 0;
+    const retried = createStore({
+      retry: { baseDelayMs: 0 },
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          if (failures > 0) {
+            failures--;
+            return {
+              status: 503,
+              ok: false,
+              body: { error: "Unavailable" },
+              request,
+            };
+          }
+          return await next(request);
+        },
+      ],
+    });
+    await retried.set("user:1", 1);
+    actions = [];
+    failures = 1;
+
+    const keys: string[] = [];
+    for await (const key of retried.iterateKeys()) keys.push(key);
+
+    expect(keys).toEqual(["user:1"]);
+    expect(actions).toEqual(scan ? ["scan", "scan"] : ["keys", "keys"]);
+  });
+
+  it("should decode values read while iterating", async () => {
+    const coded = createStore({ codecs: true });
+    await coded.set("date", new Date(0));
+
+    for await (const entry of coded.iterateEntries()) {
+      expect(entry.value).toEqual(new Date(0));
+    }
+  });
+});
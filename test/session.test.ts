@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type KVMiddleware,
+  KVStore,
+  KVStoreAuthError,
+  type KVStoreOptions,
+  type KVTokenChangeEvent,
+  MemoryServer,
+} from "../src/index";
+import { KVSession } from "../src/session";
+
+describe("KVSession", () => {
+  it("should keep a static token", async () => {
+    const session = new KVSession("token");
+
+    await expect(session.getToken()).resolves.toBe("token");
+    expect(session.hasProvider).toBe(false);
+  });
+
+  it("should load the token from the provider once", async () => {
+    const provider = vi.fn(async () => "token");
+    const session = new KVSession(provider);
+
+    await expect(
+      Promise.all([session.getToken(), session.getToken()]),
+    ).resolves.toEqual(["token", "token"]);
+    await session.getToken();
+
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share a refresh between concurrent callers", async () => {
+    const session = new KVSession("old");
+    const fallback = vi.fn(async () => "new");
+
+    await expect(
+      Promise.all([
+        session.refresh("old", fallback),
+        session.refresh("old", fallback),
+      ]),
+    ).resolves.toEqual(["new", "new"]);
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not refresh a token that was already replaced", async () => {
+    const session = new KVSession("old");
+    const fallback = vi.fn(async () => "new");
+    await session.refresh("old", fallback);
+
+    await expect(session.refresh("old", fallback)).resolves.toBe("new");
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh through the provider when there is one", async () => {
+    const provider = vi
+      .fn()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+    const session = new KVSession(provider);
+    const fallback = vi.fn(async () => "fallback");
+    await session.getToken();
+
+    await expect(session.refresh("first", fallback)).resolves.toBe("second");
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it("should let the next caller retry after a failed load", async () => {
+    const provider = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValueOnce("token");
+    const session = new KVSession(provider);
+
+    await expect(session.getToken()).rejects.toThrow("unavailable");
+    await expect(session.getToken()).resolves.toBe("token");
+  });
+
+  it("should notify listeners of changes only", () => {
+    const session = new KVSession("a");
+    const events: KVTokenChangeEvent[] = [];
+    const off = session.onTokenChange((event) => events.push(event));
+    session.onTokenChange(() => {
+      throw new Error("listener failed");
+    });
+
+    session.setToken("a", "manual");
+    session.setToken("b", "login");
+    off();
+    session.setToken("c", "manual");
+
+    expect(events).toEqual([
+      { token: "b", previousToken: "a", reason: "login" },
+    ]);
+  });
+});
+
+describe("KVStore sessions", () => {
+  let server: MemoryServer;
+  let tokens: string[];
+
+  /** Records the token of every request */
+  const recordTokens: KVMiddleware = async (request, next) => {
+    tokens.push(request.headers.Authorization.replace("Bearer ", ""));
+    return await next(request);
+  };
+
+  /** Answers 401 to requests carrying one of the given tokens */
+  const expire =
+    (expired: string[]): KVMiddleware =>
+    async (request, next) => {
+      const token = request.headers.Authorization.replace("Bearer ", "");
+      if (
+        request.envelope.action !== "generate-token" &&
+        expired.indexOf(token) !== -1
+      ) {
+        return {
+          status: 401,
+          ok: false,
+          body: { success: false, error: "Token expired" },
+          request,
+        };
+      }
+      return await next(request);
+    };
+
+  const createStore = (options: Partial<KVStoreOptions> = {}) =>
+    new KVStore("memory://", {
+      dbName: "db",
+      storeName: "store",
+      fetch: server.fetch,
+      ...options,
+      middleware: [recordTokens, ...(options.middleware ?? [])],
+    });
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    server.provision({ accessToken: "seed", dbName: "db", storeName: "store" });
+    tokens = [];
+  });
+
+  it("should adopt the token returned by login when asked to", async () => {
+    server.handle({ action: "register", username: "john", password: "pw" });
+    const store = createStore();
+    const events: KVTokenChangeEvent[] = [];
+    store.onTokenChange((event) => events.push(event));
+
+    await store.login({ username: "john", password: "pw" });
+    await expect(store.getAccessToken()).resolves.toBeUndefined();
+
+    const result = await store.login(
+      { username: "john", password: "pw" },
+      { adoptToken: true },
+    );
+
+    await expect(store.getAccessToken()).resolves.toBe(result.token);
+    await expect(store.getUserInfo()).resolves.toMatchObject({
+      user: { username: "john" },
+    });
+    expect(events).toEqual([
+      { token: result.token, previousToken: undefined, reason: "login" },
+    ]);
+  });
+
+  it("should adopt the token returned by generateToken when asked to", async () => {
+    const store = createStore({ accessToken: "seed" });
+
+    const result = await store.generateToken({ adoptToken: true });
+
+    await expect(store.getAccessToken()).resolves.toBe(result.token);
+  });
+
+  it("should get the token from the provider before the first request", async () => {
+    const provider = vi.fn(async () => "seed");
+    const store = createStore({ accessToken: provider });
+
+    await Promise.all([store.set("a", 1), store.set("b", 2)]);
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(tokens).toEqual(["seed", "seed"]);
+  });
+
+  it("should replay a request once with a new provider token after a 401", async () => {
+    server.provision({
+      accessToken: "fresh",
+      dbName: "db",
+      storeName: "store",
+    });
+    const provider = vi
+      .fn()
+      .mockResolvedValueOnce("stale")
+      .mockResolvedValueOnce("fresh");
+    const store = createStore({
+      accessToken: provider,
+      middleware: [expire(["stale"])],
+    });
+    const events: KVTokenChangeEvent[] = [];
+    store.onTokenChange((event) => events.push(event));
+
+    await expect(
+      Promise.all([store.set("a", 1), store.set("b", 2)]),
+    ).resolves.toHaveLength(2);
+
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(tokens).toEqual(["stale", "stale", "fresh", "fresh"]);
+    expect(events.map((event) => event.reason)).toEqual([
+      "provider",
+      "refresh",
+    ]);
+  });
+
+  it("should refresh a static token through generateToken when enabled", async () => {
+    const store = createStore({
+      accessToken: "seed",
+      refreshOnAuthError: true,
+      middleware: [expire(["seed"])],
+    });
+
+    await store.set("a", 1);
+
+    expect(tokens[0]).toBe("seed");
+    expect(tokens[1]).toBe("seed");
+    expect(tokens[2]).toMatch(/^memory-token-/);
+    await expect(store.getAccessToken()).resolves.toBe(tokens[2]);
+  });
+
+  it("should not refresh static tokens by default", async () => {
+    const store = createStore({
+      accessToken: "seed",
+      middleware: [expire(["seed"])],
+    });
+
+    await expect(store.set("a", 1)).rejects.toBeInstanceOf(KVStoreAuthError);
+    expect(tokens).toEqual(["seed"]);
+  });
+
+  it("should replay a request only once", async () => {
+    const provider = vi.fn(async () => "stale");
+    const store = createStore({
+      accessToken: provider,
+      middleware: [expire(["stale"])],
+    });
+
+    await expect(store.get("a")).rejects.toThrow("Token expired");
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(tokens).toEqual(["stale", "stale"]);
+  });
+
+  it("should not refresh after a failed login", async () => {
+    const provider = vi.fn(async () => "seed");
+    const store = createStore({ accessToken: provider });
+
+    await expect(
+      store.login({ username: "nobody", password: "pw" }),
+    ).rejects.toBeInstanceOf(KVStoreAuthError);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not refresh after a wrong password", async () => {
+    const provider = vi.fn(async () => "seed");
+    const store = createStore({ accessToken: provider });
+
+    await expect(store.changePassword("wrong", "new")).rejects.toBeInstanceOf(
+      KVStoreAuthError,
+    );
+    await expect(store.deleteAccount("wrong", "DELETE")).rejects.toBeInstanceOf(
+      KVStoreAuthError,
+    );
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(tokens).toHaveLength(2);
+  });
+
+  it("should report token provider failures as auth errors", async () => {
+    const cause = new Error("vault unavailable");
+    const store = createStore({
+      accessToken: () => Promise.reject(cause),
+    });
+
+    const error = await store.get("a").catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreAuthError);
+    expect(error.cause).toBe(cause);
+    expect(tokens).toEqual([]);
+  });
+
+  it("should use a token set manually", async () => {
+    const store = createStore({ accessToken: "other" });
+
+    store.setAccessToken("seed");
+    await store.set("a", 1);
+
+    expect(tokens).toEqual(["seed"]);
+  });
+
+  it("should refresh on demand", async () => {
+    const provider = vi
+      .fn()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+    const store = createStore({ accessToken: provider });
+
+    await expect(store.getAccessToken()).resolves.toBe("first");
+    await expect(store.refreshToken()).resolves.toBe("second");
+  });
+});
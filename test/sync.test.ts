@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { diff, KVStore, MemoryKVStore, MemoryServer, sync } from "../src/index";
+
+describe("store diff and sync", () => {
+  let actions: string[];
+  let source: MemoryKVStore;
+  let target: MemoryKVStore;
+
+  const createStore = (name: string) =>
+    new MemoryKVStore({
+      server: new MemoryServer(),
+      codecs: true,
+      middleware: [
+        async (request, next) => {
+          actions.push(`${name} ${request.envelope.action}`);
+          return await next(request);
+        },
+      ],
+    });
+
+  beforeEach(async () => {
+    actions = [];
+    source = createStore("source");
+    target = createStore("target");
+    await source.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: { tags: ["x"] } },
+      { key: "c", value: new Date(0) },
+      { key: "d", value: "new" },
+    ]);
+    await target.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: { tags: ["y"] } },
+      { key: "c", value: new Date(0) },
+      { key: "e", value: "old" },
+    ]);
+    actions = [];
+  });
+
+  it("should report added, removed and changed keys", async () => {
+    await expect(diff(source, target)).resolves.toEqual({
+      added: ["d"],
+      removed: ["e"],
+      changed: ["b"],
+      unchanged: 2,
+    });
+    expect(actions).not.toContain("target setMany");
+  });
+
+  it("should compare keys in chunks", async () => {
+    const report = await diff(source, target, { chunkSize: 2 });
+
+    expect(report.changed).toEqual(["b"]);
+    expect(
+      actions.filter((action) => action === "source getMany"),
+    ).toHaveLength(2);
+  });
+
+  it("should limit the comparison to a prefix", async () => {
+    await source.set("user:1", "Alice");
+    await target.set("user:2", "Bob");
+
+    await expect(diff(source, target, { prefix: "user:" })).resolves.toEqual({
+      added: ["user:1"],
+      removed: ["user:2"],
+      changed: [],
+      unchanged: 0,
+    });
+  });
+
+  it("should write only added and changed keys", async () => {
+    const report = await sync(source, target);
+
+    expect(report).toMatchObject({ written: 2, deleted: 0, dryRun: false });
+    expect(
+      actions.filter((action) => action.indexOf("target set") === 0),
+    ).toEqual(["target setMany"]);
+    await expect(target.getMany(["b", "d", "e"])).resolves.toEqual([
+      { tags: ["x"] },
+      "new",
+      "old",
+    ]);
+  });
+
+  it("should delete extraneous keys when asked", async () => {
+    const report = await sync(source, target, { deleteExtraneous: true });
+
+    expect(report).toMatchObject({ written: 2, deleted: 1 });
+    await expect(diff(source, target)).resolves.toMatchObject({
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 4,
+    });
+  });
+
+  it("should only report changes on a dry run", async () => {
+    const report = await sync(source, target, {
+      deleteExtraneous: true,
+      dryRun: true,
+    });
+
+    expect(report).toEqual({
+      added: ["d"],
+      removed: ["e"],
+      changed: ["b"],
+      unchanged: 2,
+      written: 0,
+      deleted: 0,
+      dryRun: true,
+    });
+    expect(actions).not.toContain("target setMany");
+    expect(actions).not.toContain("target deleteMany");
+  });
+
+  it("should sync between servers with different credentials", async () => {
+    const server = new MemoryServer();
+    server.provision({
+      accessToken: "production-token",
+      dbName: "prod",
+      storeName: "config",
+    });
+    const production = new KVStore("memory://production", {
+      accessToken: "production-token",
+      dbName: "prod",
+      storeName: "config",
+      fetch: server.fetch,
+    });
+
+    await sync(source, production);
+
+    await expect(production.get("c")).resolves.toBe("1970-01-01T00:00:00.000Z");
+    await expect(production.keys()).resolves.toEqual(["a", "b", "c", "d"]);
+  });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { KVStore, MemoryKVStore, MemoryServer } from "../src/index";
+
+describe("derived clients", () => {
+  let server: MemoryServer;
+  let store: MemoryKVStore;
+  let targets: string[];
+
+  beforeEach(async () => {
+    server = new MemoryServer();
+    targets = [];
+    store = new MemoryKVStore({
+      server,
+      dbName: "main",
+      storeName: "users",
+      middleware: [
+        async (request, next) => {
+          const { action, dbName, storeName } = request.envelope;
+          targets.push(`${action} ${dbName}/${storeName}`);
+          return await next(request);
+        },
+      ],
+    });
+    await store.createDatabase("archive");
+    await store.createStore("archive", "users");
+    await store.createStore("main", "orders");
+    targets = [];
+  });
+
+  it("should target another store", async () => {
+    const orders = store.withStore("orders");
+
+    await orders.set("order:1", 42);
+
+    expect(targets).toEqual(["set main/orders"]);
+    await expect(orders.get("order:1")).resolves.toBe(42);
+    await expect(store.keys()).resolves.toEqual([]);
+  });
+
+  it("should target another database", async () => {
+    const archive = store.withDatabase("archive");
+
+    await archive.set("user:1", "Alice");
+
+    expect(targets).toEqual(["set archive/users"]);
+    await expect(archive.keys()).resolves.toEqual(["user:1"]);
+  });
+
+  it("should target another database and store", async () => {
+    await store.createStore("archive", "orders");
+    const derived = store.withTarget({
+      dbName: "archive",
+      storeName: "orders",
+    });
+
+    await derived.keys();
+
+    expect(targets).toEqual([
+      "create-store archive/orders",
+      "keys archive/orders",
+    ]);
+    expect(derived).toBeInstanceOf(MemoryKVStore);
+    expect(derived).toBeInstanceOf(KVStore);
+  });
+
+  it("should copy middleware and share the session", async () => {
+    const headers: string[] = [];
+    store.use(async (request, next) => {
+      headers.push(request.headers.Authorization);
+      return await next(request);
+    });
+    const orders = store.withStore("orders");
+
+    store.setAccessToken("memory-token-x");
+    await expect(orders.keys()).rejects.toThrow("Invalid or expired token");
+    store.setAccessToken("memory-token");
+    await orders.keys();
+
+    expect(headers).toEqual(["Bearer memory-token-x", "Bearer memory-token"]);
+  });
+
+  it("should keep middleware added to a derived client to itself", async () => {
+    const orders = store.withStore("orders");
+    const seen: string[] = [];
+    orders.use(async (request, next) => {
+      seen.push(request.envelope.action);
+      return await next(request);
+    });
+
+    await store.keys();
+    await orders.keys();
+
+    expect(seen).toEqual(["keys"]);
+    expect(targets).toEqual(["keys main/users", "keys main/orders"]);
+  });
+
+  it("should share the cache without mixing stores", async () => {
+    const cached = new MemoryKVStore({
+      server,
+      dbName: "main",
+      storeName: "users",
+      cache: true,
+    });
+    const orders = cached.withStore("orders");
+    await cached.set("a", 1);
+    await orders.set("a", 2);
+
+    await expect(cached.get("a")).resolves.toBe(1);
+    await expect(orders.get("a")).resolves.toBe(2);
+    expect(cached.getCacheStats()).toMatchObject({ hits: 2, misses: 0 });
+  });
+
+  it("should batch gets per store", async () => {
+    const batched = new MemoryKVStore({
+      server,
+      dbName: "main",
+      storeName: "users",
+      batch: true,
+    });
+    const orders = batched.withStore("orders");
+    await batched.set("a", 1);
+    await orders.set("a", 2);
+
+    await expect(
+      Promise.all([batched.get("a"), orders.get("a")]),
+    ).resolves.toEqual([1, 2]);
+  });
+
+  it("should default store management names to the client's target", async () => {
+    const orders = store.withStore("orders");
+
+    await expect(orders.getStores()).resolves.toEqual(["users", "orders"]);
+    await orders.set("order:1", 1);
+    await expect(orders.entries()).resolves.toEqual([
+      { key: "order:1", value: 1 },
+    ]);
+    await orders.deleteStore();
+    await orders.createStore();
+
+    expect(targets).toEqual([
+      "get-stores main/orders",
+      "set main/orders",
+      "entries main/orders",
+      "delete-store main/orders",
+      "create-store main/orders",
+    ]);
+  });
+});
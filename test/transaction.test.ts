@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  KVStoreNotFoundError,
+  KVStoreServerError,
+  KVStoreTransactionError,
+  MemoryKVStore,
+  type MemoryKVStoreOptions,
+  MemoryServer,
+} from "../src/index";
+
+describe("KVStore transactions", () => {
+  let actions: string[];
+  let failing: string[];
+  let store: MemoryKVStore;
+
+  const createStore = (options: MemoryKVStoreOptions = {}) =>
+    new MemoryKVStore({
+      server: new MemoryServer(),
+      retry: false,
+      middleware: [
+        async (request, next) => {
+          const { action } = request.envelope;
+          actions.push(action);
+          const index = failing.indexOf(action);
+          if (index !== -1) {
+            failing.splice(index, 1);
+            return {
+              status: 500,
+              ok: false,
+              body: { message: `${action} failed` },
+              request,
+            };
+          }
+          return await next(request);
+        },
+      ],
+      ...options,
+    });
+
+  beforeEach(async () => {
+    actions = [];
+    failing = [];
+    store = createStore();
+    await store.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: 2 },
+    ]);
+    actions = [];
+  });
+
+  it("should commit buffered writes with setMany and deleteMany", async () => {
+    const result = await store.transaction(async (tx) => {
+      tx.set("c", 3).update("a", 10).delete("b");
+      expect(actions).toEqual([]);
+      return "done";
+    });
+
+    expect(result).toEqual({
+      value: "done",
+      written: ["c", "a"],
+      deleted: ["b"],
+    });
+    expect(actions).toEqual(["getMany", "setMany", "deleteMany"]);
+    await expect(store.getMany(["a", "b", "c"])).resolves.toEqual([
+      10,
+      null,
+      3,
+    ]);
+  });
+
+  it("should read buffered writes before the store", async () => {
+    await store.transaction(async (tx) => {
+      await expect(tx.get("a")).resolves.toBe(1);
+      tx.set("a", 5);
+      await expect(tx.get("a")).resolves.toBe(5);
+      tx.delete("a");
+      await expect(tx.get("a")).rejects.toBeInstanceOf(KVStoreNotFoundError);
+      expect(() => tx.update("a", 6)).toThrow(KVStoreNotFoundError);
+    });
+
+    await expect(store.get("a")).rejects.toBeInstanceOf(KVStoreNotFoundError);
+  });
+
+  it("should write nothing when the callback throws", async () => {
+    await expect(
+      store.transaction((tx) => {
+        tx.set("a", 100);
+        throw new Error("changed my mind");
+      }),
+    ).rejects.toThrow("changed my mind");
+
+    expect(actions).toEqual([]);
+  });
+
+  it("should write nothing when an updated key is missing", async () => {
+    await expect(
+      store.transaction((tx) => {
+        tx.set("a", 100).update("missing", 1);
+      }),
+    ).rejects.toBeInstanceOf(KVStoreNotFoundError);
+
+    expect(actions).toEqual(["getMany"]);
+    await expect(store.get("a")).resolves.toBe(1);
+  });
+
+  it("should restore previous values when the commit fails", async () => {
+    failing = ["deleteMany"];
+
+    const error = await store
+      .transaction((tx) => {
+        tx.set("a", 100).set("c", 3).delete("b");
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreTransactionError);
+    expect(error.rolledBack).toBe(true);
+    expect(error.unrestoredKeys).toEqual([]);
+    expect(error.cause).toBeInstanceOf(KVStoreServerError);
+    expect(error.message).toContain("previous values were restored");
+    expect(actions).toEqual([
+      "getMany",
+      "setMany",
+      "deleteMany",
+      "setMany",
+      "deleteMany",
+    ]);
+    await expect(store.getMany(["a", "b", "c"])).resolves.toEqual([1, 2, null]);
+  });
+
+  it("should report keys the rollback could not restore", async () => {
+    failing = ["setMany", "setMany"];
+
+    const error = await store
+      .transaction((tx) => {
+        tx.set("a", 100).set("c", 3).delete("b");
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreTransactionError);
+    expect(error.rolledBack).toBe(false);
+    expect(error.unrestoredKeys).toEqual(["a"]);
+    expect(error.rollbackError).toBeInstanceOf(KVStoreServerError);
+    expect(error.message).toContain("1 of 2 keys could not be restored");
+  });
+
+  it("should keep the cache consistent after a rollback", async () => {
+    store = createStore({ cache: true });
+    await store.set("a", 1);
+    failing = ["setMany"];
+
+    await expect(
+      store.transaction((tx) => {
+        tx.set("a", 100);
+      }),
+    ).rejects.toBeInstanceOf(KVStoreTransactionError);
+
+    await expect(store.get("a")).resolves.toBe(1);
+  });
+
+  it("should validate and encode buffered values on commit", async () => {
+    const coded = createStore({ codecs: true });
+
+    await coded.transaction((tx) => {
+      tx.set("date", new Date(0));
+    });
+
+    await expect(coded.get("date")).resolves.toEqual(new Date(0));
+  });
+});
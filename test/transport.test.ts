@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from "vitest";
+import { KVStoreError, KVStoreNetworkError } from "../src/errors";
+import {
+  composeMiddleware,
+  createFetchTransport,
+  type KVMiddleware,
+  type KVRequest,
+} from "../src/transport";
+
+const request = (): KVRequest => ({
+  url: "https://api.example.com/connect",
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  envelope: { action: "get", dbName: "db", storeName: "store", key: "k" },
+});
+
+describe("createFetchTransport", () => {
+  it("should serialize the envelope and parse the response", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ value: 1 }),
+    });
+    const transport = createFetchTransport(() => fetchImpl);
+    const req = request();
+
+    const response = await transport(req);
+
+    expect(fetchImpl).toHaveBeenCalledWith(req.url, {
+      method: "POST",
+      headers: req.headers,
+      body: JSON.stringify(req.envelope),
+    });
+    expect(response).toMatchObject({
+      ok: true,
+      status: 200,
+      body: { value: 1 },
+    });
+    expect(response.request).toBe(req);
+  });
+
+  it("should wrap fetch rejections in a network error", async () => {
+    const transport = createFetchTransport(() =>
+      vi.fn().mockRejectedValue(new TypeError("fetch failed")),
+    );
+
+    await expect(transport(request())).rejects.toBeInstanceOf(
+      KVStoreNetworkError,
+    );
+  });
+
+  it("should return an empty body for non-JSON error responses", async () => {
+    const transport = createFetchTransport(() =>
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 502,
+        json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+      }),
+    );
+
+    await expect(transport(request())).resolves.toMatchObject({
+      status: 502,
+      body: {},
+    });
+  });
+
+  it("should reject non-JSON success responses", async () => {
+    const transport = createFetchTransport(() =>
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+      }),
+    );
+
+    await expect(transport(request())).rejects.toBeInstanceOf(KVStoreError);
+  });
+});
+
+describe("composeMiddleware", () => {
+  it("should run middleware in order around the handler", async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): KVMiddleware =>
+      async (req, next) => {
+        calls.push(`${name}:before`);
+        const response = await next(req);
+        calls.push(`${name}:after`);
+        return response;
+      };
+    const handler = vi.fn(async (req: KVRequest) => {
+      calls.push("handler");
+      return { ok: true, status: 200, body: {}, request: req };
+    });
+
+    await composeMiddleware([track("a"), track("b")], handler)(request());
+
+    expect(calls).toEqual([
+      "a:before",
+      "b:before",
+      "handler",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("should pass the modified request down the chain", async () => {
+    const handler = vi.fn(async (req: KVRequest) => ({
+      ok: true,
+      status: 200,
+      body: {},
+      request: req,
+    }));
+    const chain = composeMiddleware(
+      [
+        (req, next) =>
+          next({ ...req, envelope: { ...req.envelope, tenant: "acme" } }),
+      ],
+      handler,
+    );
+
+    await chain(request());
+
+    expect(handler.mock.calls[0][0].envelope.tenant).toBe("acme");
+  });
+
+  it("should let middleware replace the response", async () => {
+    const handler = vi.fn();
+    const chain = composeMiddleware(
+      [
+        async (req) => ({
+          ok: true,
+          status: 200,
+          body: { cached: true },
+          request: req,
+        }),
+      ],
+      handler,
+    );
+
+    await expect(chain(request())).resolves.toMatchObject({
+      body: { cached: true },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should see middleware added after composition", async () => {
+    const middleware: KVMiddleware[] = [];
+    const handler = vi.fn(async (req: KVRequest) => ({
+      ok: true,
+      status: 200,
+      body: {},
+      request: req,
+    }));
+    const chain = composeMiddleware(middleware, handler);
+    const late = vi.fn((req: KVRequest, next) => next(req));
+
+    middleware.push(late);
+    await chain(request());
+
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  KVStoreError,
+  KVStoreNotFoundError,
+  MemoryKVStore,
+  MemoryServer,
+} from "../src/index";
+import { isExpired, unwrapExpiry, wrapExpiry } from "../src/ttl";
+
+describe("expiry envelopes", () => {
+  it("should wrap and unwrap data", () => {
+    expect(unwrapExpiry(wrapExpiry({ a: 1 }, 1000))).toEqual({
+      data: { a: 1 },
+      expiresAt: 1000,
+    });
+    expect(unwrapExpiry("plain")).toEqual({ data: "plain", expiresAt: null });
+  });
+
+  it("should compare the expiry time with the current time", () => {
+    expect(isExpired(wrapExpiry(1, 1000), 999)).toBe(false);
+    expect(isExpired(wrapExpiry(1, 1000), 1000)).toBe(true);
+    expect(isExpired({ v: 1 }, 1000)).toBe(false);
+  });
+});
+
+describe("KVStore expiring keys", () => {
+  let now: number;
+  let actions: string[];
+  let server: MemoryServer;
+  let store: MemoryKVStore;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    actions = [];
+    server = new MemoryServer();
+    store = new MemoryKVStore({
+      server,
+      ttl: true,
+      middleware: [
+        async (request, next) => {
+          actions.push(request.envelope.action);
+          return await next(request);
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return values until they expire", async () => {
+    await store.set("session", "token", { ttlMs: 1000 });
+    await store.set("user", "alice");
+
+    await expect(store.get("session")).resolves.toBe("token");
+    now += 1000;
+
+    await expect(store.get("session")).rejects.toBeInstanceOf(
+      KVStoreNotFoundError,
+    );
+    await expect(store.getMany(["session", "user"])).resolves.toEqual([
+      null,
+      "alice",
+    ]);
+    await expect(store.get("user")).resolves.toBe("alice");
+  });
+
+  it("should skip expired keys when listing", async () => {
+    await store.setMany([
+      { key: "a", value: 1, ttlMs: 500 },
+      { key: "b", value: 2 },
+    ]);
+    now += 500;
+
+    await expect(store.keys()).resolves.toEqual(["b"]);
+    await expect(store.values()).resolves.toEqual([2]);
+    await expect(store.entries()).resolves.toEqual([{ key: "b", value: 2 }]);
+    await expect(store.scan({ prefix: "" })).resolves.toMatchObject({
+      keys: ["b"],
+    });
+  });
+
+  it("should let per-entry TTLs override the call TTL", async () => {
+    await store.setMany(
+      [
+        { key: "short", value: 1, ttlMs: 100 },
+        { key: "long", value: 2 },
+      ],
+      { ttlMs: 1000 },
+    );
+
+    now += 100;
+    await expect(store.getMany(["short", "long"])).resolves.toEqual([null, 2]);
+    now += 900;
+    await expect(store.getMany(["short", "long"])).resolves.toEqual([
+      null,
+      null,
+    ]);
+  });
+
+  it("should keep values alive when written again without a TTL", async () => {
+    await store.set("a", 1, { ttlMs: 100 });
+    await store.set("a", 2);
+    now += 100;
+
+    await expect(store.get("a")).resolves.toBe(2);
+  });
+
+  it("should purge expired keys", async () => {
+    await store.setMany([
+      { key: "a", value: 1, ttlMs: 100 },
+      { key: "b", value: 2, ttlMs: 100 },
+      { key: "c", value: 3 },
+    ]);
+    now += 100;
+    actions = [];
+
+    await expect(store.purgeExpired()).resolves.toBe(2);
+
+    expect(actions).toEqual(["entries", "deleteMany"]);
+    const plain = new MemoryKVStore({ server });
+    await expect(plain.keys()).resolves.toEqual(["c"]);
+    await expect(store.purgeExpired()).resolves.toBe(0);
+  });
+
+  it("should compose with versioning and codecs", async () => {
+    const versioned = new MemoryKVStore({
+      server,
+      ttl: true,
+      versioning: true,
+      codecs: true,
+    });
+    await versioned.set("date", new Date(0), { ttlMs: 100 });
+
+    const { value, version } = await versioned.getWithVersion("date");
+    expect(value).toEqual(new Date(0));
+    expect(version).toEqual(expect.any(String));
+    now += 100;
+    await expect(versioned.getWithVersion("date")).rejects.toBeInstanceOf(
+      KVStoreNotFoundError,
+    );
+  });
+
+  it("should apply TTLs through namespaces", async () => {
+    const sessions = store.namespace("session:");
+    await sessions.set("1", "a", { ttlMs: 100 });
+    await sessions.setMany([{ key: "2", value: "b", ttlMs: 200 }]);
+    now += 100;
+
+    await expect(sessions.keys()).resolves.toEqual(["2"]);
+  });
+
+  it("should require the ttl option", async () => {
+    const plain = new MemoryKVStore({ server });
+
+    await expect(plain.set("a", 1, { ttlMs: 100 })).rejects.toBeInstanceOf(
+      KVStoreError,
+    );
+    await expect(
+      plain.setMany([{ key: "a", value: 1, ttlMs: 100 }]),
+    ).rejects.toThrow("TTL is not enabled");
+    await expect(plain.purgeExpired()).rejects.toThrow("TTL is not enabled");
+    await expect(plain.keys()).resolves.toEqual([]);
+  });
+});
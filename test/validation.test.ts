@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { KVStoreValidationError, MemoryKVStore } from "../src/index";
+import {
+  findValidator,
+  type KVValidator,
+  type ParseSchemaLike,
+  runValidator,
+  type StandardSchemaLike,
+} from "../src/validation";
+
+interface User {
+  name: string;
+}
+
+/** Parse-style validator, shaped like a zod schema */
+const userParser: ParseSchemaLike<User> = {
+  parse(value) {
+    const user = value as User;
+    if (typeof user?.name !== "string") {
+      const error = new Error("Invalid user") as Error & { issues: unknown };
+      error.issues = [{ message: "name must be a string", path: ["name"] }];
+      throw error;
+    }
+    return { name: user.name.trim() };
+  },
+};
+
+/** Standard Schema validator */
+const positive: StandardSchemaLike<number> = {
+  "~standard": {
+    validate: (value) =>
+      typeof value === "number" && value > 0
+        ? { value }
+        : { issues: [{ message: "expected a positive number" }] },
+  },
+};
+
+describe("findValidator", () => {
+  const validators: Record<string, KVValidator> = {
+    "user:": userParser,
+    "user:admin:": positive,
+  };
+
+  it("should pick the longest matching prefix", () => {
+    expect(findValidator(validators, "user:1")).toBe(userParser);
+    expect(findValidator(validators, "user:admin:1")).toBe(positive);
+  });
+
+  it("should return undefined when no prefix matches", () => {
+    expect(findValidator(validators, "session:1")).toBeUndefined();
+  });
+});
+
+describe("runValidator", () => {
+  it("should return the parsed value", async () => {
+    await expect(
+      runValidator(userParser, { name: " Alice " }),
+    ).resolves.toEqual({ valid: true, value: { name: "Alice" } });
+  });
+
+  it("should collect issues from parse errors", async () => {
+    await expect(runValidator(userParser, {})).resolves.toEqual({
+      valid: false,
+      issues: [{ message: "name must be a string", path: ["name"] }],
+    });
+  });
+
+  it("should use the error message when no issues are listed", async () => {
+    const validator = {
+      parse: () => {
+        throw new Error("nope");
+      },
+    };
+
+    await expect(runValidator(validator, 1)).resolves.toEqual({
+      valid: false,
+      issues: [{ message: "nope" }],
+    });
+  });
+
+  it("should support Standard Schema validators", async () => {
+    await expect(runValidator(positive, 3)).resolves.toEqual({
+      valid: true,
+      value: 3,
+    });
+    await expect(runValidator(positive, -1)).resolves.toEqual({
+      valid: false,
+      issues: [{ message: "expected a positive number" }],
+    });
+  });
+});
+
+describe("KVStore validation", () => {
+  let kvStore: MemoryKVStore;
+
+  beforeEach(() => {
+    kvStore = new MemoryKVStore({
+      validation: { validators: { "user:": userParser, "count:": positive } },
+    });
+  });
+
+  it("should validate and transform values on set", async () => {
+    await kvStore.set("user:1", { name: " Alice " });
+
+    await expect(kvStore.get("user:1")).resolves.toEqual({ name: "Alice" });
+  });
+
+  it("should reject invalid writes before sending them", async () => {
+    const error = await kvStore.set("user:1", { name: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreValidationError);
+    expect(error.key).toBe("user:1");
+    expect(error.action).toBe("set");
+    expect(error.issues).toEqual([
+      { message: "name must be a string", path: ["name"] },
+    ]);
+    expect(error.message).toContain('"user:1"');
+    await expect(kvStore.keys()).resolves.toEqual([]);
+  });
+
+  it("should validate every entry of setMany", async () => {
+    const error = await kvStore
+      .setMany([
+        { key: "count:a", value: 1 },
+        { key: "count:b", value: 0 },
+      ])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreValidationError);
+    expect(error.key).toBe("count:b");
+    await expect(kvStore.keys()).resolves.toEqual([]);
+  });
+
+  it("should validate updates", async () => {
+    await kvStore.set("count:a", 1);
+
+    await expect(kvStore.update("count:a", -5)).rejects.toBeInstanceOf(
+      KVStoreValidationError,
+    );
+  });
+
+  it("should leave keys without a validator alone", async () => {
+    await kvStore.set("other", { anything: true });
+
+    await expect(kvStore.get("other")).resolves.toEqual({ anything: true });
+  });
+
+  it("should not validate reads unless enabled", async () => {
+    const raw = new MemoryKVStore({ server: kvStore.server });
+    await raw.set("count:a", -1);
+
+    await expect(kvStore.get("count:a")).resolves.toBe(-1);
+  });
+
+  describe("with validateOnRead", () => {
+    let raw: MemoryKVStore;
+
+    beforeEach(async () => {
+      kvStore = new MemoryKVStore({
+        validation: {
+          validators: { "count:": positive },
+          validateOnRead: true,
+        },
+      });
+      raw = new MemoryKVStore({ server: kvStore.server });
+      await raw.setMany([
+        { key: "count:good", value: 1 },
+        { key: "count:bad", value: -1 },
+      ]);
+    });
+
+    it("should validate get", async () => {
+      await expect(kvStore.get("count:good")).resolves.toBe(1);
+
+      const error = await kvStore.get("count:bad").catch((e) => e);
+      expect(error).toBeInstanceOf(KVStoreValidationError);
+      expect(error.action).toBe("get");
+      expect(error.key).toBe("count:bad");
+    });
+
+    it("should validate getMany and skip missing values", async () => {
+      await expect(
+        kvStore.getMany(["count:good", "count:missing"]),
+      ).resolves.toEqual([1, null]);
+      await expect(kvStore.getMany(["count:bad"])).rejects.toBeInstanceOf(
+        KVStoreValidationError,
+      );
+    });
+
+    it("should validate entries", async () => {
+      const error = await kvStore.entries("default", "default").catch((e) => e);
+
+      expect(error).toBeInstanceOf(KVStoreValidationError);
+      expect(error.action).toBe("entries");
+    });
+  });
+});
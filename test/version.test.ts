@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  KVStoreConflictError,
+  KVStoreError,
+  KVStoreNotFoundError,
+  KVStoreVersionConflictError,
+  MemoryKVStore,
+  MemoryServer,
+} from "../src/index";
+import { unwrapVersion, wrapVersion } from "../src/version";
+
+describe("version envelopes", () => {
+  it("should wrap and unwrap data", () => {
+    expect(unwrapVersion(wrapVersion({ a: 1 }, "v1"))).toEqual({
+      data: { a: 1 },
+      version: "v1",
+    });
+  });
+
+  it("should treat other values as unversioned", () => {
+    expect(unwrapVersion({ a: 1 })).toEqual({ data: { a: 1 }, version: null });
+    expect(unwrapVersion(null)).toEqual({ data: null, version: null });
+  });
+});
+
+describe("KVStore optimistic concurrency", () => {
+  let server: MemoryServer;
+  let store: MemoryKVStore;
+
+  beforeEach(() => {
+    server = new MemoryServer();
+    store = new MemoryKVStore({ server, versioning: true, codecs: true });
+  });
+
+  it("should write a new version on every write", async () => {
+    await store.set("a", 1);
+    const first = await store.getWithVersion("a");
+    await store.update("a", 2);
+    const second = await store.getWithVersion("a");
+
+    expect(first.value).toBe(1);
+    expect(second.value).toBe(2);
+    expect(first.version).toEqual(expect.any(String));
+    expect(second.version).not.toBe(first.version);
+    await expect(store.get("a")).resolves.toBe(2);
+  });
+
+  it("should decode values inside the envelope", async () => {
+    await store.setMany([{ key: "date", value: new Date(0) }]);
+
+    await expect(store.getMany(["date"])).resolves.toEqual([new Date(0)]);
+    await expect(store.entries()).resolves.toEqual([
+      { key: "date", value: new Date(0) },
+    ]);
+  });
+
+  it("should read values written without versioning", async () => {
+    const plain = new MemoryKVStore({ server });
+    await plain.set("legacy", "old");
+
+    await expect(store.getWithVersion("legacy")).resolves.toEqual({
+      value: "old",
+      version: null,
+    });
+    await store.compareAndSet("legacy", null, "new");
+    await expect(store.get("legacy")).resolves.toBe("new");
+  });
+
+  it("should write when the version matches", async () => {
+    await store.set("a", 1);
+    const { version } = await store.getWithVersion("a");
+
+    const next = await store.compareAndSet("a", version, 2);
+
+    await expect(store.getWithVersion("a")).resolves.toEqual({
+      value: 2,
+      version: next,
+    });
+  });
+
+  it("should throw a conflict when the version changed", async () => {
+    await store.set("a", 1);
+    const { version } = await store.getWithVersion("a");
+    await store.set("a", 5);
+
+    const error = await store.compareAndSet("a", version, 2).catch((e) => e);
+
+    expect(error).toBeInstanceOf(KVStoreVersionConflictError);
+    expect(error).toBeInstanceOf(KVStoreConflictError);
+    expect(error).toMatchObject({ key: "a", expectedVersion: version });
+    expect(error.actualVersion).not.toBe(version);
+    await expect(store.get("a")).resolves.toBe(5);
+  });
+
+  it("should create missing keys when no version is expected", async () => {
+    await store.compareAndSet("new", null, 1);
+    await expect(store.get("new")).resolves.toBe(1);
+
+    await expect(store.compareAndSet("new", null, 2)).rejects.toBeInstanceOf(
+      KVStoreVersionConflictError,
+    );
+    await expect(
+      store.compareAndSet("missing", "v1", 1),
+    ).rejects.toBeInstanceOf(KVStoreVersionConflictError);
+  });
+
+  it("should retry modifications that lose a race", async () => {
+    await store.set("counter", 0);
+    let calls = 0;
+
+    const result = await store.modify("counter", async (value) => {
+      calls++;
+      // Another writer increments the counter during the first attempt
+      if (calls === 1) await store.set("counter", 10);
+      return value + 1;
+    });
+
+    expect(calls).toBe(2);
+    expect(result.value).toBe(11);
+    await expect(store.getWithVersion("counter")).resolves.toEqual(result);
+  });
+
+  it("should create missing keys in modify", async () => {
+    const result = await store.modify("visits", (value) => (value ?? 0) + 1);
+
+    expect(result.value).toBe(1);
+    await expect(store.get("visits")).resolves.toBe(1);
+  });
+
+  it("should give up after the configured retries", async () => {
+    await store.set("counter", 0);
+    let calls = 0;
+
+    await expect(
+      store.modify(
+        "counter",
+        async (value) => {
+          calls++;
+          await store.set("counter", value);
+          return value + 1;
+        },
+        { retries: 2 },
+      ),
+    ).rejects.toBeInstanceOf(KVStoreVersionConflictError);
+    expect(calls).toBe(3);
+  });
+
+  it("should require versioning to be enabled", async () => {
+    const plain = new MemoryKVStore({ server });
+    await plain.set("a", 1);
+
+    await expect(plain.getWithVersion("a")).rejects.toBeInstanceOf(
+      KVStoreError,
+    );
+    await expect(plain.compareAndSet("a", null, 2)).rejects.toThrow(
+      "Versioning is not enabled",
+    );
+    await expect(plain.get("a")).resolves.toBe(1);
+    await expect(store.getWithVersion("missing")).rejects.toBeInstanceOf(
+      KVStoreNotFoundError,
+    );
+  });
+});